@@ -1,10 +1,11 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract AssetMgmtFhe is SepoliaConfig {
     using FHE for euint32;
+    using FHE for euint64;
     using FHE for ebool;
 
     error NotOwner();
@@ -12,17 +13,49 @@ contract AssetMgmtFhe is SepoliaConfig {
     error Paused();
     error CooldownActive();
     error BatchNotOpen();
+    error BatchNotClosed();
     error InvalidInput();
     error ReplayDetected();
     error StateMismatch();
     error DecryptionFailed();
+    error MissingRole(bytes32 role, address account);
+    error TimelockNotReady(uint64 eta);
+    error InvalidBatchState(uint256 batchId, BatchState state);
+    error OutsideBatchWindow(uint64 opensAt, uint64 submissionDeadline);
 
-    address public owner;
-    mapping(address => bool) public isProvider;
+    address public owner; // Holds ADMIN_ROLE for as long as it is the owner
     bool public paused;
     uint256 public cooldownSeconds;
 
+    // Global roles, all administered by ADMIN_ROLE. Fund managers and data providers additionally
+    // need to be assigned to a fund (fundInfo.manager, isProvider) to act on it.
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant FUND_MANAGER_ROLE = keccak256("FUND_MANAGER_ROLE");
+    bytes32 public constant DATA_PROVIDER_ROLE = keccak256("DATA_PROVIDER_ROLE");
+    bytes32 public constant COMPLIANCE_OFFICER_ROLE = keccak256("COMPLIANCE_OFFICER_ROLE");
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    mapping(bytes32 => mapping(address => bool)) public hasRole; // role => account => granted
+    address public pendingOwner; // Proposed by transferOwnership, takes over on acceptOwnership
+
+    // Sensitive admin operations only take effect TIMELOCK_DELAY after being queued, so everyone can
+    // see them coming. Whoever may queue an action may also execute or cancel it.
+    uint64 public constant TIMELOCK_DELAY = 2 days;
+    enum ActionKind { SetCooldown, RemoveProvider }
+    enum ActionStatus { None, Queued, Executed, Cancelled }
+    struct QueuedAction {
+        ActionKind kind;
+        ActionStatus status;
+        uint64 eta; // Earliest execution time
+        uint256 fundId; // RemoveProvider only
+        address provider; // RemoveProvider only
+        uint256 cooldownSeconds; // SetCooldown only
+    }
+    uint256 public actionCount; // Action ids start at 1
+    mapping(uint256 => QueuedAction) public queuedActions; // actionId => QueuedAction
+
     struct DecryptionContext {
+        uint256 fundId;
         uint256 batchId;
         bytes32 stateHash;
         bool processed;
@@ -33,161 +66,844 @@ contract AssetMgmtFhe is SepoliaConfig {
     mapping(address => uint256) public lastDecryptionRequestTime;
 
     struct Fund {
-        euint32 totalAssets;
-        euint32 managerFeeRate; // e.g., 1% = 1, 0.5% = 0.5. Scaled by 1000 for euint32.
-        euint32 performanceFeeRate; // Scaled by 1000.
-        euint32 highWaterMark;
+        euint64 totalAssets; // USD cents, see src/encoding.ts
+        euint64 managerFeeRate; // Basis points, e.g. 1% = 100, 0.5% = 50.
+        euint64 performanceFeeRate; // Basis points.
+        euint64 highWaterMark; // USD cents.
+    }
+    // Plaintext registry entry; the figures themselves live in the per-batch Fund structs
+    struct FundInfo {
+        string name;
+        address manager;
+        uint256 currentBatchId;
+        bool batchOpen; // batches[fundId][currentBatchId].state == BatchState.Open
+        bool closed;
+        uint64 createdAt;
+        uint256 batchCount; // Scheduled batches; ids run from 0 to batchCount - 1
+    }
+    uint256 public fundCount; // Fund ids start at 1
+    mapping(uint256 => FundInfo) public fundInfo; // fundId => FundInfo
+    mapping(uint256 => mapping(address => bool)) public isProvider; // fundId => provider => allowed
+    mapping(uint256 => mapping(uint256 => Fund)) public funds; // fundId => batchId => Fund
+    mapping(uint256 => mapping(uint256 => euint64)) public fundValuesAtBatchClose; // fundId => batchId => fund value snapshot
+    // Set when a submission would have taken totalAssets past MAX_FUND_VALUE; totalAssets is then
+    // saturated and the batch should not be relied on. Decrypted along with the batch values.
+    mapping(uint256 => mapping(uint256 => ebool)) public batchOverflowed; // fundId => batchId => flag
+
+    // Batch lifecycle. The manager schedules a submission window and the providers expected to
+    // submit; the batch opens once opensAt is reached and closes after the deadline, or earlier once
+    // every assigned provider has submitted. Finalizing a closed batch signs it off, and only then can
+    // the next one open, so batches run one at a time and in id order.
+    enum BatchState { None, Scheduled, Open, Closed, Finalized }
+    enum BatchProviderStatus { None, Assigned, Submitted }
+    struct Batch {
+        BatchState state;
+        uint64 opensAt;
+        uint64 submissionDeadline; // Submissions are accepted before this time
+        uint64 closedAt;
+        uint32 providerCount;
+        uint32 submissionCount; // Assigned providers that have submitted
+    }
+    mapping(uint256 => mapping(uint256 => Batch)) public batches; // fundId => batchId => Batch
+    mapping(uint256 => mapping(uint256 => mapping(address => BatchProviderStatus))) public batchProviders; // fundId => batchId => provider => status
+
+    enum ScenarioKind { Shock, Scale, Flow }
+    uint64 private constant BPS_DENOMINATOR = 10_000;
+    uint64 private constant SECONDS_PER_YEAR = 365 days;
+    mapping(uint256 => euint64) public accruedManagementFees; // fundId => accrued management fee, USD cents
+    mapping(uint256 => uint64) public lastFeeAccrualAt; // fundId => timestamp fees are accrued up to
+    mapping(uint256 => euint64) public accruedPerformanceFees; // fundId => crystallized performance fee, USD cents
+    mapping(uint256 => bool) public highWaterMarkSet; // fundId => a batch close has set the reference HWM
+
+    // Investor share ledger. Shares have two decimals like USD cents, so 1.00 USD per share is one
+    // cent per share unit. Prices are fixed point with SHARE_PRICE_SCALE = 1.0000.
+    uint64 public constant SHARE_PRICE_SCALE = 10_000;
+    uint8 private constant SHARE_PRICE_BITS = 18; // Prices saturate at 26.2143; keeps updateSharePrice under the HCU limits
+    // Cap on aggregated amounts (USD cents, share units), about $703 billion. Anything below it can be
+    // multiplied by a share price or a basis-point factor under 2^SHARE_PRICE_BITS without wrapping 64 bits.
+    uint64 private constant MAX_FUND_VALUE = type(uint64).max >> SHARE_PRICE_BITS;
+    uint64 private constant MAX_FACTOR_BPS = (uint64(1) << SHARE_PRICE_BITS) - 1; // x26.2143, for what-if scenarios
+    struct SharePrice {
+        euint32 navPerShare; // USD per share
+        euint32 sharesPerAsset; // Shares per USD, used to convert subscriptions and redemptions
+        uint64 updatedAt;
+    }
+    mapping(uint256 => SharePrice) public sharePrices; // fundId => SharePrice
+    mapping(uint256 => euint64) public totalShares; // fundId => shares outstanding
+    mapping(uint256 => mapping(address => euint64)) public shareBalances; // fundId => investor => shares
+    mapping(uint256 => mapping(address => bool)) public isInvestor; // fundId => investor => has subscribed
+
+    // Latest what-if result per caller, fund and batch, readable only by that caller
+    mapping(address => mapping(uint256 => mapping(uint256 => euint64))) public scenarioResults;
+
+    // Bitmask of Fund handles an auditor may decrypt, in the order of _batchCiphertexts
+    uint8 private constant AUDIT_TOTAL_ASSETS = 1 << 0;
+    uint8 private constant AUDIT_MANAGER_FEE_RATE = 1 << 1;
+    uint8 private constant AUDIT_PERFORMANCE_FEE_RATE = 1 << 2;
+    uint8 private constant AUDIT_HIGH_WATER_MARK = 1 << 3;
+    uint8 private constant AUDIT_VALUE_AT_BATCH_CLOSE = 1 << 4;
+    uint8 private constant AUDIT_OVERFLOWED = 1 << 5;
+    uint8 private constant AUDIT_ALL_FIELDS = (1 << 6) - 1;
+    mapping(uint256 => mapping(uint256 => mapping(address => uint8))) public auditorGrants; // fundId => batchId => auditor => fields
+
+    // Encrypted compliance thresholds, in the encodings of Fund: USD cents and basis points
+    struct ComplianceRules {
+        euint64 minTotalAssets;
+        euint64 maxManagerFeeRate;
+        euint64 maxPerformanceFeeRate;
+        euint64 maxDrawdown; // bps of totalAssets below the high-water mark, at most 100%
     }
-    mapping(uint256 => Fund) public funds; // batchId => Fund
-    mapping(uint256 => euint32) public fundValuesAtBatchClose; // batchId => fund value snapshot
+    mapping(uint256 => ComplianceRules) public complianceRules; // fundId => ComplianceRules
+
+    // Bitmask of failed rules, in the order of the ebools decoded in complianceCallback
+    uint8 private constant RULE_MIN_TOTAL_ASSETS = 1 << 0;
+    uint8 private constant RULE_MAX_MANAGER_FEE_RATE = 1 << 1;
+    uint8 private constant RULE_MAX_PERFORMANCE_FEE_RATE = 1 << 2;
+    uint8 private constant RULE_MAX_DRAWDOWN = 1 << 3;
 
-    uint256 public currentBatchId;
-    bool public batchOpen;
+    struct ComplianceResult {
+        uint256 requestId;
+        bool compliant;
+        uint8 failedRules;
+        uint64 verifiedAt; // 0 until the oracle calls back
+    }
+    mapping(uint256 => mapping(uint256 => ComplianceResult)) public complianceResults; // fundId => batchId => latest result
+    mapping(uint256 => DecryptionContext) public complianceContexts; // requestId => context
 
+    event OwnershipTransferStarted(address indexed owner, address indexed pendingOwner);
     event OwnershipTransferred(address indexed oldOwner, address indexed newOwner);
-    event ProviderAdded(address indexed provider);
-    event ProviderRemoved(address indexed provider);
+    event ActionQueued(uint256 indexed actionId, ActionKind indexed kind, uint256 indexed fundId, address provider, uint256 cooldownSeconds, uint64 eta, address proposer);
+    event ActionExecuted(uint256 indexed actionId, address indexed executor);
+    event ActionCancelled(uint256 indexed actionId, address indexed canceller);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event FundCreated(uint256 indexed fundId, address indexed manager, string name);
+    event FundClosed(uint256 indexed fundId);
+    event ProviderAdded(uint256 indexed fundId, address indexed provider);
+    event ProviderRemoved(uint256 indexed fundId, address indexed provider);
     event PauseToggled(bool indexed paused);
     event CooldownSecondsSet(uint256 indexed oldCooldown, uint256 indexed newCooldown);
-    event BatchOpened(uint256 indexed batchId);
-    event BatchClosed(uint256 indexed batchId, bytes32 encryptedValueSnapshot);
-    event FundStateSubmitted(uint256 indexed batchId, address indexed provider, euint32 totalAssets, euint32 managerFee, euint32 performanceFee);
-    event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, bytes32 stateHash);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 totalAssets, uint256 managerFee, uint256 performanceFee, uint256 highWaterMark, uint256 valueAtBatchClose);
+    event BatchScheduled(uint256 indexed fundId, uint256 indexed batchId, uint64 opensAt, uint64 submissionDeadline, address[] providers);
+    event BatchOpened(uint256 indexed fundId, uint256 indexed batchId);
+    event BatchClosed(uint256 indexed fundId, uint256 indexed batchId, bytes32 encryptedValueSnapshot);
+    event BatchFinalized(uint256 indexed fundId, uint256 indexed batchId);
+    event FundStateSubmitted(uint256 indexed fundId, uint256 indexed batchId, address indexed provider, euint64 totalAssets, euint64 managerFee, euint64 performanceFee);
+    event DecryptionRequested(uint256 indexed requestId, uint256 indexed fundId, uint256 indexed batchId, bytes32 stateHash);
+    event ManagementFeeAccrued(uint256 indexed fundId, uint256 indexed batchId, uint64 fromTimestamp, uint64 toTimestamp, euint64 fee, euint64 accrued);
+    event PerformanceFeeCrystallized(uint256 indexed fundId, uint256 indexed batchId, euint64 totalAssets, euint64 highWaterMark, euint64 fee, euint64 accrued);
+    event SharePriceUpdated(uint256 indexed fundId, uint256 indexed batchId, euint32 navPerShare, euint32 sharesPerAsset);
+    event Subscribed(uint256 indexed fundId, address indexed investor, euint64 amount, euint64 shares);
+    event Redeemed(uint256 indexed fundId, address indexed investor, euint64 shares, euint64 payout);
+    event ScenarioComputed(uint256 indexed fundId, uint256 indexed batchId, address indexed caller, ScenarioKind kind, euint64 result);
+    event AuditorAccessGranted(uint256 indexed fundId, uint256 indexed batchId, address indexed auditor, uint8 fields, bytes32[] handles);
+    event AuditorAccessRevoked(uint256 indexed fundId, uint256 indexed batchId, address indexed auditor);
+    event ComplianceRulesSet(uint256 indexed fundId);
+    event ComplianceCheckRequested(uint256 indexed requestId, uint256 indexed fundId, uint256 indexed batchId, bytes32 stateHash);
+    event ComplianceVerified(uint256 indexed requestId, uint256 indexed fundId, uint256 indexed batchId, bool compliant, uint8 failedRules);
+    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed fundId, uint256 indexed batchId, uint256 totalAssets, uint256 managerFee, uint256 performanceFee, uint256 highWaterMark, uint256 valueAtBatchClose, bool overflowed);
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
         _;
     }
 
-    modifier onlyProvider() {
-        if (!isProvider[msg.sender]) revert NotProvider();
+    modifier onlyRole(bytes32 role) {
+        _checkRole(role, msg.sender);
+        _;
+    }
+
+    // The modifiers call internal checks rather than inlining them, to keep the bytecode under the size limit
+    modifier onlyFundManager(uint256 fundId) {
+        _checkFundManager(fundId);
+        _;
+    }
+
+    modifier onlyProvider(uint256 fundId) {
+        _checkProvider(fundId);
         _;
         lastSubmissionTime[msg.sender] = block.timestamp;
     }
 
+    // The fund's manager and providers, while they hold their role; they already see its figures
+    modifier onlyFundReader(uint256 fundId) {
+        _checkFundReader(fundId);
+        _;
+    }
+
     modifier whenNotPaused() {
-        if (paused) revert Paused();
+        _checkNotPaused();
         _;
     }
 
     modifier checkSubmissionCooldown() {
-        if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
-            revert CooldownActive();
-        }
+        _checkCooldown(lastSubmissionTime[msg.sender]);
         _;
     }
 
     modifier checkDecryptionCooldown() {
-        if (block.timestamp < lastDecryptionRequestTime[msg.sender] + cooldownSeconds) {
-            revert CooldownActive();
-        }
+        _checkCooldown(lastDecryptionRequestTime[msg.sender]);
         _;
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
     }
 
+    // The deployer starts with every role so a fresh deployment is usable; the admin hands them out from there
     constructor() {
         owner = msg.sender;
-        isProvider[owner] = true;
         cooldownSeconds = 60; // Default 1 minute cooldown
-        emit ProviderAdded(owner);
+        _grantRole(ADMIN_ROLE, msg.sender);
+        _grantRole(FUND_MANAGER_ROLE, msg.sender);
+        _grantRole(DATA_PROVIDER_ROLE, msg.sender);
+        _grantRole(COMPLIANCE_OFFICER_ROLE, msg.sender);
+        _grantRole(AUDITOR_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
     }
 
+    // Takes effect once newOwner calls acceptOwnership; a new proposal replaces the pending one
     function transferOwnership(address newOwner) external onlyOwner {
+        if (newOwner == address(0) || newOwner == owner) revert InvalidInput();
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotOwner();
         address oldOwner = owner;
-        owner = newOwner;
-        emit OwnershipTransferred(oldOwner, newOwner);
+        owner = msg.sender;
+        delete pendingOwner;
+        _revokeRole(ADMIN_ROLE, oldOwner);
+        _grantRole(ADMIN_ROLE, msg.sender);
+        emit OwnershipTransferred(oldOwner, msg.sender);
     }
 
-    function addProvider(address provider) external onlyOwner {
-        if (provider == address(0)) revert InvalidInput();
-        isProvider[provider] = true;
-        emit ProviderAdded(provider);
+    function grantRole(bytes32 role, address account) external onlyRole(ADMIN_ROLE) {
+        if (account == address(0) || !_isRole(role)) revert InvalidInput();
+        _grantRole(role, account);
+    }
+
+    // The owner keeps ADMIN_ROLE until ownership moves, so the contract always has an admin.
+    // Not timelocked: revoking DATA_PROVIDER_ROLE or FUND_MANAGER_ROLE cuts an account off from every
+    // fund at once, e.g. a compromised key. queueProviderRemoval only delays a manager's own funds.
+    function revokeRole(bytes32 role, address account) external onlyRole(ADMIN_ROLE) {
+        if (role == ADMIN_ROLE && account == owner) revert InvalidInput();
+        _revokeRole(role, account);
     }
 
-    function removeProvider(address provider) external onlyOwner {
-        if (provider == owner) revert InvalidInput(); // Owner cannot be removed as provider this way
-        delete isProvider[provider];
-        emit ProviderRemoved(provider);
+    function renounceRole(bytes32 role) external {
+        if (role == ADMIN_ROLE && msg.sender == owner) revert InvalidInput();
+        _revokeRole(role, msg.sender);
     }
 
-    function setPaused(bool _paused) external onlyOwner {
+    function _isRole(bytes32 role) internal pure returns (bool) {
+        return role == ADMIN_ROLE || role == FUND_MANAGER_ROLE || role == DATA_PROVIDER_ROLE
+            || role == COMPLIANCE_OFFICER_ROLE || role == AUDITOR_ROLE || role == PAUSER_ROLE;
+    }
+
+    function _checkRole(bytes32 role, address account) internal view {
+        if (!hasRole[role][account]) revert MissingRole(role, account);
+    }
+
+    function _checkFundManager(uint256 fundId) internal view {
+        if (fundId == 0 || fundId > fundCount) revert InvalidInput();
+        _checkRole(FUND_MANAGER_ROLE, msg.sender);
+        if (msg.sender != fundInfo[fundId].manager) revert NotOwner();
+    }
+
+    function _checkProvider(uint256 fundId) internal view {
+        if (!isProvider[fundId][msg.sender]) revert NotProvider();
+        _checkRole(DATA_PROVIDER_ROLE, msg.sender);
+    }
+
+    function _checkFundReader(uint256 fundId) internal view {
+        bool manager = msg.sender == fundInfo[fundId].manager && hasRole[FUND_MANAGER_ROLE][msg.sender];
+        bool provider = isProvider[fundId][msg.sender] && hasRole[DATA_PROVIDER_ROLE][msg.sender];
+        if (!manager && !provider) revert NotProvider();
+    }
+
+    function _checkNotPaused() internal view {
+        if (paused) revert Paused();
+    }
+
+    function _checkCooldown(uint256 lastCall) internal view {
+        if (block.timestamp < lastCall + cooldownSeconds) revert CooldownActive();
+    }
+
+    // Oracle requests only read a batch once closeBatch has written its snapshot and crystallized its fee
+    function _checkBatchClosed(uint256 fundId, uint256 _batchId) internal view {
+        if (fundId == 0 || fundId > fundCount) revert InvalidInput();
+        if (batches[fundId][_batchId].state < BatchState.Closed) revert BatchNotClosed();
+    }
+
+    // Both are no-ops without an event when nothing changes
+    function _grantRole(bytes32 role, address account) internal {
+        if (hasRole[role][account]) return;
+        hasRole[role][account] = true;
+        emit RoleGranted(role, account, msg.sender);
+    }
+
+    function _revokeRole(bytes32 role, address account) internal {
+        if (!hasRole[role][account]) return;
+        delete hasRole[role][account];
+        emit RoleRevoked(role, account, msg.sender);
+    }
+
+    // The caller becomes the fund's manager, and its first provider if it also holds DATA_PROVIDER_ROLE
+    function createFund(string calldata name) external onlyRole(FUND_MANAGER_ROLE) whenNotPaused returns (uint256 fundId) {
+        if (bytes(name).length == 0) revert InvalidInput();
+        fundId = ++fundCount;
+        FundInfo storage info = fundInfo[fundId];
+        info.name = name;
+        info.manager = msg.sender;
+        info.createdAt = uint64(block.timestamp);
+        lastFeeAccrualAt[fundId] = uint64(block.timestamp);
+        emit FundCreated(fundId, msg.sender, name);
+        if (hasRole[DATA_PROVIDER_ROLE][msg.sender]) {
+            isProvider[fundId][msg.sender] = true;
+            emit ProviderAdded(fundId, msg.sender);
+        }
+    }
+
+    function closeFund(uint256 fundId) external onlyFundManager(fundId) {
+        FundInfo storage info = fundInfo[fundId];
+        // An open batch has to be closed first, so its snapshot and performance fee are not skipped
+        if (info.closed || info.batchOpen) revert InvalidInput();
+        info.closed = true;
+        emit FundClosed(fundId);
+    }
+
+    function addProvider(uint256 fundId, address provider) external onlyFundManager(fundId) {
+        if (provider == address(0)) revert InvalidInput();
+        _checkRole(DATA_PROVIDER_ROLE, provider);
+        isProvider[fundId][provider] = true;
+        emit ProviderAdded(fundId, provider);
+    }
+
+    function setPaused(bool _paused) external onlyRole(PAUSER_ROLE) {
         paused = _paused;
         emit PauseToggled(_paused);
     }
 
-    function setCooldownSeconds(uint256 _cooldownSeconds) external onlyOwner {
-        uint256 oldCooldown = cooldownSeconds;
-        cooldownSeconds = _cooldownSeconds;
-        emit CooldownSecondsSet(oldCooldown, _cooldownSeconds);
+    // Timelocked admin actions
+
+    function queueCooldownChange(uint256 _cooldownSeconds) external onlyRole(ADMIN_ROLE) returns (uint256) {
+        return _queueAction(ActionKind.SetCooldown, 0, address(0), _cooldownSeconds);
     }
 
-    function openBatch() external onlyOwner whenNotPaused {
-        if (batchOpen) {
-            currentBatchId++;
+    function queueProviderRemoval(uint256 fundId, address provider) external onlyFundManager(fundId) returns (uint256) {
+        if (!isProvider[fundId][provider]) revert InvalidInput();
+        return _queueAction(ActionKind.RemoveProvider, fundId, provider, 0);
+    }
+
+    function executeAction(uint256 actionId) external {
+        QueuedAction storage action = queuedActions[actionId];
+        _checkActionAuthority(action);
+        if (block.timestamp < action.eta) revert TimelockNotReady(action.eta);
+        action.status = ActionStatus.Executed;
+
+        if (action.kind == ActionKind.SetCooldown) {
+            uint256 oldCooldown = cooldownSeconds;
+            cooldownSeconds = action.cooldownSeconds;
+            emit CooldownSecondsSet(oldCooldown, action.cooldownSeconds);
+        } else {
+            delete isProvider[action.fundId][action.provider];
+            emit ProviderRemoved(action.fundId, action.provider);
         }
-        batchOpen = true;
-        emit BatchOpened(currentBatchId);
+        emit ActionExecuted(actionId, msg.sender);
     }
 
-    function closeBatch() external onlyOwner whenNotPaused {
-        if (!batchOpen) revert BatchNotOpen();
-        batchOpen = false;
-        // Store encrypted value snapshot for this batch
-        // This is an example, the actual value might be computed differently
-        euint32 snapshotValue = funds[currentBatchId].totalAssets;
-        fundValuesAtBatchClose[currentBatchId] = snapshotValue;
-        emit BatchClosed(currentBatchId, FHE.toBytes32(snapshotValue));
+    function cancelAction(uint256 actionId) external {
+        QueuedAction storage action = queuedActions[actionId];
+        _checkActionAuthority(action);
+        action.status = ActionStatus.Cancelled;
+        emit ActionCancelled(actionId, msg.sender);
     }
 
-    function _initIfNeeded(euint32 storage item, uint32 plainValue) internal {
-        if (!item.isInitialized()) {
-            item = FHE.asEuint32(plainValue);
+    function _queueAction(ActionKind kind, uint256 fundId, address provider, uint256 _cooldownSeconds)
+        internal
+        returns (uint256 actionId)
+    {
+        actionId = ++actionCount;
+        uint64 eta = uint64(block.timestamp) + TIMELOCK_DELAY;
+        queuedActions[actionId] = QueuedAction({
+            kind: kind,
+            status: ActionStatus.Queued,
+            eta: eta,
+            fundId: fundId,
+            provider: provider,
+            cooldownSeconds: _cooldownSeconds
+        });
+        emit ActionQueued(actionId, kind, fundId, provider, _cooldownSeconds, eta, msg.sender);
+    }
+
+    // The action must still be queued, and the caller must be allowed to queue it
+    function _checkActionAuthority(QueuedAction storage action) internal view {
+        if (action.status != ActionStatus.Queued) revert InvalidInput();
+        if (action.kind == ActionKind.SetCooldown) {
+            _checkRole(ADMIN_ROLE, msg.sender);
+        } else {
+            _checkRole(FUND_MANAGER_ROLE, msg.sender);
+            if (msg.sender != fundInfo[action.fundId].manager) revert NotOwner();
+        }
+    }
+
+    // Windows may not overlap: a batch opens no earlier than the previous batch's deadline
+    function scheduleBatch(uint256 fundId, uint64 opensAt, uint64 submissionDeadline, address[] calldata providers)
+        external
+        onlyFundManager(fundId)
+        whenNotPaused
+        returns (uint256 batchId)
+    {
+        FundInfo storage info = fundInfo[fundId];
+        if (info.closed || providers.length == 0) revert InvalidInput();
+        if (submissionDeadline <= opensAt || submissionDeadline <= block.timestamp) revert InvalidInput();
+        batchId = info.batchCount++;
+        if (batchId > 0 && opensAt < batches[fundId][batchId - 1].submissionDeadline) revert InvalidInput();
+
+        Batch storage batch = batches[fundId][batchId];
+        batch.state = BatchState.Scheduled;
+        batch.opensAt = opensAt;
+        batch.submissionDeadline = submissionDeadline;
+        for (uint256 i = 0; i < providers.length; i++) {
+            if (!isProvider[fundId][providers[i]]) revert NotProvider();
+            if (batchProviders[fundId][batchId][providers[i]] == BatchProviderStatus.None) {
+                batchProviders[fundId][batchId][providers[i]] = BatchProviderStatus.Assigned;
+                batch.providerCount++;
+            }
         }
+        emit BatchScheduled(fundId, batchId, opensAt, submissionDeadline, providers);
     }
 
+    // Opens the first scheduled batch, or the one after the finalized current batch. A batch opened
+    // after its deadline takes no submissions and can be closed right away.
+    function openBatch(uint256 fundId) external onlyFundManager(fundId) whenNotPaused {
+        FundInfo storage info = fundInfo[fundId];
+        if (info.closed) revert InvalidInput();
+        uint256 batchId = info.currentBatchId;
+        if (batches[fundId][batchId].state == BatchState.Finalized) batchId++;
+        Batch storage batch = batches[fundId][batchId];
+        if (batch.state != BatchState.Scheduled) revert InvalidBatchState(batchId, batch.state);
+        if (block.timestamp < batch.opensAt) revert OutsideBatchWindow(batch.opensAt, batch.submissionDeadline);
+
+        if (batchId > 0) {
+            // The next batch starts from the HWM reached so far
+            euint64 highWaterMark = funds[fundId][batchId - 1].highWaterMark;
+            if (highWaterMark.isInitialized()) funds[fundId][batchId].highWaterMark = highWaterMark;
+        }
+        batch.state = BatchState.Open;
+        info.currentBatchId = batchId;
+        info.batchOpen = true;
+        emit BatchOpened(fundId, batchId);
+    }
+
+    function closeBatch(uint256 fundId) external onlyFundManager(fundId) whenNotPaused {
+        FundInfo storage info = fundInfo[fundId];
+        uint256 batchId = info.currentBatchId;
+        Batch storage batch = batches[fundId][batchId];
+        if (batch.state != BatchState.Open) revert BatchNotOpen();
+        if (block.timestamp < batch.submissionDeadline && batch.submissionCount < batch.providerCount) {
+            revert OutsideBatchWindow(batch.opensAt, batch.submissionDeadline);
+        }
+        batch.state = BatchState.Closed;
+        batch.closedAt = uint64(block.timestamp);
+        info.batchOpen = false;
+        // The batch's value is its totalAssets once submissions have stopped
+        euint64 snapshotValue = funds[fundId][batchId].totalAssets;
+        fundValuesAtBatchClose[fundId][batchId] = snapshotValue;
+        if (snapshotValue.isInitialized()) _crystallizePerformanceFee(fundId, batchId);
+        emit BatchClosed(fundId, batchId, FHE.toBytes32(snapshotValue));
+    }
+
+    // Signs off the closed current batch once its figures are reviewed (decryption, compliance check)
+    function finalizeBatch(uint256 fundId) external onlyFundManager(fundId) whenNotPaused {
+        uint256 batchId = fundInfo[fundId].currentBatchId;
+        Batch storage batch = batches[fundId][batchId];
+        if (batch.state != BatchState.Closed) revert InvalidBatchState(batchId, batch.state);
+        batch.state = BatchState.Finalized;
+        emit BatchFinalized(fundId, batchId);
+    }
+
+    // Charges performanceFeeRate on the gain of totalAssets above the HWM and advances the HWM to
+    // totalAssets. The first close only sets the HWM. Neither fee is deducted from totalAssets;
+    // src/feeSchedule.ts reproduces the computation in plaintext.
+    function _crystallizePerformanceFee(uint256 fundId, uint256 batchId) internal {
+        Fund storage fund = funds[fundId][batchId];
+        euint64 totalAssets = fund.totalAssets;
+        euint64 fee = FHE.asEuint64(0);
+        if (highWaterMarkSet[fundId]) {
+            euint64 highWaterMark = fund.highWaterMark;
+            euint64 gain = totalAssets.sub(totalAssets.min(highWaterMark));
+            fee = _scaleByBps(gain, _orZero(fund.performanceFeeRate).min(BPS_DENOMINATOR));
+            fund.highWaterMark = totalAssets.max(highWaterMark);
+        } else {
+            fund.highWaterMark = totalAssets;
+            highWaterMarkSet[fundId] = true;
+        }
+        (euint64 accrued, ) = _boundedAdd(_orZero(accruedPerformanceFees[fundId]), fee);
+        accruedPerformanceFees[fundId] = accrued;
+
+        address manager = fundInfo[fundId].manager;
+        FHE.allowThis(fund.highWaterMark);
+        FHE.allow(fund.highWaterMark, manager);
+        FHE.allowThis(accrued);
+        FHE.allow(accrued, manager);
+        FHE.allowThis(fee);
+        FHE.allow(fee, manager);
+
+        emit PerformanceFeeCrystallized(fundId, batchId, totalAssets, fund.highWaterMark, fee, accrued);
+    }
+
+    function _orZero(euint64 item) internal returns (euint64) {
+        return item.isInitialized() ? item : FHE.asEuint64(0);
+    }
+
+    // a + b, saturated at MAX_FUND_VALUE; overflowed is set when the cap applied, wrapped sums included
+    function _boundedAdd(euint64 a, euint64 b) internal returns (euint64 sum, ebool overflowed) {
+        sum = a.add(b);
+        overflowed = sum.lt(a).or(sum.gt(MAX_FUND_VALUE));
+        sum = FHE.select(overflowed, FHE.asEuint64(MAX_FUND_VALUE), sum);
+    }
+
+    // inputProof covers all three handles, which must come from a single encrypted-input builder call
     function submitFundState(
-        euint32 _totalAssets,
-        euint32 _managerFeeRate,
-        euint32 _performanceFeeRate
-    ) external onlyProvider whenNotPaused checkSubmissionCooldown {
-        if (!_totalAssets.isInitialized() || !_managerFeeRate.isInitialized() || !_performanceFeeRate.isInitialized()) {
-            revert InvalidInput();
+        uint256 fundId,
+        externalEuint64 encryptedTotalAssets,
+        externalEuint64 encryptedManagerFeeRate,
+        externalEuint64 encryptedPerformanceFeeRate,
+        bytes calldata inputProof
+    ) external onlyProvider(fundId) whenNotPaused checkSubmissionCooldown {
+        FundInfo storage info = fundInfo[fundId];
+        uint256 batchId = info.currentBatchId;
+        Batch storage batch = batches[fundId][batchId];
+        if (batch.state != BatchState.Open) revert BatchNotOpen();
+        if (block.timestamp >= batch.submissionDeadline) revert OutsideBatchWindow(batch.opensAt, batch.submissionDeadline);
+        // Only providers assigned to the batch submit; resubmissions still add to totalAssets
+        BatchProviderStatus status = batchProviders[fundId][batchId][msg.sender];
+        if (status == BatchProviderStatus.None) revert NotProvider();
+        if (status == BatchProviderStatus.Assigned) {
+            batchProviders[fundId][batchId][msg.sender] = BatchProviderStatus.Submitted;
+            batch.submissionCount++;
         }
-        if (!batchOpen) revert BatchNotOpen();
 
-        Fund storage fund = funds[currentBatchId];
-        _initIfNeeded(fund.totalAssets, 0);
-        _initIfNeeded(fund.managerFeeRate, 0);
-        _initIfNeeded(fund.performanceFeeRate, 0);
-        _initIfNeeded(fund.highWaterMark, 0);
+        // Inputs are bound to this contract and msg.sender by the input proof
+        euint64 _totalAssets = FHE.fromExternal(encryptedTotalAssets, inputProof);
+        euint64 _managerFeeRate = FHE.fromExternal(encryptedManagerFeeRate, inputProof);
+        euint64 _performanceFeeRate = FHE.fromExternal(encryptedPerformanceFeeRate, inputProof);
 
-        fund.totalAssets = fund.totalAssets.add(_totalAssets);
+        Fund storage fund = funds[fundId][batchId];
+
+        // An aggregate past MAX_FUND_VALUE flags the batch instead of wrapping
+        (euint64 total, ebool overflowed) = _boundedAdd(_orZero(fund.totalAssets), _totalAssets);
+        ebool flag = batchOverflowed[fundId][batchId];
+        flag = flag.isInitialized() ? flag.or(overflowed) : overflowed;
+        batchOverflowed[fundId][batchId] = flag;
+        fund.totalAssets = total;
         fund.managerFeeRate = _managerFeeRate; // Assuming fee rates are set, not aggregated
         fund.performanceFeeRate = _performanceFeeRate; // Assuming fee rates are set, not aggregated
+        // The HWM only advances when closeBatch crystallizes the performance fee
+        fund.highWaterMark = _orZero(fund.highWaterMark);
 
-        // Example: Update high water mark if current total assets exceed it
-        ebool isHigher = _totalAssets.ge(fund.highWaterMark);
-        fund.highWaterMark = fund.highWaterMark.select(_totalAssets, fund.highWaterMark, isHigher);
+        // The contract keeps access to the stored values; the manager and the submitting provider may decrypt them
+        _allowFundState(fund, flag, address(this));
+        _allowFundState(fund, flag, info.manager);
+        _allowFundState(fund, flag, msg.sender);
 
-        emit FundStateSubmitted(currentBatchId, msg.sender, _totalAssets, _managerFeeRate, _performanceFeeRate);
+        emit FundStateSubmitted(fundId, batchId, msg.sender, _totalAssets, _managerFeeRate, _performanceFeeRate);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
-        return keccak256(abi.encode(cts, address(this)));
+    // Charges totalAssets * managerFeeRate (annual, bps) for the time since the last accrual, using the
+    // current batch's values for the whole period. Rounds down twice, first to the annual fee and then
+    // to the elapsed share; src/feeSchedule.ts is the plaintext reference.
+    function accrueManagementFee(uint256 fundId) external onlyFundManager(fundId) whenNotPaused returns (euint64) {
+        FundInfo storage info = fundInfo[fundId];
+        if (info.closed) revert InvalidInput();
+        uint64 from = lastFeeAccrualAt[fundId];
+        uint64 elapsed = uint64(block.timestamp) - from;
+        if (elapsed == 0) revert InvalidInput();
+
+        Fund storage fund = funds[fundId][info.currentBatchId];
+        euint64 annualFee = _scaleByBps(_orZero(fund.totalAssets), _orZero(fund.managerFeeRate).min(BPS_DENOMINATOR));
+        // annualFee * elapsed could wrap 64 bits. With annualFee = q * year + r, the same floor is
+        // q * elapsed + r * elapsed / year, and r < year keeps both products small.
+        euint64 fee = annualFee.div(SECONDS_PER_YEAR).mul(elapsed).add(
+            annualFee.rem(SECONDS_PER_YEAR).mul(elapsed).div(SECONDS_PER_YEAR)
+        );
+        (euint64 accrued, ) = _boundedAdd(_orZero(accruedManagementFees[fundId]), fee);
+
+        accruedManagementFees[fundId] = accrued;
+        lastFeeAccrualAt[fundId] = uint64(block.timestamp);
+        FHE.allowThis(accrued);
+        FHE.allow(accrued, info.manager);
+        // User decryption of the emitted fee needs the contract allowed on it too
+        FHE.allowThis(fee);
+        FHE.allow(fee, info.manager);
+
+        emit ManagementFeeAccrued(fundId, info.currentBatchId, from, uint64(block.timestamp), fee, accrued);
+        return accrued;
     }
 
-    function requestFundDecryption(uint256 _batchId) external onlyProvider whenNotPaused checkDecryptionCooldown {
-        Fund storage fund = funds[_batchId];
-        if (!_batchId.isInitialized() || !fund.totalAssets.isInitialized()) revert InvalidInput(); // Basic check
+    function _allowFundState(Fund storage fund, ebool overflowed, address account) internal {
+        FHE.allow(fund.totalAssets, account);
+        FHE.allow(fund.managerFeeRate, account);
+        FHE.allow(fund.performanceFeeRate, account);
+        FHE.allow(fund.highWaterMark, account);
+        FHE.allow(overflowed, account);
+    }
 
-        // 1. Prepare Ciphertexts
-        bytes32[] memory cts = new bytes32[](5);
+    // Prices the fund's shares from the current batch's totalAssets and the encrypted totalShares.
+    // Subscriptions and redemptions use the latest price until the next update.
+    function updateSharePrice(uint256 fundId) external onlyFundManager(fundId) whenNotPaused {
+        FundInfo storage info = fundInfo[fundId];
+        euint64 assets = _orZero(funds[fundId][info.currentBatchId].totalAssets);
+        euint64 shares = _orZero(totalShares[fundId]);
+
+        SharePrice storage price = sharePrices[fundId];
+        price.navPerShare = _divideToSharePrice(assets.mul(SHARE_PRICE_SCALE), shares);
+        price.sharesPerAsset = _divideToSharePrice(shares.mul(SHARE_PRICE_SCALE), assets);
+        price.updatedAt = uint64(block.timestamp);
+
+        FHE.allowThis(price.navPerShare);
+        FHE.allowThis(price.sharesPerAsset);
+        FHE.allow(price.navPerShare, info.manager);
+        FHE.allow(price.sharesPerAsset, info.manager);
+        emit SharePriceUpdated(fundId, info.currentBatchId, price.navPerShare, price.sharesPerAsset);
+    }
+
+    // Restoring long division, since FHE.div only takes a plaintext divisor. The quotient saturates
+    // at 2^SHARE_PRICE_BITS - 1, and a zero denominator (no shares or no assets yet) gives 1.0000.
+    function _divideToSharePrice(euint64 numerator, euint64 denominator) internal returns (euint32) {
+        euint64 remainder = numerator;
+        euint64 quotient = FHE.asEuint64(0);
+        for (uint8 bit = SHARE_PRICE_BITS; bit > 0; bit--) {
+            euint64 candidate = denominator.shl(bit - 1);
+            ebool fits = remainder.ge(candidate);
+            remainder = FHE.select(fits, remainder.sub(candidate), remainder);
+            quotient = quotient.or(FHE.asEuint64(fits).shl(bit - 1));
+        }
+        ebool overflow = numerator.ge(denominator.shl(SHARE_PRICE_BITS));
+        quotient = FHE.select(overflow, FHE.asEuint64((uint64(1) << SHARE_PRICE_BITS) - 1), quotient);
+        quotient = FHE.select(denominator.eq(0), FHE.asEuint64(SHARE_PRICE_SCALE), quotient);
+        return FHE.asEuint32(quotient);
+    }
+
+    // Before the first price update, shares are issued and redeemed at 1.0000
+    function _priceOrInitial(euint32 price) internal returns (euint64) {
+        return price.isInitialized() ? FHE.asEuint64(price) : FHE.asEuint64(SHARE_PRICE_SCALE);
+    }
+
+    // Amount in USD cents, counted up to MAX_FUND_VALUE; the investor receives amount * sharesPerAsset
+    // shares. The cash itself is reported through submitFundState like any other change in totalAssets.
+    function subscribe(uint256 fundId, externalEuint64 amount, bytes calldata inputProof)
+        external
+        whenNotPaused
+        returns (euint64)
+    {
+        if (fundId == 0 || fundId > fundCount || fundInfo[fundId].closed) revert InvalidInput();
+        euint64 _amount = FHE.fromExternal(amount, inputProof);
+        SharePrice storage price = sharePrices[fundId];
+
+        euint64 shares = _amount.min(MAX_FUND_VALUE).mul(_priceOrInitial(price.sharesPerAsset)).div(SHARE_PRICE_SCALE);
+        (euint64 balance, ) = _boundedAdd(_orZero(shareBalances[fundId][msg.sender]), shares);
+        (euint64 total, ) = _boundedAdd(_orZero(totalShares[fundId]), shares);
+        _setShares(fundId, balance, total);
+        isInvestor[fundId][msg.sender] = true;
+
+        FHE.allowThis(_amount);
+        FHE.allowThis(shares);
+        FHE.allow(_amount, msg.sender);
+        FHE.allow(shares, msg.sender);
+        _allowSharePrice(fundId, msg.sender);
+        emit Subscribed(fundId, msg.sender, _amount, shares);
+        return shares;
+    }
+
+    // Amount in USD cents; burns the matching shares, capped at the investor's balance, and returns
+    // their value at navPerShare as an encrypted payout.
+    function redeem(uint256 fundId, externalEuint64 amount, bytes calldata inputProof)
+        external
+        whenNotPaused
+        returns (euint64)
+    {
+        if (!isInvestor[fundId][msg.sender]) revert InvalidInput();
+        euint64 _amount = FHE.fromExternal(amount, inputProof);
+        SharePrice storage price = sharePrices[fundId];
+
+        euint64 balance = shareBalances[fundId][msg.sender];
+        euint64 requested = _amount.min(MAX_FUND_VALUE).mul(_priceOrInitial(price.sharesPerAsset)).div(SHARE_PRICE_SCALE);
+        euint64 shares = requested.min(balance);
+        euint64 payout = shares.mul(_priceOrInitial(price.navPerShare)).div(SHARE_PRICE_SCALE);
+        _setShares(fundId, balance.sub(shares), totalShares[fundId].sub(shares));
+
+        FHE.allowThis(shares);
+        FHE.allowThis(payout);
+        FHE.allow(shares, msg.sender);
+        FHE.allow(payout, msg.sender);
+        _allowSharePrice(fundId, msg.sender);
+        emit Redeemed(fundId, msg.sender, shares, payout);
+        return payout;
+    }
+
+    // Lets an investor value their balance at the latest share price
+    function allowSharePrice(uint256 fundId) external {
+        if (!isInvestor[fundId][msg.sender]) revert InvalidInput();
+        _allowSharePrice(fundId, msg.sender);
+    }
+
+    // Balances are readable only by their investor; the manager sees totalShares
+    function _setShares(uint256 fundId, euint64 balance, euint64 total) internal {
+        shareBalances[fundId][msg.sender] = balance;
+        totalShares[fundId] = total;
+        FHE.allowThis(balance);
+        FHE.allow(balance, msg.sender);
+        FHE.allowThis(total);
+        FHE.allow(total, fundInfo[fundId].manager);
+    }
+
+    function _allowSharePrice(uint256 fundId, address investor) internal {
+        SharePrice storage price = sharePrices[fundId];
+        if (price.navPerShare.isInitialized()) {
+            FHE.allow(price.navPerShare, investor);
+            FHE.allow(price.sharesPerAsset, investor);
+        }
+    }
+
+    // What-if scenarios on a batch's totalAssets. Nothing is decrypted and the fund state is left
+    // untouched: each result is a new handle that only the caller (and this contract) may decrypt.
+
+    // Applies a percentage move of shockBps, e.g. 2000 = 20%. Losses are capped at 100%, gains at MAX_FACTOR_BPS.
+    function scenarioShock(uint256 fundId, uint256 _batchId, externalEuint64 shockBps, bool isLoss, bytes calldata inputProof)
+        external
+        onlyFundReader(fundId)
+        whenNotPaused
+        returns (euint64)
+    {
+        euint64 shock = FHE.fromExternal(shockBps, inputProof);
+        euint64 factor = isLoss
+            ? FHE.asEuint64(BPS_DENOMINATOR).sub(shock.min(BPS_DENOMINATOR))
+            : shock.min(MAX_FACTOR_BPS - BPS_DENOMINATOR).add(BPS_DENOMINATOR);
+        return _storeScenario(fundId, _batchId, ScenarioKind.Shock, _scaleByBps(_scenarioBase(fundId, _batchId), factor));
+    }
+
+    // Multiplies totalAssets by factorBps / 10000, e.g. 11000 = x1.1, up to MAX_FACTOR_BPS
+    function scenarioScale(uint256 fundId, uint256 _batchId, externalEuint64 factorBps, bytes calldata inputProof)
+        external
+        onlyFundReader(fundId)
+        whenNotPaused
+        returns (euint64)
+    {
+        euint64 factor = FHE.fromExternal(factorBps, inputProof).min(MAX_FACTOR_BPS);
+        return _storeScenario(fundId, _batchId, ScenarioKind.Scale, _scaleByBps(_scenarioBase(fundId, _batchId), factor));
+    }
+
+    // Adds a subscription or removes a redemption of amount (USD cents). Outflows floor at zero,
+    // inflows saturate at MAX_FUND_VALUE.
+    function scenarioFlow(uint256 fundId, uint256 _batchId, externalEuint64 amount, bool isOutflow, bytes calldata inputProof)
+        external
+        onlyFundReader(fundId)
+        whenNotPaused
+        returns (euint64)
+    {
+        euint64 flow = FHE.fromExternal(amount, inputProof);
+        euint64 base = _scenarioBase(fundId, _batchId);
+        euint64 result;
+        if (isOutflow) {
+            result = base.sub(flow.min(base));
+        } else {
+            (result, ) = _boundedAdd(base, flow);
+        }
+        return _storeScenario(fundId, _batchId, ScenarioKind.Flow, result);
+    }
+
+    function _scenarioBase(uint256 fundId, uint256 _batchId) internal view returns (euint64) {
+        euint64 totalAssets = funds[fundId][_batchId].totalAssets;
+        if (!totalAssets.isInitialized()) revert InvalidInput();
+        return totalAssets;
+    }
+
+    // Cannot wrap: value is at most MAX_FUND_VALUE and callers keep factorBps at most MAX_FACTOR_BPS
+    function _scaleByBps(euint64 value, euint64 factorBps) internal returns (euint64) {
+        return value.mul(factorBps).div(BPS_DENOMINATOR);
+    }
+
+    function _storeScenario(uint256 fundId, uint256 _batchId, ScenarioKind kind, euint64 result) internal returns (euint64) {
+        scenarioResults[msg.sender][fundId][_batchId] = result;
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
+        emit ScenarioComputed(fundId, _batchId, msg.sender, kind, result);
+        return result;
+    }
+
+    // The ACL has no revocation: a grant covers the handles that exist when it is issued. Once
+    // submitFundState replaces them, reissueAuditorAccess extends the grant to the new handles.
+    function grantAuditorAccess(uint256 fundId, uint256 _batchId, address auditor, uint8 fields)
+        external
+        onlyFundManager(fundId)
+        whenNotPaused
+    {
+        if (auditor == address(0) || fields == 0 || fields & ~AUDIT_ALL_FIELDS != 0) revert InvalidInput();
+        auditorGrants[fundId][_batchId][auditor] = fields;
+        _allowAuditor(fundId, _batchId, auditor, fields);
+    }
+
+    function reissueAuditorAccess(uint256 fundId, uint256 _batchId, address auditor) external onlyFundManager(fundId) whenNotPaused {
+        uint8 fields = auditorGrants[fundId][_batchId][auditor];
+        if (fields == 0) revert InvalidInput();
+        _allowAuditor(fundId, _batchId, auditor, fields);
+    }
+
+    // Stops future reissues. Handles already granted stay decryptable by the auditor.
+    function revokeAuditorAccess(uint256 fundId, uint256 _batchId, address auditor) external onlyFundManager(fundId) {
+        if (auditorGrants[fundId][_batchId][auditor] == 0) revert InvalidInput();
+        delete auditorGrants[fundId][_batchId][auditor];
+        emit AuditorAccessRevoked(fundId, _batchId, auditor);
+    }
+
+    // Grants and reissues only reach accounts that currently hold AUDITOR_ROLE
+    function _allowAuditor(uint256 fundId, uint256 _batchId, address auditor, uint8 fields) internal {
+        _checkRole(AUDITOR_ROLE, auditor);
+        bytes32[] memory cts = _batchCiphertexts(fundId, _batchId);
+        bytes32[] memory granted = new bytes32[](cts.length);
+        for (uint256 i = 0; i < cts.length; i++) {
+            // Unwritten fields have no handle to allow yet; they are picked up by a later reissue
+            if (fields & (1 << i) == 0 || cts[i] == bytes32(0)) continue;
+            FHE.allow(euint64.wrap(cts[i]), auditor);
+            granted[i] = cts[i];
+        }
+        emit AuditorAccessGranted(fundId, _batchId, auditor, fields, granted);
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
+    }
+
+    // Order matches the cleartexts decoded in myCallback
+    function _batchCiphertexts(uint256 fundId, uint256 _batchId) internal view returns (bytes32[] memory cts) {
+        Fund storage fund = funds[fundId][_batchId];
+        cts = new bytes32[](6);
         cts[0] = FHE.toBytes32(fund.totalAssets);
         cts[1] = FHE.toBytes32(fund.managerFeeRate);
         cts[2] = FHE.toBytes32(fund.performanceFeeRate);
         cts[3] = FHE.toBytes32(fund.highWaterMark);
-        cts[4] = FHE.toBytes32(fundValuesAtBatchClose[_batchId]);
+        cts[4] = FHE.toBytes32(fundValuesAtBatchClose[fundId][_batchId]);
+        cts[5] = FHE.toBytes32(batchOverflowed[fundId][_batchId]);
+    }
+
+    // A pending request whose stateHash differs from this value will revert with StateMismatch in myCallback
+    function batchStateHash(uint256 fundId, uint256 _batchId) public view returns (bytes32) {
+        return _hashCiphertexts(_batchCiphertexts(fundId, _batchId));
+    }
+
+    function requestFundDecryption(uint256 fundId, uint256 _batchId)
+        external
+        onlyProvider(fundId)
+        whenNotPaused
+        checkDecryptionCooldown
+    {
+        // The close snapshot is only written by closeBatch, and a zero handle cannot be decrypted
+        _checkBatchClosed(fundId, _batchId);
+        Fund storage fund = funds[fundId][_batchId];
+        if (!fund.totalAssets.isInitialized()) revert InvalidInput(); // Basic check
+
+        // 1. Prepare Ciphertexts
+        bytes32[] memory cts = _batchCiphertexts(fundId, _batchId);
 
         // 2. Compute State Hash
         bytes32 stateHash = _hashCiphertexts(cts);
@@ -196,8 +912,13 @@ contract AssetMgmtFhe is SepoliaConfig {
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
 
         // 4. Store Context
-        decryptionContexts[requestId] = DecryptionContext({ batchId: _batchId, stateHash: stateHash, processed: false });
-        emit DecryptionRequested(requestId, _batchId, stateHash);
+        decryptionContexts[requestId] = DecryptionContext({
+            fundId: fundId,
+            batchId: _batchId,
+            stateHash: stateHash,
+            processed: false
+        });
+        emit DecryptionRequested(requestId, fundId, _batchId, stateHash);
     }
 
     // 5. Implement Callback
@@ -208,15 +929,7 @@ contract AssetMgmtFhe is SepoliaConfig {
         if (ctx.processed) revert ReplayDetected();
 
         // b. State Verification
-        Fund storage fund = funds[ctx.batchId];
-        bytes32[] memory currentCts = new bytes32[](5);
-        currentCts[0] = FHE.toBytes32(fund.totalAssets);
-        currentCts[1] = FHE.toBytes32(fund.managerFeeRate);
-        currentCts[2] = FHE.toBytes32(fund.performanceFeeRate);
-        currentCts[3] = FHE.toBytes32(fund.highWaterMark);
-        currentCts[4] = FHE.toBytes32(fundValuesAtBatchClose[ctx.batchId]);
-
-        bytes32 currentHash = _hashCiphertexts(currentCts);
+        bytes32 currentHash = batchStateHash(ctx.fundId, ctx.batchId);
         if (currentHash != ctx.stateHash) {
             revert StateMismatch();
         }
@@ -226,17 +939,19 @@ contract AssetMgmtFhe is SepoliaConfig {
         // but before decryption, leading to inconsistent or maliciously manipulated results.
 
         // c. Proof Verification
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) {
-            revert DecryptionFailed();
-        }
+        // Reverts with FHE.InvalidKMSSignatures if the KMS signatures do not match
+        FHE.checkSignatures(requestId, cleartexts, proof);
 
         // d. Decode & Finalize
-        // Cleartexts are expected in the same order as cts: totalAssets, managerFeeRate, performanceFeeRate, highWaterMark, valueAtBatchClose
-        uint256 totalAssets = abi.decode(cleartexts[0:32], (uint32));
-        uint256 managerFeeRate = abi.decode(cleartexts[32:64], (uint32));
-        uint256 performanceFeeRate = abi.decode(cleartexts[64:96], (uint32));
-        uint256 highWaterMark = abi.decode(cleartexts[96:128], (uint32));
-        uint256 valueAtBatchClose = abi.decode(cleartexts[128:160], (uint32));
+        // Cleartexts are expected in the same order as cts: totalAssets, managerFeeRate, performanceFeeRate, highWaterMark, valueAtBatchClose, overflowed
+        (
+            uint64 totalAssets,
+            uint64 managerFeeRate,
+            uint64 performanceFeeRate,
+            uint64 highWaterMark,
+            uint64 valueAtBatchClose,
+            bool overflowed
+        ) = abi.decode(cleartexts, (uint64, uint64, uint64, uint64, uint64, bool));
 
         ctx.processed = true;
         // Security: Replay protection (ctx.processed) ensures that a successful decryption callback
@@ -244,6 +959,124 @@ contract AssetMgmtFhe is SepoliaConfig {
         // replay the transaction or if the FHEVM network had an issue causing a re-broadcast.
         // This is crucial for state consistency and preventing double-spending or double-processing of results.
 
-        emit DecryptionCompleted(requestId, ctx.batchId, totalAssets, managerFeeRate, performanceFeeRate, highWaterMark, valueAtBatchClose);
+        emit DecryptionCompleted(
+            requestId,
+            ctx.fundId,
+            ctx.batchId,
+            totalAssets,
+            managerFeeRate,
+            performanceFeeRate,
+            highWaterMark,
+            valueAtBatchClose,
+            overflowed
+        );
+    }
+
+    // Compliance. Rules are evaluated on the encrypted batch values and only the resulting ebools are
+    // decrypted, by the oracle, so neither the figures nor the thresholds are revealed.
+
+    // inputProof covers all four thresholds, which must come from a single encrypted-input builder call
+    function setComplianceRules(
+        uint256 fundId,
+        externalEuint64 minTotalAssets,
+        externalEuint64 maxManagerFeeRate,
+        externalEuint64 maxPerformanceFeeRate,
+        externalEuint64 maxDrawdown,
+        bytes calldata inputProof
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        if (fundId == 0 || fundId > fundCount) revert InvalidInput();
+        ComplianceRules storage rules = complianceRules[fundId];
+        rules.minTotalAssets = FHE.fromExternal(minTotalAssets, inputProof);
+        rules.maxManagerFeeRate = FHE.fromExternal(maxManagerFeeRate, inputProof);
+        rules.maxPerformanceFeeRate = FHE.fromExternal(maxPerformanceFeeRate, inputProof);
+        rules.maxDrawdown = FHE.fromExternal(maxDrawdown, inputProof);
+
+        FHE.allowThis(rules.minTotalAssets);
+        FHE.allowThis(rules.maxManagerFeeRate);
+        FHE.allowThis(rules.maxPerformanceFeeRate);
+        FHE.allowThis(rules.maxDrawdown);
+        FHE.allow(rules.minTotalAssets, msg.sender);
+        FHE.allow(rules.maxManagerFeeRate, msg.sender);
+        FHE.allow(rules.maxPerformanceFeeRate, msg.sender);
+        FHE.allow(rules.maxDrawdown, msg.sender);
+
+        emit ComplianceRulesSet(fundId);
+    }
+
+    // A pending check whose stateHash differs from this value will revert with StateMismatch in
+    // complianceCallback, whether the batch or the rules changed
+    function complianceStateHash(uint256 fundId, uint256 _batchId) public view returns (bytes32) {
+        ComplianceRules storage rules = complianceRules[fundId];
+        return keccak256(abi.encode(
+            batchStateHash(fundId, _batchId),
+            FHE.toBytes32(rules.minTotalAssets),
+            FHE.toBytes32(rules.maxManagerFeeRate),
+            FHE.toBytes32(rules.maxPerformanceFeeRate),
+            FHE.toBytes32(rules.maxDrawdown)
+        ));
+    }
+
+    // Drawdown is (highWaterMark - totalAssets) / highWaterMark, compared as
+    // drawdown * 10000 <= maxDrawdown * highWaterMark, with maxDrawdown capped at 10000 so neither side
+    // can wrap. A zero HWM (no batch close yet) passes.
+    function requestComplianceCheck(uint256 fundId, uint256 _batchId)
+        external
+        onlyRole(COMPLIANCE_OFFICER_ROLE)
+        whenNotPaused
+        checkDecryptionCooldown
+        returns (uint256 requestId)
+    {
+        _checkBatchClosed(fundId, _batchId);
+        Fund storage fund = funds[fundId][_batchId];
+        ComplianceRules storage rules = complianceRules[fundId];
+        if (!fund.totalAssets.isInitialized() || !rules.minTotalAssets.isInitialized()) revert InvalidInput();
+
+        euint64 drawdown = fund.highWaterMark.max(fund.totalAssets).sub(fund.totalAssets);
+        ebool[] memory checks = new ebool[](4);
+        checks[0] = fund.totalAssets.ge(rules.minTotalAssets);
+        checks[1] = fund.managerFeeRate.le(rules.maxManagerFeeRate);
+        checks[2] = fund.performanceFeeRate.le(rules.maxPerformanceFeeRate);
+        checks[3] = drawdown.mul(BPS_DENOMINATOR).le(rules.maxDrawdown.min(BPS_DENOMINATOR).mul(fund.highWaterMark));
+
+        // Order matches the cleartexts decoded in complianceCallback
+        bytes32[] memory cts = new bytes32[](4);
+        for (uint256 i = 0; i < 4; i++) {
+            FHE.allowThis(checks[i]);
+            cts[i] = FHE.toBytes32(checks[i]);
+        }
+        requestId = FHE.requestDecryption(cts, this.complianceCallback.selector);
+
+        bytes32 stateHash = complianceStateHash(fundId, _batchId);
+        complianceContexts[requestId] = DecryptionContext({
+            fundId: fundId,
+            batchId: _batchId,
+            stateHash: stateHash,
+            processed: false
+        });
+        emit ComplianceCheckRequested(requestId, fundId, _batchId, stateHash);
+    }
+
+    function complianceCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionContext storage ctx = complianceContexts[requestId];
+        if (ctx.processed) revert ReplayDetected();
+        if (complianceStateHash(ctx.fundId, ctx.batchId) != ctx.stateHash) revert StateMismatch();
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        (bool minTotalAssets, bool maxManagerFeeRate, bool maxPerformanceFeeRate, bool maxDrawdown) =
+            abi.decode(cleartexts, (bool, bool, bool, bool));
+        uint8 failedRules;
+        if (!minTotalAssets) failedRules |= RULE_MIN_TOTAL_ASSETS;
+        if (!maxManagerFeeRate) failedRules |= RULE_MAX_MANAGER_FEE_RATE;
+        if (!maxPerformanceFeeRate) failedRules |= RULE_MAX_PERFORMANCE_FEE_RATE;
+        if (!maxDrawdown) failedRules |= RULE_MAX_DRAWDOWN;
+
+        ctx.processed = true;
+        complianceResults[ctx.fundId][ctx.batchId] = ComplianceResult({
+            requestId: requestId,
+            compliant: failedRules == 0,
+            failedRules: failedRules,
+            verifiedAt: uint64(block.timestamp)
+        });
+        emit ComplianceVerified(requestId, ctx.fundId, ctx.batchId, failedRules == 0, failedRules);
     }
 }
\ No newline at end of file
@@ -0,0 +1,59 @@
+// deploy/accounts.ts
+// The deployer account of remote networks, from hardhat `vars` (or the matching
+// HARDHAT_VAR_* environment variables) so no raw key is kept in the repository:
+//   - DEPLOYER_KEYSTORE, the path of an encrypted JSON keystore, and
+//     DEPLOYER_KEYSTORE_PASSWORD, or else
+//   - MNEMONIC, with DEPLOYER_ACCOUNT_INDEX picking the derived account (default 0).
+// hardhat.config.ts passes the result as the `accounts` of these networks, and
+// the deploy task signs with the first of them.
+import fs from "fs";
+import path from "path";
+import { vars } from "hardhat/config";
+import type { HttpNetworkAccountsUserConfig } from "hardhat/types";
+import { Wallet } from "ethers";
+
+/** Derivation path of the mnemonic accounts, without the index. */
+export const MNEMONIC_PATH = "m/44'/60'/0'/0";
+
+export type DeployerSource = "keystore" | "mnemonic" | "none";
+
+export function deployerSource(): DeployerSource {
+  if (vars.has("DEPLOYER_KEYSTORE")) return "keystore";
+  if (vars.has("MNEMONIC")) return "mnemonic";
+  return "none";
+}
+
+/**
+ * The network named on the command line, as `--network <name>` or `--network=<name>`,
+ * else HARDHAT_NETWORK. hardhat.config.ts is read before the runtime environment
+ * exists, so `hre.network.name` is not available yet.
+ */
+export function selectedNetwork(argv: readonly string[] = process.argv): string | undefined {
+  for (const [i, arg] of argv.entries()) {
+    if (arg === "--network" && i + 1 < argv.length) return argv[i + 1];
+    if (arg.startsWith("--network=")) return arg.slice("--network=".length);
+  }
+  return process.env.HARDHAT_NETWORK;
+}
+
+/** The `accounts` entry of `networkName`; empty when no source is configured. */
+export function deployerAccounts(networkName: string): HttpNetworkAccountsUserConfig {
+  switch (deployerSource()) {
+    case "keystore": {
+      // Scrypt makes decryption take seconds, so it only happens for the network in use
+      if (selectedNetwork() !== networkName) return [];
+      const file = path.resolve(vars.get("DEPLOYER_KEYSTORE"));
+      const wallet = Wallet.fromEncryptedJsonSync(fs.readFileSync(file, "utf-8"), vars.get("DEPLOYER_KEYSTORE_PASSWORD"));
+      return [wallet.privateKey];
+    }
+    case "mnemonic": {
+      const index = Number(vars.get("DEPLOYER_ACCOUNT_INDEX", "0"));
+      if (!Number.isInteger(index) || index < 0) {
+        throw new Error(`DEPLOYER_ACCOUNT_INDEX must be a non-negative integer, got ${vars.get("DEPLOYER_ACCOUNT_INDEX")}`);
+      }
+      return { mnemonic: vars.get("MNEMONIC"), path: MNEMONIC_PATH, initialIndex: index, count: 1 };
+    }
+    case "none":
+      return [];
+  }
+}
@@ -1,294 +1,63 @@
 // deploy/deploy.ts
+// `npx hardhat deploy`: deploys AssetMgmtFhe to the selected network and records
+// it in deployments/<network>.json.
+// Contracts whose manifest entry still matches the compiled bytecode and
+// constructor arguments are left alone, so running it twice deploys nothing new.
 import fs from "fs";
 import path from "path";
 import readline from "readline";
-import { ethers as hardhatEthers } from "hardhat";
-import { Wallet, JsonRpcProvider } from "ethers";
-
-const WORD_LIBRARY = [
-  'api', 'ape', 'auth', 'backend', 'config', 'controller', 'database', 'endpoint',
-  'frontend', 'gateway', 'handler', 'interface', 'middleware', 'model', 'module',
-  'provider', 'router', 'service', 'util', 'validator', 'adapter', 'bridge',
-  'decorator', 'factory', 'manager', 'registry', 'resolver', 'serializer',
-  'user', 'account', 'profile', 'payment', 'order', 'product', 'inventory',
-  'customer', 'admin', 'notification', 'message', 'email', 'sms', 'upload',
-  'download', 'export', 'import', 'report', 'analytics', 'statistics',
-  'types', 'constants', 'helpers', 'hooks', 'styles', 'components', 'layouts',
-  'pages', 'routes', 'queries', 'mutations', 'subscriptions', 'fragments',
-  'main', 'common', 'shared', 'global', 'local', 'base', 'core', 'advanced',
-  'simple', 'complex', 'dynamic', 'static', 'responsive', 'adaptive', 'secure',
-  'utils', 'lib', 'src', 'dist', 'build', 'test', 'spec', 'mock', 'fixture',
-  'example', 'demo', 'template', 'boilerplate', 'configuration', 'environment'
-];
-
-const FILE_EXTENSIONS = {
-  code: ['.ts', '.js', '.tsx', '.jsx', '.sol', '.java', '.py', '.rs', '.go'],
-  config: ['.json', '.yaml', '.yml', '.toml', '.ini', '.env'],
-  docs: ['.md', '.txt', '.rst', '.adoc'],
-  styles: ['.css', '.scss', '.sass', '.less', '.styl']
-};
-
-const DIFF_CONFIG = {
-  minFolders: 3,
-  maxFolders: 8,
-  minFilesPerFolder: 1,
-  maxFilesPerFolder: 5,
-  maxDepth: 3
-};
-
-interface GeneratedFile {
-  path: string;
-  type: 'file' | 'folder';
-  content?: string;
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { formatEther, id, Wallet, type Signer } from "ethers";
+import {
+  abiHash,
+  DEPLOYMENT_MANIFEST_VERSION,
+  parseDeploymentManifest,
+  type DeploymentManifest,
+} from "../src/deployments";
+import { deployerSource } from "./accounts";
+
+// Deployed in order
+const DEPLOYED_CONTRACTS: { name: string; args: unknown[] }[] = [{ name: "AssetMgmtFhe", args: [] }];
+
+// Networks whose accounts come from hardhat itself
+const LOCAL_NETWORKS = ["hardhat", "localhost"];
+
+const projectRoot = path.join(__dirname, "..");
+const defaultDeploymentsDir = path.join(projectRoot, "deployments");
+const defaultAbiDir = path.join(projectRoot, "frontend", "web", "src", "abi");
+const manifestPath = (deploymentsDir: string, networkName: string) => path.join(deploymentsDir, `${networkName}.json`);
+
+type PlannedAction = "deploy" | "redeploy" | "skip";
+
+interface PlannedDeployment {
+  name: string;
+  action: PlannedAction;
+  reason: string;
+  /** Estimated deployment gas; null when skipped. */
+  gas: bigint | null;
 }
 
-class DifferentialGenerator {
-  private cacheFile: string;
-  private projectRoot: string;
-  private existingPaths: Set<string>;
-
-  constructor(projectRoot: string) {
-    this.projectRoot = projectRoot;
-    this.cacheFile = path.join(projectRoot, '.diffcache');
-    this.existingPaths = this.getAllExistingPaths();
-  }
-
-  private getAllExistingPaths(): Set<string> {
-    const paths = new Set<string>();
-    
-    const scanDirectory = (dir: string) => {
-      try {
-        const items = fs.readdirSync(dir);
-        for (const item of items) {
-          if (item === '.diffcache') continue; 
-          
-          const fullPath = path.join(dir, item);
-          const relativePath = path.relative(this.projectRoot, fullPath);
-          paths.add(relativePath);
-          
-          if (fs.statSync(fullPath).isDirectory()) {
-            scanDirectory(fullPath);
-          }
-        }
-      } catch (error) {}
-    };
-    
-    scanDirectory(this.projectRoot);
-    return paths;
-  }
-
-  private getRandomItem<T>(array: T[]): T {
-    return array[Math.floor(Math.random() * array.length)];
-  }
-
-  private generateFileName(): string {
-    const wordCount = Math.floor(Math.random() * 3) + 1;
-    const words: string[] = [];
-    
-    for (let i = 0; i < wordCount; i++) {
-      words.push(this.getRandomItem(WORD_LIBRARY));
-    }
-    
-    return words.join('-');
-  }
-
-  private generateFileExtension(): string {
-    const extTypes = Object.values(FILE_EXTENSIONS).flat();
-    return this.getRandomItem(extTypes);
-  }
+// Constructor arguments as stored in the manifest, bigints as decimal strings
+const toJson = (value: unknown) => JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2);
 
-  private generateFolderName(): string {
-    return this.generateFileName();
+function readManifest(deploymentsDir: string, networkName: string, chainId: number): DeploymentManifest {
+  const file = manifestPath(deploymentsDir, networkName);
+  if (!fs.existsSync(file)) {
+    return { version: DEPLOYMENT_MANIFEST_VERSION, network: networkName, chainId, contracts: {} };
   }
-
-  private generateFileContent(filePath: string): string {
-    const ext = path.extname(filePath);
-    
-    switch (ext) {
-      case '.ts':
-      case '.js':
-      case '.tsx':
-      case '.jsx':
-        return this.generateTypeScriptContent();
-      case '.json':
-        return this.generateJSONContent();
-      case '.md':
-        return this.generateMarkdownContent();
-      case '.css':
-      case '.scss':
-        return this.generateStyleContent();
-      case '.sol':
-        return this.generateSolidityContent();
-      default:
-        return `// Auto-generated file: ${filePath}\n// Generated at: ${new Date().toISOString()}`;
-    }
-  }
-
-  private generateTypeScriptContent(): string {
-    const imports = [
-      "import React from 'react';",
-      "import { useState, useEffect } from 'react';",
-      "import { ethers } from 'ethers';",
-      "import axios from 'axios';",
-      "export const config = { runtime: 'edge' };"
-    ];
-    
-    const contents = [
-      `export const ${this.generateFileName()} = () => { return null; };`,
-      `export default function ${this.generateFileName()}() { return <div>Component</div>; }`,
-      `export const use${this.generateFileName()} = () => { return {}; };`,
-      `interface ${this.generateFileName()}Props { data: string }`
-    ];
-    
-    return `${this.getRandomItem(imports)}\n\n${this.getRandomItem(contents)}\n`;
-  }
-
-  private generateJSONContent(): string {
-    const configs = {
-      settings: { theme: "dark", language: "en" },
-      dependencies: { [this.generateFileName()]: "^1.0.0" },
-      rules: { [this.generateFileName()]: "warn" }
-    };
-    
-    return JSON.stringify(this.getRandomItem(Object.values(configs)), null, 2);
-  }
-
-  private generateMarkdownContent(): string {
-    return `# ${this.generateFileName()}\n\nThis is an auto-generated documentation file.\n\n## Usage\n\nExample usage goes here.\n\n## Configuration\n\nAdd your configuration details here.`;
-  }
-
-  private generateStyleContent(): string {
-    return `.${this.generateFileName()} {\n  margin: 0;\n  padding: 1rem;\n  background-color: #fff;\n}\n\n.container {\n  max-width: 1200px;\n  margin: 0 auto;\n}`;
-  }
-
-  private generateSolidityContent(): string {
-    return `// SPDX-License-Identifier: MIT\npragma solidity ^0.8.0;\n\ncontract ${this.generateFileName()} {\n    address public owner;\n    \n    constructor() {\n        owner = msg.sender;\n    }\n    \n    function dummy() public pure returns (uint256) {\n        return 42;\n    }\n}`;
-  }
-
-  private generateUniquePath(baseDir: string, isFile: boolean = true): string {
-    let attempts = 0;
-    let fullPath: string;
-    let relativePath: string;
-    
-    do {
-      const name = isFile ? 
-        `${this.generateFileName()}${this.generateFileExtension()}` : 
-        this.generateFolderName();
-      
-      fullPath = path.join(baseDir, name);
-      relativePath = path.relative(this.projectRoot, fullPath);
-      attempts++;
-    } while (this.existingPaths.has(relativePath) && attempts < 50);
-    
-    this.existingPaths.add(relativePath);
-    return fullPath;
-  }
-
-  private cleanPreviousFiles(): void {
-    if (!fs.existsSync(this.cacheFile)) {
-      console.log("No previous differential files to clean.");
-      return;
-    }
-
-    try {
-      const previousFiles = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8')) as string[];
-      console.log(`Cleaning ${previousFiles.length} previous differential files...`);
-      
-      for (const filePath of previousFiles) {
-        try {
-          if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
-            console.log(`Deleted: ${filePath}`);
-
-            let dir = path.dirname(filePath);
-            while (dir !== this.projectRoot) {
-              try {
-                const files = fs.readdirSync(dir);
-                if (files.length === 0) {
-                  fs.rmdirSync(dir);
-                  console.log(`Removed empty directory: ${dir}`);
-                  dir = path.dirname(dir);
-                } else {
-                  break;
-                }
-              } catch (error) {
-                break;
-              }
-            }
-          }
-        } catch (error) {
-          console.warn(`Failed to delete ${filePath}:`, error);
-        }
-      }
-      
-      fs.unlinkSync(this.cacheFile);
-    } catch (error) {
-      console.warn("Error cleaning previous files:", error);
-    }
+  const manifest = parseDeploymentManifest(JSON.parse(fs.readFileSync(file, "utf-8")), file);
+  if (manifest.chainId !== chainId) {
+    throw new Error(`${file} is for chain ${manifest.chainId}, but ${networkName} is chain ${chainId}`);
   }
+  return manifest;
+}
 
-  public generateDifferentialFiles(): string[] {
-    this.cleanPreviousFiles();
-    
-    const generatedFiles: string[] = [];
-    const folderCount = Math.floor(Math.random() * (DIFF_CONFIG.maxFolders - DIFF_CONFIG.minFolders + 1)) + DIFF_CONFIG.minFolders;
-    
-    console.log(`Generating ${folderCount} differential folders...`);
-    
-    const generateInDirectory = (currentDir: string, depth: number = 0): void => {
-      if (depth > DIFF_CONFIG.maxDepth) return;
-      
-      const fileCount = Math.floor(Math.random() * (DIFF_CONFIG.maxFilesPerFolder - DIFF_CONFIG.minFilesPerFolder + 1)) + DIFF_CONFIG.minFilesPerFolder;
-      
-      for (let i = 0; i < fileCount; i++) {
-        const filePath = this.generateUniquePath(currentDir, true);
-        
-        try {
-          fs.mkdirSync(path.dirname(filePath), { recursive: true });
-          const content = this.generateFileContent(filePath);
-          fs.writeFileSync(filePath, content);
-          generatedFiles.push(filePath);
-          console.log(`Created: ${filePath}`);
-        } catch (error) {
-          console.warn(`Failed to create file ${filePath}:`, error);
-        }
-      }
-      
-      if (depth < DIFF_CONFIG.maxDepth && Math.random() > 0.5) {
-        const subFolderPath = this.generateUniquePath(currentDir, false);
-        
-        try {
-          fs.mkdirSync(subFolderPath, { recursive: true });
-          generatedFiles.push(subFolderPath);
-          console.log(`Created folder: ${subFolderPath}`);
-          generateInDirectory(subFolderPath, depth + 1);
-        } catch (error) {
-          console.warn(`Failed to create folder ${subFolderPath}:`, error);
-        }
-      }
-    };
-    
-    const baseDirs = [
-      this.projectRoot,
-      path.join(this.projectRoot, 'src'),
-      path.join(this.projectRoot, 'frontend', 'web', 'src')
-    ];
-    
-    for (const baseDir of baseDirs) {
-      if (fs.existsSync(baseDir)) {
-        for (let i = 0; i < Math.ceil(folderCount / baseDirs.length); i++) {
-          generateInDirectory(baseDir);
-        }
-      }
-    }
-    
-    if (generatedFiles.length > 0) {
-      fs.writeFileSync(this.cacheFile, JSON.stringify(generatedFiles, null, 2));
-      console.log(`Generated ${generatedFiles.length} differential files. Cache saved to: ${this.cacheFile}`);
-    }
-    
-    return generatedFiles;
-  }
+/** Writes `content` unless the file already holds it, so reruns leave the tree untouched. */
+function writeIfChanged(file: string, content: string) {
+  if (fs.existsSync(file) && fs.readFileSync(file, "utf-8") === content) return;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
 }
 
 async function ask(prompt: string): Promise<string> {
@@ -301,103 +70,129 @@ async function ask(prompt: string): Promise<string> {
   );
 }
 
-async function main() {
-  const projectRoot = path.join(__dirname, "..");
-  
-  console.log("=== Generating Differential Files ===");
-  const generator = new DifferentialGenerator(projectRoot);
-  generator.generateDifferentialFiles();
-  console.log("=== Differential Files Generation Complete ===\n");
+/**
+ * The hardhat account on local networks, else the first account of the network,
+ * which hardhat.config.ts takes from the keystore or mnemonic of deploy/accounts.ts.
+ * A typed private key is only accepted with `--raw-key`.
+ */
+async function getDeployer(hre: HardhatRuntimeEnvironment, rawKey: boolean): Promise<Signer> {
+  if (rawKey) {
+    console.warn("Using a private key typed on the terminal; prefer a keystore or a mnemonic, see deploy/accounts.ts");
+    return new Wallet(await ask("Enter the deployer private key (testnet only): "), hre.ethers.provider);
+  }
+  const [deployer] = await hre.ethers.getSigners();
+  if (!deployer) {
+    throw new Error(
+      `No account configured for ${hre.network.name}: set DEPLOYER_KEYSTORE and DEPLOYER_KEYSTORE_PASSWORD, ` +
+        "or MNEMONIC (and DEPLOYER_ACCOUNT_INDEX), with npx hardhat vars set, or pass --raw-key"
+    );
+  }
+  if (!LOCAL_NETWORKS.includes(hre.network.name)) {
+    console.log(`Deployer source: ${deployerSource()}`);
+  }
+  return deployer;
+}
 
-  let privateKey = "";
-  const walletsPath = path.join(__dirname, "wallets.txt");
-  const successLogPath = path.join(__dirname, "success.txt");
-  
-  if (fs.existsSync(walletsPath)) {
-    const walletsContent = fs.readFileSync(walletsPath, "utf-8");
-    const lines = walletsContent.split("\n").filter(line => line.trim() !== "");
-    if (lines.length > 0) {
-      privateKey = lines[0].trim();
+/** Decides, without sending anything, what the deployment of each contract would do. */
+async function plan(hre: HardhatRuntimeEnvironment, manifest: DeploymentManifest, deployer: Signer): Promise<PlannedDeployment[]> {
+  const planned: PlannedDeployment[] = [];
+  for (const { name, args } of DEPLOYED_CONTRACTS) {
+    if (!(await hre.artifacts.artifactExists(name))) {
+      throw new Error(`No artifact for ${name}, run npx hardhat compile first`);
     }
-  }
-
-  if (!privateKey) {
-    privateKey = await ask("Enter the deployer private key (testnet only): ");
-  }
-
-  const DEFAULT_RPC = "https://sepolia.drpc.org";
-  const rpc = DEFAULT_RPC;
-
-  const provider = new JsonRpcProvider(rpc);
-  const wallet = new Wallet(privateKey, provider);
-
-  console.log("Deployer account:", wallet.address);
-
-  try {
-    const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
-    const factory = await UniversalAdapterFactory.deploy();
-    await factory.waitForDeployment();
-
-    const deployedAddress = (factory as any).target || (factory as any).address;
-    console.log("UniversalAdapter contract deployed at:", deployedAddress);
-
-    if (fs.existsSync(walletsPath)) {
-      const walletsContent = fs.readFileSync(walletsPath, "utf-8");
-      const lines = walletsContent.split("\n").filter(line => line.trim() !== "");
-      
-      if (lines.length > 0 && lines[0].trim() === privateKey) {
-        const updatedWallets = lines.slice(1).join("\n");
-        fs.writeFileSync(walletsPath, updatedWallets);
+    const artifact = await hre.artifacts.readArtifact(name);
+    const recorded = manifest.contracts[name];
+
+    let action: PlannedAction = "deploy";
+    let reason = "not in the manifest";
+    if (recorded) {
+      const code = await hre.ethers.provider.getCode(recorded.address);
+      action = "redeploy";
+      if (code === "0x") {
+        reason = `no code at ${recorded.address}`;
+      } else if (id(code) !== id(artifact.deployedBytecode)) {
+        reason = "compiled bytecode differs from the deployed one";
+      } else if (toJson(recorded.constructorArgs) !== toJson(args)) {
+        reason = "constructor arguments changed";
+      } else {
+        action = "skip";
+        reason = `up to date at ${recorded.address}`;
       }
     }
 
-    const logEntry = `${deployedAddress} | ${wallet.address} | 成功`;
-    fs.appendFileSync(successLogPath, logEntry + "\n");
+    let gas: bigint | null = null;
+    if (action !== "skip") {
+      const factory = await hre.ethers.getContractFactory(name, deployer);
+      gas = await deployer.estimateGas(await factory.getDeployTransaction(...args));
+    }
+    planned.push({ name, action, reason, gas });
+  }
+  return planned;
+}
 
-    const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
-    if (!fs.existsSync(frontendConfigDir)) {
-      console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
-    } else {
-      const config = {
-        network: rpc,
-        contractAddress: deployedAddress,
-        deployer: wallet.address,
+/**
+ * Example:
+ *   - npx hardhat deploy --dry-run
+ *   - npx hardhat --network localhost deploy
+ *   - npx hardhat --network sepolia deploy
+ *   - npx hardhat --network sepolia deploy --raw-key
+ *   - npx hardhat deploy --deployments-dir /tmp/deployments --abi-dir /tmp/abi
+ */
+task("deploy", "Deploys the contracts that are missing or out of date and records them in deployments/<network>.json")
+  .addFlag("dryRun", "Only print the planned deployments and their estimated gas")
+  .addFlag("rawKey", "Prompt for the deployer's private key instead of using the network's accounts")
+  .addOptionalParam("deploymentsDir", "Directory of the deployment manifests (default: deployments/)")
+  .addOptionalParam("abiDir", "Directory the artifacts are copied to (default: frontend/web/src/abi/)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const deployer = await getDeployer(hre, taskArguments.rawKey);
+    const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+    const deployerAddress = await deployer.getAddress();
+    console.log(`Network: ${hre.network.name} (chain ${chainId})`);
+    console.log("Deployer account:", deployerAddress);
+
+    const deploymentsDir: string = taskArguments.deploymentsDir ?? defaultDeploymentsDir;
+    const abiDir: string = taskArguments.abiDir ?? defaultAbiDir;
+    const manifest = readManifest(deploymentsDir, hre.network.name, chainId);
+    const planned = await plan(hre, manifest, deployer);
+    const { gasPrice } = await hre.ethers.provider.getFeeData();
+    for (const { name, action, reason, gas } of planned) {
+      const cost = gas !== null && gasPrice !== null ? `, about ${formatEther(gas * gasPrice)} ETH` : "";
+      console.log(`${name.padEnd(18)}: ${action} (${reason})${gas !== null ? `, ${gas} gas${cost}` : ""}`);
+    }
+    if (taskArguments.dryRun) return;
+
+    for (const { name, action } of planned) {
+      if (action === "skip") continue;
+      const { args } = DEPLOYED_CONTRACTS.find(c => c.name === name)!;
+      const artifact = await hre.artifacts.readArtifact(name);
+      const factory = await hre.ethers.getContractFactory(name, deployer);
+      const contract = await factory.deploy(...args);
+      const receipt = (await contract.deploymentTransaction()!.wait())!;
+      const block = await receipt.getBlock();
+      const address = await contract.getAddress();
+      console.log(`${name} deployed at ${address} in block ${receipt.blockNumber}, ${receipt.gasUsed} gas`);
+
+      manifest.contracts[name] = {
+        contract: `${artifact.sourceName}:${artifact.contractName}`,
+        address,
+        abiHash: abiHash(artifact.abi),
+        deployer: deployerAddress,
+        blockNumber: receipt.blockNumber,
+        transactionHash: receipt.hash,
+        constructorArgs: args,
+        deployedAt: new Date(block.timestamp * 1000).toISOString(),
       };
-      fs.writeFileSync(
-        path.join(frontendConfigDir, "config.json"),
-        JSON.stringify(config, null, 2)
-      );
-      console.log("Wrote frontend config: frontend/web/src/config.json");
-
-      try {
-        const artifactPath = path.join(
-          __dirname,
-          "..",
-          "artifacts",
-          "contracts",
-          "UniversalAdapter.sol",
-          "UniversalAdapter.json"
-        );
-        const targetAbiPath = path.join(frontendConfigDir, "abi");
-        if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-        console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
-      } catch (e) {
-        console.warn(
-          "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
-          e
-        );
+      // The in-process network is gone once this task exits, so its addresses are not worth keeping
+      // in deployments/; an explicit --deployments-dir still gets them
+      if (hre.network.name !== "hardhat" || taskArguments.deploymentsDir !== undefined) {
+        writeIfChanged(manifestPath(deploymentsDir, manifest.network), toJson(manifest) + "\n");
       }
     }
-  } catch (error) {
-    console.error("Deployment failed:", error);
-    const logEntry = `none | ${wallet.address} | 失败`;
-    fs.appendFileSync(successLogPath, logEntry + "\n");
-    throw error;
-  }
-}
 
-main().catch((e) => {
-  console.error(e);
-  process.exit(1);
-});
\ No newline at end of file
+    // The frontend checks its bundled ABI against the manifest's abiHash
+    if (fs.existsSync(abiDir)) {
+      for (const { name } of planned) {
+        writeIfChanged(path.join(abiDir, `${name}.json`), JSON.stringify(await hre.artifacts.readArtifact(name), null, 2));
+      }
+    }
+  });
@@ -3,12 +3,34 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { assetMgmtAddress, getBrowserSigner, getAssetMgmtClientReadOnly, getAssetMgmtClientWithSigner } from "./contract";
+import { encryptUint64, type EncryptedValue } from "./fhe/encryption";
+import { encryptFundState, submitEncryptedFundState } from "./fhe/submitFundState";
+import { decodeFundField, encodeFundField, type FundField } from "@shared/encoding";
+import type { ComplianceCheck, ComplianceRule } from "@shared/compliance";
+import type { Role } from "@shared/roles";
+import ComplianceRulesPanel, { COMPLIANCE_RULE_LABELS } from "./components/ComplianceRulesPanel";
+import { userDecryptHandles } from "./fhe/decryption";
+import { getOrCreateSession, loadSession, renewSession, revokeSession, type DecryptionSession } from "./fhe/session";
+import DecryptionTracker from "./components/DecryptionTracker";
+import ScenarioPanel from "./components/ScenarioPanel";
+import AclInspector from "./components/AclInspector";
+import AuditorGrants from "./components/AuditorGrants";
+import InvestorPortal from "./components/InvestorPortal";
+import SharePricePanel from "./components/SharePricePanel";
+import RoleAdmin from "./components/RoleAdmin";
+import PendingAdminActions from "./components/PendingAdminActions";
+import BatchCalendar from "./components/BatchCalendar";
+import ProviderRegistry from "./components/ProviderRegistry";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount } from 'wagmi';
+import { NavLink, Route, Routes } from 'react-router-dom';
+
+// Submission window of the batch a new fund opens with
+const FIRST_BATCH_WINDOW_SECONDS = 7 * 24 * 60 * 60;
 
 interface Fund {
-  id: string;
+  id: number;
   name: string;
   encryptedNav: string;
   encryptedPerformance: string;
@@ -17,45 +39,14 @@ interface Fund {
   owner: string;
   status: "active" | "closed" | "pending";
   complianceStatus: "verified" | "pending" | "failed";
+  failedRules?: ComplianceRule[];
+  batchId?: number;
+  /** Compliance checks need the batch to be closed. */
+  batchOpen: boolean;
 }
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
-};
-
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
-};
-
-const FHECompute = (encryptedData: string, operation: string): string => {
-  const value = FHEDecryptNumber(encryptedData);
-  let result = value;
-  
-  switch(operation) {
-    case 'increase10%':
-      result = value * 1.1;
-      break;
-    case 'decrease10%':
-      result = value * 0.9;
-      break;
-    case 'double':
-      result = value * 2;
-      break;
-    default:
-      result = value;
-  }
-  
-  return FHEEncryptNumber(result);
-};
-
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
-
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
   const [loading, setLoading] = useState(true);
   const [funds, setFunds] = useState<Fund[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -67,11 +58,8 @@ const App: React.FC = () => {
   const [selectedFund, setSelectedFund] = useState<Fund | null>(null);
   const [decryptedValues, setDecryptedValues] = useState<{nav?: number, performance?: number, fee?: number}>({});
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
+  const [decryptionSession, setDecryptionSession] = useState<DecryptionSession | null>(null);
+  const [roles, setRoles] = useState<Role[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterStatus, setFilterStatus] = useState<string>("all");
   const [filterCompliance, setFilterCompliance] = useState<string>("all");
@@ -84,99 +72,121 @@ const App: React.FC = () => {
 
   useEffect(() => {
     loadFunds().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
   }, []);
 
+  useEffect(() => {
+    let unsubscribe: (() => Promise<void>) | undefined;
+    getAssetMgmtClientReadOnly()
+      .then(async client => {
+        if (client) unsubscribe = await client.on(client.events.ComplianceVerified, () => { loadFunds(); });
+      })
+      .catch(e => console.error("Failed to subscribe to compliance results:", e));
+    return () => { unsubscribe?.(); };
+  }, []);
+
+  useEffect(() => {
+    setRoles([]);
+    if (!address) return;
+    getAssetMgmtClientReadOnly()
+      .then(client => client?.rolesOf(address))
+      .then(held => setRoles(held ?? []))
+      .catch(e => console.error("Failed to load roles:", e));
+  }, [address]);
+
+  useEffect(() => {
+    setDecryptionSession(null);
+    if (!address) return;
+    loadSession(address, [assetMgmtAddress])
+      .then(setDecryptionSession)
+      .catch(e => console.error("Failed to load decryption session:", e));
+  }, [address]);
+
   const loadFunds = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) return;
-      const keysBytes = await contract.getData("fund_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing fund keys:", e); }
-      }
-      const list: Fund[] = [];
-      for (const key of keys) {
-        try {
-          const fundBytes = await contract.getData(`fund_${key}`);
-          if (fundBytes.length > 0) {
-            try {
-              const fundData = JSON.parse(ethers.toUtf8String(fundBytes));
-              list.push({ 
-                id: key, 
-                name: fundData.name, 
-                encryptedNav: fundData.nav, 
-                encryptedPerformance: fundData.performance, 
-                encryptedManagementFee: fundData.managementFee,
-                timestamp: fundData.timestamp, 
-                owner: fundData.owner, 
-                status: fundData.status || "pending",
-                complianceStatus: fundData.complianceStatus || "pending"
-              });
-            } catch (e) { console.error(`Error parsing fund data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading fund ${key}:`, e); }
-      }
+      const client = await getAssetMgmtClientReadOnly();
+      if (!client) return;
+      const [infos, checks] = await Promise.all([client.listFunds(), client.complianceChecks()]);
+      const list = await Promise.all(infos.map(async (info): Promise<Fund> => {
+        const handles = await client.batchHandles(info.fundId, info.currentBatchId);
+        const submitted = handles.totalAssets !== ethers.ZeroHash;
+        const compliance = submitted
+          ? await loadComplianceStatus(checks, info.fundId, info.currentBatchId)
+          : { complianceStatus: "pending" as const };
+        return {
+          id: Number(info.fundId),
+          name: info.name,
+          encryptedNav: handles.totalAssets,
+          encryptedPerformance: handles.performanceFeeRate,
+          encryptedManagementFee: handles.managerFeeRate,
+          timestamp: info.createdAt,
+          owner: info.manager,
+          status: info.closed ? "closed" : submitted ? "active" : "pending",
+          ...compliance,
+          batchId: info.batchOpen || submitted ? Number(info.currentBatchId) : undefined,
+          batchOpen: info.batchOpen
+        };
+      }));
       list.sort((a, b) => b.timestamp - a.timestamp);
       setFunds(list);
     } catch (e) { console.error("Error loading funds:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
 
+  // The badge reflects the latest ComplianceVerified result for the batch, as long as neither the
+  // batch nor the rules have changed since it was requested
+  const loadComplianceStatus = async (
+    checks: ComplianceCheck[],
+    fundId: bigint,
+    batchId: bigint
+  ): Promise<Pick<Fund, "complianceStatus" | "failedRules">> => {
+    const latest = checks.find(c => c.fundId === fundId && c.batchId === batchId && c.result);
+    if (!latest?.result) return { complianceStatus: "pending" };
+    const client = await getAssetMgmtClientReadOnly();
+    if (!client || latest.stateHash !== await client.complianceStateHash(fundId, batchId)) return { complianceStatus: "pending" };
+    return { complianceStatus: latest.result.compliant ? "verified" : "failed", failedRules: latest.result.failedRules };
+  };
+
+  const encryptForFundContract = async (value: bigint): Promise<EncryptedValue> => {
+    if (!address) throw new Error("Wallet not connected");
+    return encryptUint64(assetMgmtAddress, address, value);
+  };
+
   const submitFund = async () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setCreating(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting fund data with Zama FHE..." });
     try {
-      const encryptedNav = FHEEncryptNumber(newFundData.initialNav);
-      const encryptedPerformance = FHEEncryptNumber(newFundData.performanceFee);
-      const encryptedManagementFee = FHEEncryptNumber(newFundData.managementFee);
-      
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const fundId = `fund-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
-      const fundData = { 
-        name: newFundData.name, 
-        nav: encryptedNav, 
-        performance: encryptedPerformance,
-        managementFee: encryptedManagementFee,
-        timestamp: Math.floor(Date.now() / 1000), 
-        owner: address, 
-        status: "pending",
-        complianceStatus: "pending"
-      };
-      
-      await contract.setData(`fund_${fundId}`, ethers.toUtf8Bytes(JSON.stringify(fundData)));
-      
-      const keysBytes = await contract.getData("fund_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
+      if (!address) throw new Error("Wallet not connected");
+      const assetMgmt = await getAssetMgmtClientWithSigner();
+      // The creator becomes the first batch's only provider, so check both roles before any transaction
+      const held = await assetMgmt.rolesOf(address);
+      if (!held.includes("fundManager")) throw new Error("Creating a fund requires FUND_MANAGER_ROLE; ask an admin to grant it");
+      if (!held.includes("dataProvider")) {
+        throw new Error("The first batch is submitted by the fund's creator, which requires DATA_PROVIDER_ROLE; ask an admin to grant it");
       }
-      keys.push(fundId);
-      await contract.setData("fund_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+
+      const encrypted = await encryptFundState(assetMgmtAddress, address, {
+        totalAssets: newFundData.initialNav,
+        managerFeeRate: newFundData.managementFee || 0,
+        performanceFeeRate: newFundData.performanceFee || 0
+      });
+
+      setTransactionStatus({ visible: true, status: "pending", message: "Registering fund on-chain..." });
+      const { fundId, receipt } = await assetMgmt.createFund(newFundData.name);
+      // The first batch opens right away, timed by the chain rather than the local clock
+      const { timestamp } = (await receipt.getBlock())!;
+      await assetMgmt.scheduleBatch(fundId, timestamp, timestamp + FIRST_BATCH_WINDOW_SECONDS, [address]);
+      await assetMgmt.openBatch(fundId);
+
+      setTransactionStatus({ visible: true, status: "pending", message: "Submitting encrypted fund state..." });
+      const { cost } = await submitEncryptedFundState(assetMgmt, fundId, encrypted);
       
-      setTransactionStatus({ visible: true, status: "success", message: "Fund created with FHE encryption!" });
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: `Fund created with FHE encryption! Gas used: ${cost.gasUsed.toLocaleString()}, HCU: ${cost.hcu?.total.toLocaleString() ?? "unknown"}`
+      });
       await loadFunds();
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
@@ -190,44 +200,47 @@ const App: React.FC = () => {
     } finally { setCreating(false); }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
+  const decryptHandles = async (handles: string[]): Promise<Record<string, bigint> | null> => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
+      const signer = await getBrowserSigner();
+      const session = await getOrCreateSession(signer, [assetMgmtAddress]);
+      setDecryptionSession(session);
+      return await userDecryptHandles(handles, assetMgmtAddress, session.auth);
     } catch (e) { console.error("Decryption failed:", e); return null; } 
     finally { setIsDecrypting(false); }
   };
 
-  const verifyCompliance = async (fundId: string) => {
+  const decryptWithSignature = async (handle: string, field: FundField): Promise<number | null> => {
+    const values = await decryptHandles([handle]);
+    return values ? decodeFundField(field, values[handle]) : null;
+  };
+
+  const renewDecryptionSession = async () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing compliance check with FHE..." });
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      const fundBytes = await contract.getData(`fund_${fundId}`);
-      if (fundBytes.length === 0) throw new Error("Fund not found");
-      const fundData = JSON.parse(ethers.toUtf8String(fundBytes));
-      
-      // Simulate FHE compliance check
-      const nav = FHEDecryptNumber(fundData.nav);
-      const isCompliant = nav > 100; // Simple compliance rule for demo
-      
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      
-      const updatedFund = { 
-        ...fundData, 
-        complianceStatus: isCompliant ? "verified" : "failed",
-        status: "active"
-      };
-      await contractWithSigner.setData(`fund_${fundId}`, ethers.toUtf8Bytes(JSON.stringify(updatedFund)));
-      
-      setTransactionStatus({ visible: true, status: "success", message: "FHE compliance check completed!" });
-      await loadFunds();
+      const signer = await getBrowserSigner();
+      setDecryptionSession(await renewSession(signer, [assetMgmtAddress]));
+    } catch (e) { console.error("Failed to renew decryption session:", e); }
+  };
+
+  const revokeDecryptionSession = async () => {
+    if (!address) return;
+    try {
+      await revokeSession(address, [assetMgmtAddress]);
+      setDecryptionSession(null);
+    } catch (e) { console.error("Failed to revoke decryption session:", e); }
+  };
+
+  const verifyCompliance = async (fund: Fund) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (fund.batchId === undefined) return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Evaluating encrypted compliance rules..." });
+    try {
+      const assetMgmt = await getAssetMgmtClientWithSigner();
+      await assetMgmt.requestComplianceCheck(BigInt(fund.id), BigInt(fund.batchId));
+      setTransactionStatus({ visible: true, status: "success", message: "Compliance check requested, the badge updates when the oracle responds" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
       setTransactionStatus({ visible: true, status: "error", message: "Compliance check failed: " + (e.message || "Unknown error") });
@@ -235,17 +248,12 @@ const App: React.FC = () => {
     }
   };
 
-  const closeFund = async (fundId: string) => {
+  const closeFund = async (fundId: number) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setTransactionStatus({ visible: true, status: "pending", message: "Closing fund with FHE..." });
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      const fundBytes = await contract.getData(`fund_${fundId}`);
-      if (fundBytes.length === 0) throw new Error("Fund not found");
-      const fundData = JSON.parse(ethers.toUtf8String(fundBytes));
-      const updatedFund = { ...fundData, status: "closed" };
-      await contract.setData(`fund_${fundId}`, ethers.toUtf8Bytes(JSON.stringify(updatedFund)));
+      const assetMgmt = await getAssetMgmtClientWithSigner();
+      await assetMgmt.closeFund(BigInt(fundId));
       setTransactionStatus({ visible: true, status: "success", message: "Fund closed successfully!" });
       await loadFunds();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
@@ -306,6 +314,9 @@ const App: React.FC = () => {
           <h1>FHE<span>Asset</span>Mgmt</h1>
         </div>
         <div className="header-actions">
+          <NavLink to="/" end className="metal-button nav-link">Dashboard</NavLink>
+          <NavLink to="/investor" className="metal-button nav-link">Investor Portal</NavLink>
+          {roles.includes("admin") && <NavLink to="/admin" className="metal-button nav-link">Roles</NavLink>}
           <button onClick={() => setShowCreateModal(true)} className="create-fund-btn metal-button">
             <div className="add-icon"></div>New Fund
           </button>
@@ -315,159 +326,177 @@ const App: React.FC = () => {
           <div className="wallet-connect-wrapper"><ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/></div>
         </div>
       </header>
-      <div className="main-content">
-        <div className="welcome-banner">
-          <div className="welcome-text">
-            <h2>Decentralized Asset Management</h2>
-            <p>Create and manage fully encrypted on-chain funds with Zama FHE technology</p>
+      <Routes>
+        <Route path="/investor" element={
+          <div className="main-content">
+            <InvestorPortal address={address} decryptHandles={decryptHandles} />
+            <PendingAdminActions address={address} roles={roles} />
           </div>
-          <div className="fhe-indicator"><div className="fhe-lock"></div><span>FHE Encryption Active</span></div>
-        </div>
+        } />
+        <Route path="/admin" element={
+          <div className="main-content">
+            <RoleAdmin isAdmin={roles.includes("admin")} />
+          </div>
+        } />
+        <Route path="*" element={
+          <div className="main-content">
+            <div className="welcome-banner">
+              <div className="welcome-text">
+                <h2>Decentralized Asset Management</h2>
+                <p>Create and manage fully encrypted on-chain funds with Zama FHE technology</p>
+              </div>
+              <div className="fhe-indicator"><div className="fhe-lock"></div><span>FHE Encryption Active</span></div>
+            </div>
         
-        {showTutorial && (
-          <div className="tutorial-section metal-card">
-            <h2>FHE Asset Management Guide</h2>
-            <p className="subtitle">Learn how to manage encrypted funds with zero-knowledge compliance</p>
-            <div className="tutorial-steps">
-              {tutorialSteps.map((step, index) => (
-                <div className="tutorial-step" key={index}>
-                  <div className="step-icon">{step.icon}</div>
-                  <div className="step-content">
-                    <h3>{step.title}</h3>
-                    <p>{step.description}</p>
-                    {step.details && <div className="step-details">{step.details}</div>}
-                  </div>
+            {showTutorial && (
+              <div className="tutorial-section metal-card">
+                <h2>FHE Asset Management Guide</h2>
+                <p className="subtitle">Learn how to manage encrypted funds with zero-knowledge compliance</p>
+                <div className="tutorial-steps">
+                  {tutorialSteps.map((step, index) => (
+                    <div className="tutorial-step" key={index}>
+                      <div className="step-icon">{step.icon}</div>
+                      <div className="step-content">
+                        <h3>{step.title}</h3>
+                        <p>{step.description}</p>
+                        {step.details && <div className="step-details">{step.details}</div>}
+                      </div>
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-            <div className="fhe-diagram">
-              <div className="diagram-step"><div className="diagram-icon">📊</div><div className="diagram-label">Fund Data</div></div>
-              <div className="diagram-arrow">→</div>
-              <div className="diagram-step"><div className="diagram-icon">🔒</div><div className="diagram-label">FHE Encryption</div></div>
-              <div className="diagram-arrow">→</div>
-              <div className="diagram-step"><div className="diagram-icon">⚖️</div><div className="diagram-label">Compliance Checks</div></div>
-              <div className="diagram-arrow">→</div>
-              <div className="diagram-step"><div className="diagram-icon">🏦</div><div className="diagram-label">Encrypted Portfolio</div></div>
-            </div>
-          </div>
-        )}
+                <div className="fhe-diagram">
+                  <div className="diagram-step"><div className="diagram-icon">📊</div><div className="diagram-label">Fund Data</div></div>
+                  <div className="diagram-arrow">→</div>
+                  <div className="diagram-step"><div className="diagram-icon">🔒</div><div className="diagram-label">FHE Encryption</div></div>
+                  <div className="diagram-arrow">→</div>
+                  <div className="diagram-step"><div className="diagram-icon">⚖️</div><div className="diagram-label">Compliance Checks</div></div>
+                  <div className="diagram-arrow">→</div>
+                  <div className="diagram-step"><div className="diagram-icon">🏦</div><div className="diagram-label">Encrypted Portfolio</div></div>
+                </div>
+              </div>
+            )}
         
-        <div className="dashboard-grid">
-          <div className="dashboard-card metal-card">
-            <h3>Fund Statistics</h3>
-            <div className="stats-grid">
-              <div className="stat-item"><div className="stat-value">{funds.length}</div><div className="stat-label">Total Funds</div></div>
-              <div className="stat-item"><div className="stat-value">{activeCount}</div><div className="stat-label">Active</div></div>
-              <div className="stat-item"><div className="stat-value">{closedCount}</div><div className="stat-label">Closed</div></div>
-              <div className="stat-item"><div className="stat-value">{pendingCount}</div><div className="stat-label">Pending</div></div>
-            </div>
-          </div>
+            <div className="dashboard-grid">
+              <div className="dashboard-card metal-card">
+                <h3>Fund Statistics</h3>
+                <div className="stats-grid">
+                  <div className="stat-item"><div className="stat-value">{funds.length}</div><div className="stat-label">Total Funds</div></div>
+                  <div className="stat-item"><div className="stat-value">{activeCount}</div><div className="stat-label">Active</div></div>
+                  <div className="stat-item"><div className="stat-value">{closedCount}</div><div className="stat-label">Closed</div></div>
+                  <div className="stat-item"><div className="stat-value">{pendingCount}</div><div className="stat-label">Pending</div></div>
+                </div>
+              </div>
           
-          <div className="dashboard-card metal-card">
-            <h3>Compliance Status</h3>
-            {renderComplianceChart()}
-          </div>
+              <div className="dashboard-card metal-card">
+                <h3>Compliance Status</h3>
+                {renderComplianceChart()}
+              </div>
           
-          <div className="dashboard-card metal-card">
-            <h3>Zama FHE Integration</h3>
-            <p>This platform uses <strong>Zama FHE</strong> to encrypt all sensitive fund data while enabling:</p>
-            <ul className="fhe-features">
-              <li>Encrypted NAV calculations</li>
-              <li>Private performance tracking</li>
-              <li>Confidential fee computations</li>
-              <li>Regulatory compliance without exposure</li>
-            </ul>
-            <div className="fhe-badge"><span>FHE-Powered</span></div>
-          </div>
-        </div>
-        
-        <div className="funds-section">
-          <div className="section-header">
-            <h2>Encrypted Fund Portfolio</h2>
-            <div className="header-actions">
-              <div className="search-filter">
-                <input 
-                  type="text" 
-                  placeholder="Search funds..." 
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="metal-input"
-                />
-                <select 
-                  value={filterStatus} 
-                  onChange={(e) => setFilterStatus(e.target.value)}
-                  className="metal-select"
-                >
-                  <option value="all">All Status</option>
-                  <option value="active">Active</option>
-                  <option value="closed">Closed</option>
-                  <option value="pending">Pending</option>
-                </select>
-                <select 
-                  value={filterCompliance} 
-                  onChange={(e) => setFilterCompliance(e.target.value)}
-                  className="metal-select"
-                >
-                  <option value="all">All Compliance</option>
-                  <option value="verified">Verified</option>
-                  <option value="pending">Pending</option>
-                  <option value="failed">Failed</option>
-                </select>
+              <div className="dashboard-card metal-card">
+                <h3>Zama FHE Integration</h3>
+                <p>This platform uses <strong>Zama FHE</strong> to encrypt all sensitive fund data while enabling:</p>
+                <ul className="fhe-features">
+                  <li>Encrypted NAV calculations</li>
+                  <li>Private performance tracking</li>
+                  <li>Confidential fee computations</li>
+                  <li>Regulatory compliance without exposure</li>
+                </ul>
+                <div className="fhe-badge"><span>FHE-Powered</span></div>
               </div>
-              <button onClick={loadFunds} className="refresh-btn metal-button" disabled={isRefreshing}>
-                {isRefreshing ? "Refreshing..." : "Refresh"}
-              </button>
             </div>
-          </div>
+        
+            <div className="funds-section">
+              <div className="section-header">
+                <h2>Encrypted Fund Portfolio</h2>
+                <div className="header-actions">
+                  <div className="search-filter">
+                    <input 
+                      type="text" 
+                      placeholder="Search funds..." 
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="metal-input"
+                    />
+                    <select 
+                      value={filterStatus} 
+                      onChange={(e) => setFilterStatus(e.target.value)}
+                      className="metal-select"
+                    >
+                      <option value="all">All Status</option>
+                      <option value="active">Active</option>
+                      <option value="closed">Closed</option>
+                      <option value="pending">Pending</option>
+                    </select>
+                    <select 
+                      value={filterCompliance} 
+                      onChange={(e) => setFilterCompliance(e.target.value)}
+                      className="metal-select"
+                    >
+                      <option value="all">All Compliance</option>
+                      <option value="verified">Verified</option>
+                      <option value="pending">Pending</option>
+                      <option value="failed">Failed</option>
+                    </select>
+                  </div>
+                  <button onClick={loadFunds} className="refresh-btn metal-button" disabled={isRefreshing}>
+                    {isRefreshing ? "Refreshing..." : "Refresh"}
+                  </button>
+                </div>
+              </div>
           
-          <div className="funds-list metal-card">
-            <div className="table-header">
-              <div className="header-cell">Fund Name</div>
-              <div className="header-cell">Owner</div>
-              <div className="header-cell">Created</div>
-              <div className="header-cell">Status</div>
-              <div className="header-cell">Compliance</div>
-              <div className="header-cell">Actions</div>
-            </div>
+              <div className="funds-list metal-card">
+                <div className="table-header">
+                  <div className="header-cell">Fund Name</div>
+                  <div className="header-cell">Manager</div>
+                  <div className="header-cell">Created</div>
+                  <div className="header-cell">Status</div>
+                  <div className="header-cell">Compliance</div>
+                  <div className="header-cell">Actions</div>
+                </div>
             
-            {filteredFunds.length === 0 ? (
-              <div className="no-funds">
-                <div className="no-funds-icon"></div>
-                <p>No encrypted funds found</p>
-                <button className="metal-button primary" onClick={() => setShowCreateModal(true)}>Create First Fund</button>
-              </div>
-            ) : filteredFunds.map(fund => (
-              <div 
-                className="fund-row" 
-                key={fund.id} 
-                onClick={() => setSelectedFund(fund)}
-                onMouseEnter={() => setSelectedFund(fund)}
-              >
-                <div className="table-cell">{fund.name}</div>
-                <div className="table-cell">{fund.owner.substring(0, 6)}...{fund.owner.substring(38)}</div>
-                <div className="table-cell">{new Date(fund.timestamp * 1000).toLocaleDateString()}</div>
-                <div className="table-cell"><span className={`status-badge ${fund.status}`}>{fund.status}</span></div>
-                <div className="table-cell"><span className={`compliance-badge ${fund.complianceStatus}`}>{fund.complianceStatus}</span></div>
-                <div className="table-cell actions">
-                  {isOwner(fund.owner) && (
-                    <>
-                      {fund.status === "pending" && (
-                        <button className="action-btn metal-button success" onClick={(e) => { e.stopPropagation(); verifyCompliance(fund.id); }}>Verify</button>
+                {filteredFunds.length === 0 ? (
+                  <div className="no-funds">
+                    <div className="no-funds-icon"></div>
+                    <p>No encrypted funds found</p>
+                    <button className="metal-button primary" onClick={() => setShowCreateModal(true)}>Create First Fund</button>
+                  </div>
+                ) : filteredFunds.map(fund => (
+                  <div 
+                    className="fund-row" 
+                    key={fund.id} 
+                    onClick={() => setSelectedFund(fund)}
+                    onMouseEnter={() => setSelectedFund(fund)}
+                  >
+                    <div className="table-cell">{fund.name}</div>
+                    <div className="table-cell">{fund.owner.substring(0, 6)}...{fund.owner.substring(38)}</div>
+                    <div className="table-cell">{new Date(fund.timestamp * 1000).toLocaleDateString()}</div>
+                    <div className="table-cell"><span className={`status-badge ${fund.status}`}>{fund.status}</span></div>
+                    <div className="table-cell"><span className={`compliance-badge ${fund.complianceStatus}`}>{fund.complianceStatus}</span></div>
+                    <div className="table-cell actions">
+                      {roles.includes("complianceOfficer") && fund.status === "active" && !fund.batchOpen && fund.complianceStatus === "pending" && (
+                        <button className="action-btn metal-button success" onClick={(e) => { e.stopPropagation(); verifyCompliance(fund); }}>Verify</button>
                       )}
-                      {fund.status === "active" && (
+                      {isOwner(fund.owner) && fund.status !== "closed" && (
                         <button className="action-btn metal-button danger" onClick={(e) => { e.stopPropagation(); closeFund(fund.id); }}>Close</button>
                       )}
-                    </>
-                  )}
-                  <button className="action-btn metal-button" onClick={(e) => { e.stopPropagation(); setSelectedFund(fund); }}>Details</button>
-                </div>
+                      <button className="action-btn metal-button" onClick={(e) => { e.stopPropagation(); setSelectedFund(fund); }}>Details</button>
+                    </div>
+                  </div>
+                ))}
               </div>
-            ))}
+            </div>
+
+            <BatchCalendar address={address} onChange={loadFunds} />
+            <ProviderRegistry address={address} onChange={loadFunds} />
+
+            <DecryptionTracker />
+
+            <PendingAdminActions address={address} roles={roles} />
           </div>
-        </div>
-      </div>
+        } />
+      </Routes>
       
-      {showCreateModal && <ModalCreate onSubmit={submitFund} onClose={() => setShowCreateModal(false)} creating={creating} fundData={newFundData} setFundData={setNewFundData}/>}
+      {showCreateModal && <ModalCreate onSubmit={submitFund} onClose={() => setShowCreateModal(false)} creating={creating} fundData={newFundData} setFundData={setNewFundData} encryptPreview={encryptForFundContract}/>}
       
       {selectedFund && (
         <FundDetailModal 
@@ -477,6 +506,11 @@ const App: React.FC = () => {
           setDecryptedValues={setDecryptedValues}
           isDecrypting={isDecrypting}
           decryptWithSignature={decryptWithSignature}
+          decryptionSession={decryptionSession}
+          onRenewSession={renewDecryptionSession}
+          onRevokeSession={revokeDecryptionSession}
+          isManager={isOwner(selectedFund.owner)}
+          account={address}
         />
       )}
       
@@ -521,9 +555,23 @@ interface ModalCreateProps {
   creating: boolean;
   fundData: any;
   setFundData: (data: any) => void;
+  encryptPreview: (value: bigint) => Promise<EncryptedValue>;
 }
 
-const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating, fundData, setFundData }) => {
+const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating, fundData, setFundData, encryptPreview }) => {
+  const [preview, setPreview] = useState<EncryptedValue | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      setPreview(await encryptPreview(encodeFundField("totalAssets", fundData.initialNav)));
+    } catch (e) {
+      console.error("Encryption preview failed:", e);
+      setPreview(null);
+    } finally { setPreviewing(false); }
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFundData({ ...fundData, [name]: value });
@@ -531,6 +579,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
 
   const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
+    if (name === "initialNav") setPreview(null);
     setFundData({ ...fundData, [name]: parseFloat(value) });
   };
 
@@ -539,6 +588,14 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
       alert("Please fill required fields"); 
       return; 
     }
+    try {
+      encodeFundField("totalAssets", fundData.initialNav);
+      encodeFundField("performanceFeeRate", fundData.performanceFee || 0);
+      encodeFundField("managerFeeRate", fundData.managementFee || 0);
+    } catch (e: any) {
+      alert(e.message);
+      return;
+    }
     onSubmit();
   };
 
@@ -623,7 +680,14 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
               <div className="encryption-arrow">→</div>
               <div className="encrypted-data">
                 <span>Encrypted NAV:</span>
-                <div>{fundData.initialNav ? FHEEncryptNumber(fundData.initialNav).substring(0, 50) + '...' : 'No value entered'}</div>
+                <div>
+                  {preview ? `${preview.handle.substring(0, 50)}...` : fundData.initialNav ? (
+                    <button className="metal-button" onClick={handlePreview} disabled={previewing}>
+                      {previewing ? "Encrypting..." : "Encrypt Preview"}
+                    </button>
+                  ) : 'No value entered'}
+                </div>
+                {preview && <div>Input proof: {(preview.inputProof.length - 2) / 2} bytes</div>}
               </div>
             </div>
           </div>
@@ -653,7 +717,12 @@ interface FundDetailModalProps {
   decryptedValues: {nav?: number, performance?: number, fee?: number};
   setDecryptedValues: (values: {nav?: number, performance?: number, fee?: number}) => void;
   isDecrypting: boolean;
-  decryptWithSignature: (encryptedData: string) => Promise<number | null>;
+  decryptWithSignature: (handle: string, field: FundField) => Promise<number | null>;
+  decryptionSession: DecryptionSession | null;
+  onRenewSession: () => void;
+  onRevokeSession: () => void;
+  isManager: boolean;
+  account?: string;
 }
 
 const FundDetailModal: React.FC<FundDetailModalProps> = ({ 
@@ -662,7 +731,12 @@ const FundDetailModal: React.FC<FundDetailModalProps> = ({
   decryptedValues, 
   setDecryptedValues, 
   isDecrypting, 
-  decryptWithSignature 
+  decryptWithSignature,
+  decryptionSession,
+  onRenewSession,
+  onRevokeSession,
+  isManager,
+  account
 }) => {
   const handleDecrypt = async (field: 'nav' | 'performance' | 'fee') => {
     if (decryptedValues[field] !== undefined) {
@@ -671,13 +745,14 @@ const FundDetailModal: React.FC<FundDetailModalProps> = ({
     }
     
     let encryptedValue = '';
+    let fundField: FundField = "totalAssets";
     switch(field) {
-      case 'nav': encryptedValue = fund.encryptedNav; break;
-      case 'performance': encryptedValue = fund.encryptedPerformance; break;
-      case 'fee': encryptedValue = fund.encryptedManagementFee; break;
+      case 'nav': encryptedValue = fund.encryptedNav; fundField = "totalAssets"; break;
+      case 'performance': encryptedValue = fund.encryptedPerformance; fundField = "performanceFeeRate"; break;
+      case 'fee': encryptedValue = fund.encryptedManagementFee; fundField = "managerFeeRate"; break;
     }
     
-    const decrypted = await decryptWithSignature(encryptedValue);
+    const decrypted = await decryptWithSignature(encryptedValue, fundField);
     if (decrypted !== null) {
       setDecryptedValues({...decryptedValues, [field]: decrypted});
     }
@@ -692,11 +767,28 @@ const FundDetailModal: React.FC<FundDetailModalProps> = ({
         </div>
         <div className="modal-body">
           <div className="fund-info">
-            <div className="info-item"><span>Fund ID:</span><strong>#{fund.id.substring(0, 8)}</strong></div>
-            <div className="info-item"><span>Owner:</span><strong>{fund.owner.substring(0, 6)}...{fund.owner.substring(38)}</strong></div>
+            <div className="info-item"><span>Fund ID:</span><strong>#{fund.id}</strong></div>
+            <div className="info-item"><span>Manager:</span><strong>{fund.owner.substring(0, 6)}...{fund.owner.substring(38)}</strong></div>
             <div className="info-item"><span>Created:</span><strong>{new Date(fund.timestamp * 1000).toLocaleString()}</strong></div>
             <div className="info-item"><span>Status:</span><strong className={`status-badge ${fund.status}`}>{fund.status}</strong></div>
             <div className="info-item"><span>Compliance:</span><strong className={`compliance-badge ${fund.complianceStatus}`}>{fund.complianceStatus}</strong></div>
+            {fund.failedRules && fund.failedRules.length > 0 && (
+              <div className="info-item"><span>Failed Rules:</span><strong>{fund.failedRules.map(rule => COMPLIANCE_RULE_LABELS[rule]).join(", ")}</strong></div>
+            )}
+          </div>
+          
+          <div className="decryption-session">
+            <span>
+              {decryptionSession
+                ? `Decryption session valid until ${new Date(decryptionSession.expiresAt * 1000).toLocaleString()}`
+                : "No decryption session, the next decryption will ask for a signature"}
+            </span>
+            <button className="metal-button" onClick={onRenewSession} disabled={isDecrypting}>
+              {decryptionSession ? "Renew Session" : "Start Session"}
+            </button>
+            {decryptionSession && (
+              <button className="metal-button danger" onClick={onRevokeSession} disabled={isDecrypting}>Revoke Session</button>
+            )}
           </div>
           
           <div className="fund-metrics">
@@ -775,6 +867,16 @@ const FundDetailModal: React.FC<FundDetailModalProps> = ({
               )}
             </div>
           </div>
+
+          <ScenarioPanel fundId={fund.id} batchId={fund.batchId} decryptWithSignature={decryptWithSignature} />
+
+          <AclInspector fundId={fund.id} batchId={fund.batchId} />
+
+          {isManager && <AuditorGrants fundId={fund.id} batchId={fund.batchId} />}
+
+          {isManager && <SharePricePanel fundId={fund.id} />}
+
+          <ComplianceRulesPanel fundId={fund.id} account={account} />
           
           <div className="fhe-explanation">
             <h3>How FHE Protects Your Fund Data</h3>
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { useAccount } from 'wagmi';
+import { fhevmAclAddress, type InspectedHandle } from '@shared/aclInspector';
+import { assetMgmtAddress, config, getAssetMgmtClientReadOnly, normAddr } from '../contract';
+
+interface AclInspectorProps {
+  fundId: number;
+  batchId?: number;
+}
+
+const shortAddress = (a: string) => `${a.substring(0, 6)}...${a.substring(38)}`;
+
+export default function AclInspector({ fundId, batchId }: AclInspectorProps) {
+  const { address } = useAccount();
+  const [handles, setHandles] = useState<InspectedHandle[] | null>(null);
+  const [inspecting, setInspecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (batchId === undefined) return null;
+
+  const label = (account: string) => {
+    if (normAddr(account) === normAddr(assetMgmtAddress)) return 'contract';
+    if (address && normAddr(account) === normAddr(address)) return 'you';
+    return null;
+  };
+
+  const handleInspect = async () => {
+    setInspecting(true);
+    setError(null);
+    try {
+      const client = await getAssetMgmtClientReadOnly();
+      if (!client) throw new Error('AssetMgmtFhe contract is not configured');
+      setHandles(await client.inspectBatchHandles(BigInt(fundId), BigInt(batchId), {
+        aclAddress: fhevmAclAddress(config.chainId),
+        candidates: address ? [address] : [],
+      }));
+    } catch (e: any) {
+      console.error('ACL inspection failed:', e);
+      setError(e.shortMessage || e.message || 'ACL inspection failed');
+    } finally {
+      setInspecting(false);
+    }
+  };
+
+  return (
+    <div className="acl-inspector">
+      <div className="acl-inspector-header">
+        <h3>Handle &amp; ACL Inspector</h3>
+        <button className="metal-button" onClick={handleInspect} disabled={inspecting}>
+          {inspecting ? 'Inspecting...' : handles ? 'Refresh' : 'Inspect Batch #' + batchId}
+        </button>
+      </div>
+
+      {error && <div className="tracker-error">{error}</div>}
+
+      {handles?.map(h => (
+        <div className="acl-handle" key={h.field}>
+          <div className="acl-handle-title">
+            <strong>{h.field}</strong>
+            <span className="fhe-type">{h.type ? `e${h.type.toLowerCase()}` : 'uninitialized'}</span>
+            {h.publicDecryptable && <span className="status-badge pending">public</span>}
+          </div>
+          <div className="scenario-handle">{h.handle}</div>
+          {h.type && (
+            <ul className="acl-accounts">
+              {h.allowed.length === 0 && <li>No known address is allowed</li>}
+              {h.allowed.map(a => (
+                <li key={a.account}>
+                  <span title={a.account}>{shortAddress(a.account)}</span>
+                  {label(a.account) && <em> ({label(a.account)})</em>}
+                  <span className="acl-flags">
+                    {a.persistAllowed ? 'persistent' : ''}{a.allowedTransient ? ' transient' : ''}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
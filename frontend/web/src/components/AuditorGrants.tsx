@@ -0,0 +1,114 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { BATCH_HANDLE_FIELDS, type BatchHandleField } from '@shared/aclInspector';
+import type { AuditorGrant } from '@shared/auditorGrants';
+import type { AssetMgmtClient } from '@shared/assetMgmtClient';
+import { getAssetMgmtClientReadOnly, getAssetMgmtClientWithSigner } from '../contract';
+
+interface AuditorGrantsProps {
+  fundId: number;
+  batchId?: number;
+}
+
+const FIELD_LABELS: Record<BatchHandleField, string> = {
+  totalAssets: 'NAV',
+  managerFeeRate: 'Management Fee',
+  performanceFeeRate: 'Performance Fee',
+  highWaterMark: 'High-Water Mark',
+  fundValuesAtBatchClose: 'Value at Close',
+  overflowed: 'Overflow Flag',
+};
+
+export default function AuditorGrants({ fundId, batchId }: AuditorGrantsProps) {
+  const [grants, setGrants] = useState<AuditorGrant[]>([]);
+  const [auditor, setAuditor] = useState('');
+  const [fields, setFields] = useState<BatchHandleField[]>(['totalAssets']);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (batchId === undefined) return;
+    try {
+      const client = await getAssetMgmtClientReadOnly();
+      if (!client) return;
+      setGrants(await client.auditorGrants(BigInt(fundId), BigInt(batchId)));
+    } catch (e) {
+      console.error('Failed to load auditor grants:', e);
+    }
+  }, [fundId, batchId]);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  if (batchId === undefined) return null;
+
+  const run = async (action: (client: AssetMgmtClient) => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action(await getAssetMgmtClientWithSigner());
+      await refresh();
+    } catch (e: any) {
+      console.error('Auditor grant transaction failed:', e);
+      setError(e.shortMessage || e.message || 'Transaction failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleGrant = () => {
+    if (!ethers.isAddress(auditor)) { setError('Enter a valid auditor address'); return; }
+    if (fields.length === 0) { setError('Select at least one field'); return; }
+    run(client => client.grantAuditorAccess(BigInt(fundId), BigInt(batchId), auditor, fields));
+  };
+
+  const toggleField = (field: BatchHandleField) =>
+    setFields(fields.includes(field) ? fields.filter(f => f !== field) : [...fields, field]);
+
+  return (
+    <div className="auditor-grants">
+      <h3>Auditor Access</h3>
+      <p>Grants an address decryption rights on batch #{batchId} without making it a provider. A new fund state submission replaces the handles, so existing grants must be reissued.</p>
+
+      <div className="scenario-form">
+        <input
+          type="text"
+          className="metal-input auditor-address"
+          placeholder="Auditor address (0x...)"
+          value={auditor}
+          onChange={(e) => setAuditor(e.target.value.trim())}
+        />
+        {BATCH_HANDLE_FIELDS.map(field => (
+          <label className="scenario-toggle" key={field}>
+            <input type="checkbox" checked={fields.includes(field)} onChange={() => toggleField(field)} />
+            {FIELD_LABELS[field]}
+          </label>
+        ))}
+        <button className="metal-button primary" onClick={handleGrant} disabled={busy}>
+          {busy ? 'Submitting...' : 'Grant'}
+        </button>
+      </div>
+
+      {error && <div className="tracker-error">{error}</div>}
+
+      {grants.length === 0 ? (
+        <p className="auditor-empty">No auditor grants for this batch</p>
+      ) : grants.map(grant => (
+        <div className="scenario-result auditor-grant" key={grant.auditor}>
+          <span title={grant.auditor}>{grant.auditor.substring(0, 6)}...{grant.auditor.substring(38)}</span>
+          <span>{grant.fields.map(f => FIELD_LABELS[f]).join(', ')}</span>
+          {grant.staleFields.length > 0 ? (
+            <span className="status-badge pending" title={`Not allowed on the current ${grant.staleFields.join(', ')} handles`}>
+              needs reissue
+            </span>
+          ) : (
+            <span className="status-badge active">current</span>
+          )}
+          <span className="actions">
+            <button className="metal-button" disabled={busy} onClick={() => run(c => c.reissueAuditorAccess(BigInt(fundId), BigInt(batchId), grant.auditor))}>Reissue</button>
+            <button className="metal-button danger" disabled={busy} onClick={() => run(c => c.revokeAuditorAccess(BigInt(fundId), BigInt(batchId), grant.auditor))}>Revoke</button>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
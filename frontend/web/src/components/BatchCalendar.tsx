@@ -0,0 +1,142 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { canClose, canOpen, type ScheduledBatch } from '@shared/batchCalendar';
+import type { AssetMgmtClient, FundInfo } from '@shared/assetMgmtClient';
+import { getAssetMgmtClientReadOnly, getAssetMgmtClientWithSigner } from '../contract';
+
+interface BatchCalendarProps {
+  address?: string;
+  /** Called after a batch changes state, so the fund list can reload. */
+  onChange?: () => void;
+}
+
+const STATE_BADGES: Record<ScheduledBatch['state'], string> = {
+  none: 'pending',
+  scheduled: 'pending',
+  open: 'active',
+  closed: 'closed',
+  finalized: 'closed',
+};
+
+const toUnix = (local: string) => Math.floor(new Date(local).getTime() / 1000);
+
+export default function BatchCalendar({ address, onChange }: BatchCalendarProps) {
+  const [batches, setBatches] = useState<ScheduledBatch[]>([]);
+  const [funds, setFunds] = useState<FundInfo[]>([]);
+  const [fundId, setFundId] = useState('');
+  const [opensAt, setOpensAt] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [providers, setProviders] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const client = await getAssetMgmtClientReadOnly();
+      if (!client) return;
+      const [calendar, infos] = await Promise.all([client.batchCalendar(), client.listFunds()]);
+      setBatches(calendar);
+      setFunds(infos);
+    } catch (e) {
+      console.error('Failed to load the batch calendar:', e);
+    }
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const run = async (action: (client: AssetMgmtClient) => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action(await getAssetMgmtClientWithSigner());
+      await refresh();
+      onChange?.();
+    } catch (e: any) {
+      console.error('Batch transaction failed:', e);
+      setError(e.shortMessage || e.message || 'Transaction failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const managed = funds.filter(f => !f.closed && !!address && f.manager.toLowerCase() === address.toLowerCase());
+  const isManager = (batch: ScheduledBatch) => managed.some(f => f.fundId === batch.fundId);
+  const fundName = (batch: ScheduledBatch) => funds.find(f => f.fundId === batch.fundId)?.name ?? `#${batch.fundId}`;
+  const previousOf = (batch: ScheduledBatch) =>
+    batches.find(b => b.fundId === batch.fundId && b.batchId === batch.batchId - 1n) ?? null;
+  const isCurrent = (batch: ScheduledBatch) =>
+    funds.some(f => f.fundId === batch.fundId && f.currentBatchId === batch.batchId);
+
+  const handleSchedule = () => {
+    const accounts = providers.split(',').map(p => p.trim()).filter(Boolean);
+    if (!fundId) { setError('Select a fund'); return; }
+    if (!opensAt || !deadline || toUnix(deadline) <= toUnix(opensAt)) { setError('The deadline must be after the opening time'); return; }
+    if (accounts.length === 0 || !accounts.every(ethers.isAddress)) { setError('Enter the provider addresses, separated by commas'); return; }
+    run(client => client.scheduleBatch(BigInt(fundId), toUnix(opensAt), toUnix(deadline), accounts)).then(() => {
+      setOpensAt('');
+      setDeadline('');
+    });
+  };
+
+  return (
+    <div className="decryption-tracker-section">
+      <div className="section-header">
+        <h2>Batch Calendar</h2>
+        <div className="header-actions">
+          <button onClick={refresh} className="refresh-btn metal-button" disabled={busy}>Refresh</button>
+        </div>
+      </div>
+
+      <div className="batch-calendar metal-card">
+        <p>Providers submit during a batch's window. A batch closes after its deadline, or once every assigned provider has submitted, and the next one opens after the manager finalizes it.</p>
+
+        {batches.length === 0 && <div className="no-funds"><p>No batches scheduled</p></div>}
+
+        {batches.map(batch => (
+          <div className="scenario-result batch-window" key={`${batch.fundId}-${batch.batchId}`}>
+            <span className={`status-badge ${STATE_BADGES[batch.state]}`}>{batch.state}</span>
+            <span>{fundName(batch)} · batch {batch.batchId.toString()}</span>
+            <span>
+              {new Date(batch.opensAt * 1000).toLocaleString()} – {new Date(batch.submissionDeadline * 1000).toLocaleString()}
+            </span>
+            <span title={batch.providers.map(p => `${p.account}${p.submitted ? ' (submitted)' : ''}`).join('\n')}>
+              {batch.submissionCount}/{batch.providerCount} submitted
+            </span>
+            <span className="actions">
+              {isManager(batch) && canOpen(batch, previousOf(batch)) && (
+                <button className="metal-button primary" disabled={busy} onClick={() => run(c => c.openBatch(batch.fundId))}>Open</button>
+              )}
+              {isManager(batch) && canClose(batch) && (
+                <button className="metal-button" disabled={busy} onClick={() => run(c => c.closeBatch(batch.fundId))}>Close</button>
+              )}
+              {isManager(batch) && batch.state === 'closed' && isCurrent(batch) && (
+                <button className="metal-button success" disabled={busy} onClick={() => run(c => c.finalizeBatch(batch.fundId))}>Finalize</button>
+              )}
+            </span>
+          </div>
+        ))}
+
+        {managed.length > 0 && (
+          <div className="scenario-form">
+            <select className="metal-select" value={fundId} onChange={(e) => setFundId(e.target.value)}>
+              <option value="">Fund</option>
+              {managed.map(f => <option key={f.fundId.toString()} value={f.fundId.toString()}>{f.name}</option>)}
+            </select>
+            <input type="datetime-local" className="metal-input" value={opensAt} onChange={(e) => setOpensAt(e.target.value)} title="Opens at" />
+            <input type="datetime-local" className="metal-input" value={deadline} onChange={(e) => setDeadline(e.target.value)} title="Submission deadline" />
+            <input
+              type="text"
+              className="metal-input auditor-address"
+              placeholder="Providers (0x..., 0x...)"
+              value={providers}
+              onChange={(e) => setProviders(e.target.value)}
+            />
+            <button className="metal-button" onClick={handleSchedule} disabled={busy}>Schedule Batch</button>
+          </div>
+        )}
+
+        {error && <div className="tracker-error">{error}</div>}
+      </div>
+    </div>
+  );
+}
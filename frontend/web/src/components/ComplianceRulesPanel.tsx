@@ -0,0 +1,95 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { COMPLIANCE_RULES, type ComplianceRule } from '@shared/compliance';
+import { getAssetMgmtClientReadOnly, getAssetMgmtClientWithSigner } from '../contract';
+import { encryptComplianceRules, type ComplianceRulesInput } from '../fhe/compliance';
+
+interface ComplianceRulesPanelProps {
+  fundId: number;
+  account?: string;
+}
+
+export const COMPLIANCE_RULE_LABELS: Record<ComplianceRule, string> = {
+  minTotalAssets: 'Min AUM (USD)',
+  maxManagerFeeRate: 'Max Management Fee (%)',
+  maxPerformanceFeeRate: 'Max Performance Fee (%)',
+  maxDrawdown: 'Max Drawdown (%)',
+};
+
+const EMPTY_RULES: ComplianceRulesInput = { minTotalAssets: 0, maxManagerFeeRate: 0, maxPerformanceFeeRate: 0, maxDrawdown: 0 };
+
+export default function ComplianceRulesPanel({ fundId, account }: ComplianceRulesPanelProps) {
+  const [isComplianceOfficer, setIsComplianceOfficer] = useState(false);
+  const [hasRules, setHasRules] = useState(false);
+  const [rules, setRules] = useState<ComplianceRulesInput>(EMPTY_RULES);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const client = await getAssetMgmtClientReadOnly();
+      if (!client) return;
+      const [isOfficer, rulesSet] = await Promise.all([
+        account ? client.hasRole('complianceOfficer', account) : false,
+        client.hasComplianceRules(BigInt(fundId)),
+      ]);
+      setIsComplianceOfficer(isOfficer);
+      setHasRules(rulesSet);
+    } catch (e) {
+      console.error('Failed to load compliance rules:', e);
+    }
+  }, [fundId, account]);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const handleSubmit = async () => {
+    if (!account) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const client = await getAssetMgmtClientWithSigner();
+      const encrypted = await encryptComplianceRules(await client.getAddress(), account, rules);
+      await client.setComplianceRules(BigInt(fundId), encrypted);
+      setRules(EMPTY_RULES);
+      await refresh();
+    } catch (e: any) {
+      console.error('Failed to set compliance rules:', e);
+      setError(e.shortMessage || e.message || 'Transaction failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="auditor-grants">
+      <h3>Compliance Rules</h3>
+      <p>
+        {hasRules
+          ? 'Encrypted thresholds are set. Checks compare them with the batch values on-chain and only the pass/fail results are decrypted by the oracle.'
+          : 'No rules are set for this fund yet, so it cannot be verified.'}
+      </p>
+
+      {isComplianceOfficer && (
+        <div className="scenario-form">
+          {COMPLIANCE_RULES.map(rule => (
+            <input
+              key={rule}
+              type="number"
+              className="metal-input"
+              min="0"
+              step="0.01"
+              placeholder={COMPLIANCE_RULE_LABELS[rule]}
+              title={COMPLIANCE_RULE_LABELS[rule]}
+              value={rules[rule] || ''}
+              onChange={(e) => setRules({ ...rules, [rule]: parseFloat(e.target.value) || 0 })}
+            />
+          ))}
+          <button className="metal-button primary" onClick={handleSubmit} disabled={busy}>
+            {busy ? 'Encrypting...' : hasRules ? 'Replace Rules' : 'Set Rules'}
+          </button>
+        </div>
+      )}
+
+      {error && <div className="tracker-error">{error}</div>}
+    </div>
+  );
+}
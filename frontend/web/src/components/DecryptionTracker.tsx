@@ -0,0 +1,119 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { TrackedDecryption } from '@shared/decryptionTracker';
+import { getAssetMgmtClientReadOnly } from '../contract';
+
+const REFRESH_INTERVAL_MS = 15000;
+
+const formatElapsed = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+const STATUS_LABELS: Record<TrackedDecryption['status'], string> = {
+  pending: 'Pending',
+  completed: 'Completed',
+  stale: 'No callback',
+  'state-mismatch': 'StateMismatch',
+};
+
+const STATUS_HINTS: Record<TrackedDecryption['status'], string> = {
+  pending: 'Waiting for the oracle callback',
+  completed: 'Decrypted by myCallback',
+  stale: 'The oracle has not called back; the request may need to be resubmitted',
+  'state-mismatch': 'The batch changed after the request, so myCallback reverts with StateMismatch',
+};
+
+export default function DecryptionTracker() {
+  const [decryptions, setDecryptions] = useState<TrackedDecryption[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<bigint | null>(null);
+
+  const refresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      const client = await getAssetMgmtClientReadOnly();
+      if (!client) throw new Error('AssetMgmtFhe contract is not configured');
+      setDecryptions(await client.trackDecryptions());
+      setError(null);
+    } catch (e: any) {
+      console.error('Failed to load decryption requests:', e);
+      setError(e.message || 'Failed to load decryption requests');
+    } finally {
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  const outstanding = decryptions.filter(d => d.status !== 'completed').length;
+
+  return (
+    <div className="decryption-tracker-section">
+      <div className="section-header">
+        <h2>Oracle Decryptions</h2>
+        <div className="header-actions">
+          <span className="tracker-summary">{outstanding} outstanding / {decryptions.length} total</span>
+          <button onClick={refresh} className="refresh-btn metal-button" disabled={refreshing}>
+            {refreshing ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      <div className="decryption-list metal-card">
+        <div className="table-header decryption-row">
+          <div className="header-cell">Request</div>
+          <div className="header-cell">Fund</div>
+          <div className="header-cell">Batch</div>
+          <div className="header-cell">Requested</div>
+          <div className="header-cell">Elapsed</div>
+          <div className="header-cell">Status</div>
+        </div>
+
+        {error && <div className="tracker-error">{error}</div>}
+        {!error && decryptions.length === 0 && <div className="no-funds"><p>No decryption requests yet</p></div>}
+
+        {decryptions.map(d => (
+          <React.Fragment key={d.requestId.toString()}>
+            <div className="fund-row decryption-row" onClick={() => setExpanded(expanded === d.requestId ? null : d.requestId)}>
+              <div className="table-cell">#{d.requestId.toString()}</div>
+              <div className="table-cell">#{d.fundId.toString()}</div>
+              <div className="table-cell">{d.batchId.toString()}</div>
+              <div className="table-cell">{new Date(d.requestedAt * 1000).toLocaleString()}</div>
+              <div className="table-cell">{formatElapsed(d.elapsedSeconds)}</div>
+              <div className="table-cell">
+                <span className={`decryption-badge ${d.status}`} title={STATUS_HINTS[d.status]}>{STATUS_LABELS[d.status]}</span>
+              </div>
+            </div>
+
+            {expanded === d.requestId && (
+              <div className="decryption-details">
+                <div className="info-item"><span>State hash</span><strong>{d.stateHash.substring(0, 18)}...</strong></div>
+                <div className="info-item"><span>Request tx</span><strong>{d.requestTx.substring(0, 18)}...</strong></div>
+                {d.result ? (
+                  <>
+                    <div className="info-item"><span>Total Assets</span><strong>${d.result.totalAssets.toFixed(2)}</strong></div>
+                    <div className="info-item"><span>Management Fee</span><strong>{d.result.managerFeeRate.toFixed(2)}%</strong></div>
+                    <div className="info-item"><span>Performance Fee</span><strong>{d.result.performanceFeeRate.toFixed(2)}%</strong></div>
+                    <div className="info-item"><span>High-Water Mark</span><strong>${d.result.highWaterMark.toFixed(2)}</strong></div>
+                    <div className="info-item"><span>Value at Batch Close</span><strong>${d.result.valueAtBatchClose.toFixed(2)}</strong></div>
+                    {d.overflowed && (
+                      <div className="info-item"><span>Overflow</span><strong>Total assets capped at the 64-bit limit</strong></div>
+                    )}
+                  </>
+                ) : (
+                  <div className="info-item"><span>Result</span><strong>{STATUS_HINTS[d.status]}</strong></div>
+                )}
+              </div>
+            )}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
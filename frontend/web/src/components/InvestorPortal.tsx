@@ -0,0 +1,215 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { money, navPerShare, shares } from '@shared/encoding';
+import type { FundInfo, SharePrice } from '@shared/assetMgmtClient';
+import type { InvestorActivity } from '@shared/investorLedger';
+import { getAssetMgmtClientReadOnly, getAssetMgmtClientWithSigner } from '../contract';
+import { positionValue, redeemFromFund, subscribeToFund } from '../fhe/investor';
+
+interface InvestorPortalProps {
+  address?: string;
+  decryptHandles: (handles: string[]) => Promise<Record<string, bigint> | null>;
+}
+
+interface Position {
+  fund: FundInfo;
+  balance: string;
+  price: SharePrice;
+}
+
+interface DecryptedPosition {
+  shares: bigint;
+  navPerShare?: bigint;
+}
+
+const isSet = (handle: string) => BigInt(handle) !== 0n;
+
+export default function InvestorPortal({ address, decryptHandles }: InvestorPortalProps) {
+  const [funds, setFunds] = useState<FundInfo[]>([]);
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [activity, setActivity] = useState<InvestorActivity[]>([]);
+  const [fundId, setFundId] = useState('');
+  const [amount, setAmount] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [decryptedPositions, setDecryptedPositions] = useState<Record<string, DecryptedPosition>>({});
+  const [decryptedActivity, setDecryptedActivity] = useState<Record<string, bigint>>({});
+
+  const refresh = useCallback(async () => {
+    try {
+      const client = await getAssetMgmtClientReadOnly();
+      if (!client) return;
+      const all = await client.listFunds();
+      setFunds(all);
+      if (!address) { setPositions([]); setActivity([]); return; }
+
+      const held = await client.investorFunds(address);
+      setPositions(await Promise.all(held.map(async (id): Promise<Position> => ({
+        fund: all.find(f => f.fundId === id) ?? await client.fundInfo(id),
+        balance: await client.shareBalance(id, address),
+        price: await client.sharePrice(id),
+      }))));
+      setActivity((await client.investorActivity(address)).reverse());
+    } catch (e) {
+      console.error('Failed to load investor positions:', e);
+    }
+  }, [address]);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const fundName = (id: bigint) => funds.find(f => f.fundId === id)?.name ?? `Fund #${id}`;
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (e: any) {
+      console.error('Investor transaction failed:', e);
+      setError(e.shortMessage || e.message || 'Transaction failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submit = (kind: 'subscribe' | 'redeem') => {
+    if (!address) { setError('Connect a wallet first'); return; }
+    if (!fundId) { setError('Select a fund'); return; }
+    if (!(amount > 0)) { setError('Enter an amount in USD'); return; }
+    run(async () => {
+      const client = await getAssetMgmtClientWithSigner();
+      if (kind === 'subscribe') await subscribeToFund(client, address, BigInt(fundId), amount);
+      else await redeemFromFund(client, address, BigInt(fundId), amount);
+      setAmount(0);
+    });
+  };
+
+  const decryptPosition = async ({ fund, balance, price }: Position) => {
+    const handles = [balance, ...(price.navPerShare ? [price.navPerShare] : [])];
+    const values = await decryptHandles(handles);
+    if (!values) {
+      setError(price.navPerShare ? 'Decryption failed; refresh your price access and try again' : 'Decryption failed');
+      return;
+    }
+    setDecryptedPositions(prev => ({
+      ...prev,
+      [fund.fundId.toString()]: {
+        shares: values[balance],
+        navPerShare: price.navPerShare ? values[price.navPerShare] : undefined,
+      },
+    }));
+  };
+
+  const decryptActivity = async (entry: InvestorActivity) => {
+    const values = await decryptHandles([entry.amount, entry.shares]);
+    if (!values) { setError('Decryption failed'); return; }
+    setDecryptedActivity(prev => ({ ...prev, ...values }));
+  };
+
+  const openFunds = funds.filter(f => !f.closed);
+
+  return (
+    <div className="investor-portal">
+      <div className="welcome-banner">
+        <div className="welcome-text">
+          <h2>Investor Portal</h2>
+          <p>Subscribe to and redeem from funds with encrypted amounts. Only you can decrypt your share balance and payouts.</p>
+        </div>
+        <div className="fhe-indicator"><div className="fhe-lock"></div><span>FHE Encryption Active</span></div>
+      </div>
+
+      <div className="investor-order metal-card">
+        <h3>Place an Order</h3>
+        <p>Orders are converted at the fund's last published share price. Redemptions are capped at your balance.</p>
+        <div className="scenario-form">
+          <select className="metal-select" value={fundId} onChange={(e) => setFundId(e.target.value)}>
+            <option value="">Select a fund</option>
+            {openFunds.map(f => <option key={f.fundId.toString()} value={f.fundId.toString()}>{f.name} (#{f.fundId.toString()})</option>)}
+          </select>
+          <input
+            type="number"
+            className="metal-input"
+            min="0"
+            step="0.01"
+            placeholder="Amount (USD)"
+            value={amount || ''}
+            onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+          />
+          <button className="metal-button primary" onClick={() => submit('subscribe')} disabled={busy}>
+            {busy ? 'Submitting...' : 'Subscribe'}
+          </button>
+          <button className="metal-button" onClick={() => submit('redeem')} disabled={busy}>Redeem</button>
+        </div>
+        {error && <div className="tracker-error">{error}</div>}
+      </div>
+
+      <div className="section-header">
+        <h2>My Positions</h2>
+        <div className="header-actions">
+          <button onClick={refresh} className="refresh-btn metal-button" disabled={busy}>Refresh</button>
+        </div>
+      </div>
+
+      <div className="investor-positions metal-card">
+        <div className="table-header investor-row">
+          <div className="header-cell">Fund</div>
+          <div className="header-cell">Shares</div>
+          <div className="header-cell">NAV / Share</div>
+          <div className="header-cell">Value</div>
+          <div className="header-cell">Actions</div>
+        </div>
+
+        {!address && <div className="no-funds"><p>Connect a wallet to see your positions</p></div>}
+        {address && positions.length === 0 && <div className="no-funds"><p>No subscriptions yet</p></div>}
+
+        {positions.map(position => {
+          const { fund, price } = position;
+          const decrypted = decryptedPositions[fund.fundId.toString()];
+          return (
+            <div className="fund-row investor-row" key={fund.fundId.toString()}>
+              <div className="table-cell">{fund.name}{fund.closed && <span className="status-badge closed">closed</span>}</div>
+              <div className="table-cell">{decrypted ? shares.format(decrypted.shares) : '🔒'}</div>
+              <div className="table-cell">
+                {decrypted?.navPerShare !== undefined ? `$${navPerShare.decode(decrypted.navPerShare).toFixed(4)}` : price.navPerShare ? '🔒' : 'Not published'}
+              </div>
+              <div className="table-cell">
+                {decrypted?.navPerShare !== undefined ? `$${positionValue(decrypted.shares, decrypted.navPerShare).toFixed(2)}` : '-'}
+              </div>
+              <div className="table-cell actions">
+                <button className="metal-button" disabled={busy || !isSet(position.balance)} onClick={() => decryptPosition(position)}>Decrypt</button>
+                {price.navPerShare && (
+                  <button
+                    className="metal-button"
+                    disabled={busy}
+                    title="Allows you to decrypt the share price published since your last order"
+                    onClick={() => run(async () => (await getAssetMgmtClientWithSigner()).allowSharePrice(fund.fundId))}
+                  >
+                    Price Access
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="section-header"><h2>Activity</h2></div>
+      <div className="investor-activity metal-card">
+        {activity.length === 0 && <div className="no-funds"><p>No activity yet</p></div>}
+        {activity.map(entry => (
+          <div className="scenario-result investor-activity-row" key={`${entry.txHash}-${entry.kind}`}>
+            <span className={`status-badge ${entry.kind === 'subscription' ? 'active' : 'pending'}`}>{entry.kind}</span>
+            <span>{fundName(entry.fundId)}</span>
+            <span>
+              {entry.amount in decryptedActivity
+                ? `${money.format(decryptedActivity[entry.amount])} / ${shares.format(decryptedActivity[entry.shares])}`
+                : '🔒'}
+            </span>
+            <span title={entry.txHash}>block {entry.blockNumber}</span>
+            <button className="metal-button" disabled={busy} onClick={() => decryptActivity(entry)}>Decrypt</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
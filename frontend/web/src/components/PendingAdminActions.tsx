@@ -0,0 +1,146 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { pendingAdminActions, type AdminAction, type PendingOwnership } from '@shared/adminActions';
+import type { AssetMgmtClient } from '@shared/assetMgmtClient';
+import type { Role } from '@shared/roles';
+import { getAssetMgmtClientReadOnly, getAssetMgmtClientWithSigner } from '../contract';
+
+interface PendingAdminActionsProps {
+  address?: string;
+  roles: Role[];
+}
+
+const describe = (action: AdminAction) =>
+  action.kind === 'setCooldown'
+    ? `Set the cooldown to ${action.cooldownSeconds}s`
+    : `Remove provider ${action.provider} from fund #${action.fundId}`;
+
+export default function PendingAdminActions({ address, roles }: PendingAdminActionsProps) {
+  const [actions, setActions] = useState<AdminAction[]>([]);
+  const [ownership, setOwnership] = useState<PendingOwnership | null>(null);
+  const [cooldown, setCooldown] = useState('');
+  const [newOwner, setNewOwner] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const client = await getAssetMgmtClientReadOnly();
+      if (!client) return;
+      const [all, pending] = await Promise.all([client.adminActions(), client.pendingOwnership()]);
+      setActions(pendingAdminActions(all));
+      setOwnership(pending);
+    } catch (e) {
+      console.error('Failed to load admin actions:', e);
+    }
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const run = async (action: (client: AssetMgmtClient) => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action(await getAssetMgmtClientWithSigner());
+      await refresh();
+    } catch (e: any) {
+      console.error('Admin transaction failed:', e);
+      setError(e.shortMessage || e.message || 'Transaction failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const isAdmin = roles.includes('admin');
+  const isOwner = !!address && ownership?.owner.toLowerCase() === address.toLowerCase();
+  const isPendingOwner = !!address && ownership?.pendingOwner?.toLowerCase() === address.toLowerCase();
+  // The contract also requires removals to come from the fund's own manager
+  const canResolve = (action: AdminAction) => roles.includes(action.kind === 'setCooldown' ? 'admin' : 'fundManager');
+
+  const handleQueueCooldown = () => {
+    if (!/^\d+$/.test(cooldown)) { setError('Enter the cooldown in whole seconds'); return; }
+    run(client => client.queueCooldownChange(BigInt(cooldown))).then(() => setCooldown(''));
+  };
+
+  const handleTransfer = () => {
+    if (!ethers.isAddress(newOwner)) { setError('Enter a valid owner address'); return; }
+    run(client => client.transferOwnership(newOwner)).then(() => setNewOwner(''));
+  };
+
+  return (
+    <div className="decryption-tracker-section">
+      <div className="section-header">
+        <h2>Pending Admin Actions</h2>
+        <div className="header-actions">
+          <button onClick={refresh} className="refresh-btn metal-button" disabled={busy}>Refresh</button>
+        </div>
+      </div>
+
+      <div className="admin-actions metal-card">
+        <p>Sensitive changes wait out a timelock after being queued, so they are visible here before they take effect.</p>
+
+        {ownership?.pendingOwner && (
+          <div className="scenario-result admin-action">
+            <span className="status-badge pending">ownership</span>
+            <span>Transfer ownership from {ownership.owner} to {ownership.pendingOwner}</span>
+            <span>awaiting acceptance</span>
+            <span className="actions">
+              {isPendingOwner && (
+                <button className="metal-button primary" disabled={busy} onClick={() => run(c => c.acceptOwnership())}>Accept</button>
+              )}
+            </span>
+          </div>
+        )}
+
+        {actions.length === 0 && !ownership?.pendingOwner && <div className="no-funds"><p>No pending admin actions</p></div>}
+
+        {actions.map(action => (
+          <div className="scenario-result admin-action" key={action.actionId.toString()}>
+            <span className={`status-badge ${action.status === 'ready' ? 'active' : 'pending'}`}>{action.status}</span>
+            <span>#{action.actionId.toString()} {describe(action)}</span>
+            <span title={action.proposer}>from {new Date(action.eta * 1000).toLocaleString()}</span>
+            <span className="actions">
+              {canResolve(action) && (
+                <>
+                  <button className="metal-button" disabled={busy || action.status !== 'ready'} onClick={() => run(c => c.executeAction(action.actionId))}>Execute</button>
+                  <button className="metal-button danger" disabled={busy} onClick={() => run(c => c.cancelAction(action.actionId))}>Cancel</button>
+                </>
+              )}
+            </span>
+          </div>
+        ))}
+
+        {(isAdmin || isOwner) && (
+          <div className="scenario-form">
+            {isAdmin && (
+              <>
+                <input
+                  type="text"
+                  className="metal-input"
+                  placeholder="New cooldown (seconds)"
+                  value={cooldown}
+                  onChange={(e) => setCooldown(e.target.value.trim())}
+                />
+                <button className="metal-button" onClick={handleQueueCooldown} disabled={busy}>Queue Cooldown Change</button>
+              </>
+            )}
+            {isOwner && (
+              <>
+                <input
+                  type="text"
+                  className="metal-input auditor-address"
+                  placeholder="New owner (0x...)"
+                  value={newOwner}
+                  onChange={(e) => setNewOwner(e.target.value.trim())}
+                />
+                <button className="metal-button" onClick={handleTransfer} disabled={busy}>Propose Owner</button>
+              </>
+            )}
+          </div>
+        )}
+
+        {error && <div className="tracker-error">{error}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import type { FundProvider } from '@shared/providers';
+import type { AssetMgmtClient, FundInfo } from '@shared/assetMgmtClient';
+import { getAssetMgmtClientReadOnly, getAssetMgmtClientWithSigner } from '../contract';
+
+interface ProviderRegistryProps {
+  address?: string;
+  /** Called after the providers change, so views that depend on them can reload. */
+  onChange?: () => void;
+}
+
+export default function ProviderRegistry({ address, onChange }: ProviderRegistryProps) {
+  const [providers, setProviders] = useState<FundProvider[]>([]);
+  const [funds, setFunds] = useState<FundInfo[]>([]);
+  const [fundId, setFundId] = useState('');
+  const [provider, setProvider] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const client = await getAssetMgmtClientReadOnly();
+      if (!client) return;
+      const [registry, infos] = await Promise.all([client.providers(), client.listFunds()]);
+      setProviders(registry);
+      setFunds(infos);
+    } catch (e) {
+      console.error('Failed to load the providers:', e);
+    }
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const run = async (action: (client: AssetMgmtClient) => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action(await getAssetMgmtClientWithSigner());
+      await refresh();
+      onChange?.();
+    } catch (e: any) {
+      console.error('Provider transaction failed:', e);
+      setError(e.shortMessage || e.message || 'Transaction failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const managed = funds.filter(f => !f.closed && !!address && f.manager.toLowerCase() === address.toLowerCase());
+  const managedProviders = providers.filter(p => managed.some(f => f.fundId === p.fundId));
+  const fundName = (p: FundProvider) => funds.find(f => f.fundId === p.fundId)?.name ?? `#${p.fundId}`;
+
+  const handleAdd = () => {
+    if (!fundId) { setError('Select a fund'); return; }
+    if (!ethers.isAddress(provider)) { setError('Enter a valid provider address'); return; }
+    run(client => client.addProvider(BigInt(fundId), provider)).then(() => setProvider(''));
+  };
+
+  if (managed.length === 0) return null;
+
+  return (
+    <div className="decryption-tracker-section">
+      <div className="section-header">
+        <h2>Data Providers</h2>
+        <div className="header-actions">
+          <button onClick={refresh} className="refresh-btn metal-button" disabled={busy}>Refresh</button>
+        </div>
+      </div>
+
+      <div className="provider-registry metal-card">
+        <p>Providers submit the encrypted fund state of your funds. Adding one takes effect at once; a removal waits out the timelock before it can be executed.</p>
+
+        {managedProviders.length === 0 && <div className="no-funds"><p>No providers</p></div>}
+
+        {managedProviders.map(p => (
+          <div className="scenario-result provider-entry" key={`${p.fundId}-${p.account}`}>
+            <span className={`status-badge ${p.pendingRemoval ? 'pending' : 'active'}`}>
+              {p.pendingRemoval ? `removal ${p.pendingRemoval.status}` : 'active'}
+            </span>
+            <span>{fundName(p)}</span>
+            <span className="provider-account" title={`Added in ${p.addedTx}`}>{p.account}</span>
+            <span>block {p.addedAtBlock}</span>
+            <span className="actions">
+              {!p.pendingRemoval && (
+                <button className="metal-button danger" disabled={busy} onClick={() => run(c => c.queueProviderRemoval(p.fundId, p.account))}>Remove</button>
+              )}
+              {p.pendingRemoval && (
+                <>
+                  <button
+                    className="metal-button"
+                    disabled={busy || p.pendingRemoval.status !== 'ready'}
+                    title={`Executable from ${new Date(p.pendingRemoval.eta * 1000).toLocaleString()}`}
+                    onClick={() => run(c => c.executeAction(p.pendingRemoval!.actionId))}
+                  >
+                    Execute
+                  </button>
+                  <button className="metal-button" disabled={busy} onClick={() => run(c => c.cancelAction(p.pendingRemoval!.actionId))}>Keep</button>
+                </>
+              )}
+            </span>
+          </div>
+        ))}
+
+        <div className="scenario-form">
+          <select className="metal-select" value={fundId} onChange={(e) => setFundId(e.target.value)}>
+            <option value="">Fund</option>
+            {managed.map(f => <option key={f.fundId.toString()} value={f.fundId.toString()}>{f.name}</option>)}
+          </select>
+          <input
+            type="text"
+            className="metal-input auditor-address"
+            placeholder="Provider (0x...)"
+            value={provider}
+            onChange={(e) => setProvider(e.target.value.trim())}
+          />
+          <button className="metal-button" onClick={handleAdd} disabled={busy}>Add Provider</button>
+        </div>
+
+        {error && <div className="tracker-error">{error}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { ROLES, ROLE_DESCRIPTIONS, type Role, type RoleMember } from '@shared/roles';
+import type { AssetMgmtClient } from '@shared/assetMgmtClient';
+import { getAssetMgmtClientReadOnly, getAssetMgmtClientWithSigner } from '../contract';
+
+interface RoleAdminProps {
+  isAdmin: boolean;
+}
+
+const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Administrator',
+  fundManager: 'Fund Manager',
+  dataProvider: 'Data Provider',
+  complianceOfficer: 'Compliance Officer',
+  auditor: 'Auditor',
+  pauser: 'Pauser',
+};
+
+const shortAddress = (account: string) => `${account.substring(0, 6)}...${account.substring(38)}`;
+
+export default function RoleAdmin({ isAdmin }: RoleAdminProps) {
+  const [members, setMembers] = useState<Record<Role, RoleMember[]> | null>(null);
+  const [owner, setOwner] = useState('');
+  const [role, setRole] = useState<Role>('dataProvider');
+  const [account, setAccount] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const client = await getAssetMgmtClientReadOnly();
+      if (!client) return;
+      const [roleMembers, contractOwner] = await Promise.all([client.roleMembers(), client.owner()]);
+      setMembers(roleMembers);
+      setOwner(contractOwner);
+    } catch (e) {
+      console.error('Failed to load role members:', e);
+    }
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const run = async (action: (client: AssetMgmtClient) => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action(await getAssetMgmtClientWithSigner());
+      await refresh();
+    } catch (e: any) {
+      console.error('Role transaction failed:', e);
+      setError(e.shortMessage || e.message || 'Transaction failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleGrant = () => {
+    if (!ethers.isAddress(account)) { setError('Enter a valid account address'); return; }
+    run(client => client.grantRole(role, account)).then(() => setAccount(''));
+  };
+
+  // The owner's admin role only moves with ownership, so the contract refuses to revoke it
+  const canRevoke = (member: RoleMember) => isAdmin && !(member.role === 'admin' && member.account.toLowerCase() === owner.toLowerCase());
+
+  return (
+    <div className="role-admin">
+      <div className="welcome-banner">
+        <div className="welcome-text">
+          <h2>Roles</h2>
+          <p>Members are rebuilt from the RoleGranted and RoleRevoked events. Fund managers and data providers must also be assigned to a fund to act on it.</p>
+        </div>
+      </div>
+
+      {isAdmin && (
+        <div className="role-card metal-card">
+          <h3>Grant a Role</h3>
+          <div className="scenario-form">
+            <select className="metal-select" value={role} onChange={(e) => setRole(e.target.value as Role)}>
+              {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+            <input
+              type="text"
+              className="metal-input auditor-address"
+              placeholder="Account (0x...)"
+              value={account}
+              onChange={(e) => setAccount(e.target.value.trim())}
+            />
+            <button className="metal-button primary" onClick={handleGrant} disabled={busy}>
+              {busy ? 'Submitting...' : 'Grant'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="tracker-error">{error}</div>}
+
+      {ROLES.map(r => (
+        <div className="role-card metal-card" key={r}>
+          <h3>{ROLE_LABELS[r]}</h3>
+          <p>{ROLE_DESCRIPTIONS[r]}</p>
+          {!members ? (
+            <div className="metal-spinner"></div>
+          ) : members[r].length === 0 ? (
+            <p>No members</p>
+          ) : members[r].map(member => (
+            <div className="scenario-result role-member" key={member.account}>
+              <span title={member.account}>{member.account}</span>
+              <span title={member.grantTx}>granted by {shortAddress(member.grantedBy)}</span>
+              <span>block {member.grantedAtBlock}</span>
+              <span className="actions">
+                {canRevoke(member) && (
+                  <button className="metal-button danger" disabled={busy} onClick={() => run(c => c.revokeRole(member.role, member.account))}>Revoke</button>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { useAccount } from 'wagmi';
+import type { FundField } from '@shared/encoding';
+import { getAssetMgmtClientWithSigner } from '../contract';
+import { runScenario, type ScenarioInput, type ScenarioKind, type ScenarioResult } from '../fhe/scenarios';
+
+interface ScenarioPanelProps {
+  fundId: number;
+  batchId?: number;
+  decryptWithSignature: (handle: string, field: FundField) => Promise<number | null>;
+}
+
+interface ScenarioRun extends ScenarioResult {
+  input: ScenarioInput;
+  decrypted?: number;
+}
+
+const KIND_LABELS: Record<ScenarioKind, { title: string; unit: string; negative?: string }> = {
+  shock: { title: 'Percentage Shock', unit: '%', negative: 'Loss' },
+  scale: { title: 'Scale', unit: '% of NAV' },
+  flow: { title: 'Flow', unit: 'USD', negative: 'Outflow' },
+};
+
+const describe = ({ kind, amount, negative }: ScenarioInput) => {
+  switch (kind) {
+    case 'shock': return `${negative ? '-' : '+'}${amount}% shock`;
+    case 'scale': return `x${(amount / 100).toFixed(4)}`;
+    case 'flow': return `${negative ? '-' : '+'}${amount} USD flow`;
+  }
+};
+
+export default function ScenarioPanel({ fundId, batchId, decryptWithSignature }: ScenarioPanelProps) {
+  const { address } = useAccount();
+  const [input, setInput] = useState<ScenarioInput>({ kind: 'shock', amount: 10, negative: true });
+  const [running, setRunning] = useState(false);
+  const [runs, setRuns] = useState<ScenarioRun[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  if (batchId === undefined) {
+    return (
+      <div className="scenario-panel">
+        <h3>What-if Scenarios</h3>
+        <p>This fund has no on-chain batch yet.</p>
+      </div>
+    );
+  }
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      if (!address) throw new Error('Wallet not connected');
+      const client = await getAssetMgmtClientWithSigner();
+      const result = await runScenario(client, address, BigInt(fundId), BigInt(batchId), input);
+      setRuns([{ ...result, input }, ...runs]);
+    } catch (e: any) {
+      console.error('Scenario failed:', e);
+      setError(e.shortMessage || e.message || 'Scenario failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleDecrypt = async (run: ScenarioRun) => {
+    const decrypted = await decryptWithSignature(run.handle, 'totalAssets');
+    if (decrypted === null) return;
+    setRuns(current => current.map(r => r.handle === run.handle ? { ...r, decrypted } : r));
+  };
+
+  const labels = KIND_LABELS[input.kind];
+
+  return (
+    <div className="scenario-panel">
+      <h3>What-if Scenarios</h3>
+      <p>Runs on the encrypted NAV of batch #{batchId}. The parameter is encrypted and the result is a new handle only you can decrypt.</p>
+
+      <div className="scenario-form">
+        <select
+          className="metal-select"
+          value={input.kind}
+          onChange={(e) => setInput({ ...input, kind: e.target.value as ScenarioKind })}
+        >
+          {(Object.keys(KIND_LABELS) as ScenarioKind[]).map(kind => (
+            <option key={kind} value={kind}>{KIND_LABELS[kind].title}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          className="metal-input"
+          value={input.amount}
+          onChange={(e) => setInput({ ...input, amount: parseFloat(e.target.value) || 0 })}
+        />
+        <span>{labels.unit}</span>
+        {labels.negative && (
+          <label className="scenario-toggle">
+            <input type="checkbox" checked={input.negative} onChange={(e) => setInput({ ...input, negative: e.target.checked })} />
+            {labels.negative}
+          </label>
+        )}
+        <button className="metal-button primary" onClick={handleRun} disabled={running}>
+          {running ? 'Computing on-chain...' : 'Run Scenario'}
+        </button>
+      </div>
+
+      {error && <div className="tracker-error">{error}</div>}
+
+      {runs.map(run => (
+        <div className="scenario-result" key={run.handle}>
+          <span>{describe(run.input)}</span>
+          <span className="scenario-handle">{run.handle.substring(0, 18)}...</span>
+          <span>{run.hcu ? `${run.hcu.total.toLocaleString()} HCU` : 'HCU unknown'}</span>
+          {run.decrypted !== undefined ? (
+            <strong>{run.decrypted.toFixed(2)} USD</strong>
+          ) : (
+            <button className="metal-button" onClick={() => handleDecrypt(run)}>Decrypt</button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
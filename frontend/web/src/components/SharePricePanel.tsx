@@ -0,0 +1,60 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { SharePrice } from '@shared/assetMgmtClient';
+import { getAssetMgmtClientReadOnly, getAssetMgmtClientWithSigner } from '../contract';
+
+interface SharePricePanelProps {
+  fundId: number;
+}
+
+export default function SharePricePanel({ fundId }: SharePricePanelProps) {
+  const [price, setPrice] = useState<SharePrice | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const client = await getAssetMgmtClientReadOnly();
+      if (!client) return;
+      setPrice(await client.sharePrice(BigInt(fundId)));
+    } catch (e) {
+      console.error('Failed to load share price:', e);
+    }
+  }, [fundId]);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const handleUpdate = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await (await getAssetMgmtClientWithSigner()).updateSharePrice(BigInt(fundId));
+      await refresh();
+    } catch (e: any) {
+      console.error('Share price update failed:', e);
+      setError(e.shortMessage || e.message || 'Transaction failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="auditor-grants">
+      <h3>Share Price</h3>
+      <p>
+        Publishes NAV per share from the current batch's total assets and the shares outstanding. Subscriptions and
+        redemptions convert at the last published price, so update it after each new fund state.
+      </p>
+      <div className="scenario-form">
+        <span>
+          {price && price.updatedAt > 0
+            ? `Last published ${new Date(price.updatedAt * 1000).toLocaleString()}`
+            : 'Not published yet: orders use the initial price of $1.00 per share'}
+        </span>
+        <button className="metal-button primary" onClick={handleUpdate} disabled={busy}>
+          {busy ? 'Submitting...' : 'Update Share Price'}
+        </button>
+      </div>
+      {error && <div className="tracker-error">{error}</div>}
+    </div>
+  );
+}
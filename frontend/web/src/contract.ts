@@ -1,11 +1,33 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
+import assetMgmtArtifact from "./abi/AssetMgmtFhe.json";
 import configJson from "./config.json";
+import { AssetMgmtClient } from "@shared/assetMgmtClient";
+import { abiHash, findDeployment, parseDeploymentManifest } from "@shared/deployments";
 
-export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
+// Every deployments/<network>.json; the entries of the configured chain are used
+const manifests = Object.entries(
+  import.meta.glob("../../../deployments/*.json", { eager: true, import: "default" })
+).map(([file, json]) => parseDeploymentManifest(json, file));
+
+export const deployments = {
+  assetMgmt: findDeployment(manifests, config.chainId, "AssetMgmtFhe"),
+};
+
+if (!deployments.assetMgmt) {
+  throw new Error(
+    `No AssetMgmtFhe deployment for chain ${config.chainId} in deployments/; run \`npx hardhat --network <network> deploy\` or set chainId in config.json`
+  );
+}
+if (deployments.assetMgmt.abiHash !== abiHash(assetMgmtArtifact.abi)) {
+  console.warn("abi/AssetMgmtFhe.json does not match the deployed AssetMgmtFhe; redeploy or copy its artifact");
+}
+
+/** From the manifest of `config.chainId`. */
+export const assetMgmtAddress = deployments.assetMgmt.address;
+
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
@@ -18,21 +40,11 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
+// RPC endpoints and chain come from config.json so a local hardhat node can be used instead of Sepolia
+const getReadProvider = async () => {
+  for (const url of config.rpcUrls) {
     try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
+      const provider = new ethers.JsonRpcProvider(url, config.chainId);
       
       const blockNumber = await Promise.race([
         provider.getBlockNumber(),
@@ -49,34 +61,38 @@ const getTestnetProvider = async () => {
   throw new Error("All RPC providers failed");
 };
 
-export async function getContractReadOnly() {
+export async function getBrowserSigner() {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  return provider.getSigner();
+}
+
+export async function getAssetMgmtClientReadOnly() {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const provider = await getReadProvider();
+    const code = await retry(() => provider.getCode(assetMgmtAddress));
     if (code === "0x") {
       return null;
     }
-    
-    return contract;
+    return AssetMgmtClient.connect(assetMgmtAddress, provider);
   } catch (error) {
-    console.error("Failed to create read-only contract:", error);
+    console.error("Failed to create read-only AssetMgmtFhe client:", error);
     return null;
   }
 }
 
-export async function getContractWithSigner() {
+export async function getAssetMgmtClientWithSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    return AssetMgmtClient.connect(assetMgmtAddress, signer);
   } catch (error) {
-    console.error("Failed to create contract with signer:", error);
+    console.error("Failed to create AssetMgmtFhe client with signer:", error);
     throw error;
   }
 }
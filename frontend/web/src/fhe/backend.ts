@@ -0,0 +1,59 @@
+// fhe/backend.ts
+import type { DecryptedResults, EIP712, HandleContractPair, RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/web";
+import { config } from "../contract";
+
+export type FheBackendKind = "relayer" | "mock";
+
+/**
+ * The subset of a relayer-sdk `FhevmInstance` the app relies on. Both the real
+ * relayer instance and the hardhat-plugin `MockFhevmInstance` satisfy it.
+ */
+export interface FheBackend {
+  createEncryptedInput(contractAddress: string, userAddress: string): RelayerEncryptedInput;
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(publicKey: string, contractAddresses: string[], startTimestamp: string | number, durationDays: string | number): EIP712;
+  userDecrypt(
+    handles: HandleContractPair[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Promise<DecryptedResults>;
+  publicDecrypt(handles: (string | Uint8Array)[]): Promise<DecryptedResults>;
+}
+
+/** `VITE_FHE_BACKEND` overrides `fheBackend` in config.json. */
+export const backendKind: FheBackendKind =
+  (import.meta.env.VITE_FHE_BACKEND as FheBackendKind | undefined) ?? (config.fheBackend as FheBackendKind);
+
+let backendPromise: Promise<FheBackend> | null = null;
+
+/**
+ * Creates the configured backend once per page. Each implementation is loaded on
+ * demand so the relayer wasm is never fetched in mock mode and vice versa.
+ * A failed initialisation is not cached so the next call can retry.
+ */
+export function getFheBackend(): Promise<FheBackend> {
+  if (!backendPromise) {
+    backendPromise = (async () => {
+      switch (backendKind) {
+        case "relayer": {
+          if (!window.ethereum) throw new Error("No injected wallet");
+          const { createRelayerBackend } = await import("./relayerBackend");
+          return createRelayerBackend(window.ethereum);
+        }
+        case "mock": {
+          const { createMockBackend } = await import("./mockBackend");
+          return createMockBackend(config.rpcUrls[0]);
+        }
+        default:
+          throw new Error(`Unknown FHE backend "${backendKind}"`);
+      }
+    })();
+    backendPromise.catch(() => { backendPromise = null; });
+  }
+  return backendPromise;
+}
@@ -0,0 +1,21 @@
+// fhe/compliance.ts
+import { COMPLIANCE_RULES, COMPLIANCE_RULE_CODECS, type ComplianceRule, type EncryptedComplianceRules } from "@shared/compliance";
+import { encryptUint64Batch } from "./encryption";
+
+/** Human values: USD for the minimum AUM, percent for the fee rates and the drawdown. */
+export type ComplianceRulesInput = Record<ComplianceRule, number>;
+
+/** Encodes and encrypts the four thresholds with a single shared input proof. */
+export async function encryptComplianceRules(
+  contractAddress: string,
+  userAddress: string,
+  rules: ComplianceRulesInput
+): Promise<EncryptedComplianceRules> {
+  const { handles, inputProof } = await encryptUint64Batch(
+    contractAddress,
+    userAddress,
+    COMPLIANCE_RULES.map(rule => COMPLIANCE_RULE_CODECS[rule].encode(rules[rule]))
+  );
+  const [minTotalAssets, maxManagerFeeRate, maxPerformanceFeeRate, maxDrawdown] = handles;
+  return { minTotalAssets, maxManagerFeeRate, maxPerformanceFeeRate, maxDrawdown, inputProof };
+}
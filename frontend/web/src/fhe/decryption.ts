@@ -0,0 +1,70 @@
+// fhe/decryption.ts
+import type { Signer } from "ethers";
+import { getFheBackend } from "./backend";
+
+export interface DecryptionAuthorization {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  userAddress: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+}
+
+/**
+ * Generates a fresh relayer keypair and asks the wallet to sign the EIP-712
+ * `UserDecryptRequestVerification` payload authorising it for `contractAddresses`.
+ */
+export async function createDecryptionAuthorization(
+  signer: Signer,
+  contractAddresses: string[],
+  durationDays = 30
+): Promise<DecryptionAuthorization> {
+  const backend = await getFheBackend();
+  const { publicKey, privateKey } = backend.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = backend.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+  return {
+    publicKey,
+    privateKey,
+    signature,
+    userAddress: await signer.getAddress(),
+    contractAddresses,
+    startTimestamp,
+    durationDays,
+  };
+}
+
+/**
+ * Re-encrypts `handles` under the authorised keypair through the relayer and
+ * decrypts them locally. Every handle must be ACL-allowed for both the user and
+ * `contractAddress`.
+ */
+export async function userDecryptHandles(
+  handles: string[],
+  contractAddress: string,
+  auth: DecryptionAuthorization
+): Promise<Record<string, bigint>> {
+  const backend = await getFheBackend();
+  const results = await backend.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    auth.privateKey,
+    auth.publicKey,
+    auth.signature.replace("0x", ""),
+    auth.contractAddresses,
+    auth.userAddress,
+    auth.startTimestamp,
+    auth.durationDays
+  );
+  const values: Record<string, bigint> = {};
+  for (const handle of handles) {
+    values[handle] = BigInt(results[handle]);
+  }
+  return values;
+}
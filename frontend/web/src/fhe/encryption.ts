@@ -0,0 +1,40 @@
+// fhe/encryption.ts
+import { ethers } from "ethers";
+import { EUINT64_MAX } from "@shared/encoding";
+import { getFheBackend } from "./backend";
+
+export interface EncryptedValue {
+  handle: string;
+  inputProof: string;
+}
+
+export interface EncryptedBatch {
+  handles: string[];
+  inputProof: string;
+}
+
+const assertUint64 = (value: bigint) => {
+  if (value < 0n || value > EUINT64_MAX) {
+    throw new Error(`Value ${value} does not fit in a euint64`);
+  }
+};
+
+/**
+ * Encrypts several uint64 values as `externalEuint64` inputs with a single
+ * builder call, so they share one input proof and one relayer round-trip. The
+ * proof binds the ciphertexts to `contractAddress` and `userAddress`, so it is
+ * only accepted by that contract when submitted by that account.
+ */
+export async function encryptUint64Batch(contractAddress: string, userAddress: string, values: bigint[]): Promise<EncryptedBatch> {
+  values.forEach(assertUint64);
+  const backend = await getFheBackend();
+  const input = backend.createEncryptedInput(contractAddress, userAddress);
+  values.forEach(value => input.add64(value));
+  const { handles, inputProof } = await input.encrypt();
+  return { handles: handles.map(h => ethers.hexlify(h)), inputProof: ethers.hexlify(inputProof) };
+}
+
+export async function encryptUint64(contractAddress: string, userAddress: string, value: bigint): Promise<EncryptedValue> {
+  const { handles, inputProof } = await encryptUint64Batch(contractAddress, userAddress, [value]);
+  return { handle: handles[0], inputProof };
+}
@@ -0,0 +1,31 @@
+// fhe/investor.ts
+import { money, navPerShare } from "@shared/encoding";
+import type { AssetMgmtClient, Redemption, Subscription } from "@shared/assetMgmtClient";
+import { encryptUint64 } from "./encryption";
+
+/** Subscribes `amount` USD to `fundId`. The amount is encrypted, so only the investor learns it and the shares issued. */
+export async function subscribeToFund(
+  client: AssetMgmtClient,
+  userAddress: string,
+  fundId: bigint,
+  amount: number
+): Promise<Subscription> {
+  const { handle, inputProof } = await encryptUint64(await client.getAddress(), userAddress, money.encode(amount));
+  return client.subscribe(fundId, handle, inputProof);
+}
+
+/** Redeems shares worth `amount` USD from `fundId`, capped at the investor's balance. */
+export async function redeemFromFund(
+  client: AssetMgmtClient,
+  userAddress: string,
+  fundId: bigint,
+  amount: number
+): Promise<Redemption> {
+  const { handle, inputProof } = await encryptUint64(await client.getAddress(), userAddress, money.encode(amount));
+  return client.redeem(fundId, handle, inputProof);
+}
+
+/** Value in USD of a raw share balance at a raw navPerShare, rounded down to the cent like redemptions. */
+export function positionValue(rawShares: bigint, rawNavPerShare: bigint): number {
+  return money.decode((rawShares * rawNavPerShare) / BigInt(navPerShare.scale));
+}
@@ -0,0 +1,32 @@
+// fhe/mockBackend.ts
+import { ethers } from "ethers";
+import { MockFhevmInstance, relayer } from "@fhevm/mock-utils";
+import type { FheBackend } from "./backend";
+
+// Gateway verifying contracts used by @fhevm/hardhat-plugin when it runs the mock engine
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+/**
+ * Builds a mock instance against a local `npx hardhat node`. The node must be
+ * running with @fhevm/hardhat-plugin, which answers `fhevm_relayer_metadata`
+ * with the addresses of the mock FHEVM contracts it deployed.
+ */
+export async function createMockBackend(rpcUrl: string): Promise<FheBackend> {
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  let metadata: relayer.RelayerMetadata;
+  try {
+    metadata = await relayer.requestRelayerMetadata(provider);
+  } catch (e) {
+    throw new Error(`${rpcUrl} is not a hardhat node running the FHEVM mock`, { cause: e });
+  }
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: metadata.chainId,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+    verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS,
+  });
+}
@@ -0,0 +1,10 @@
+// fhe/relayerBackend.ts
+import type { Eip1193Provider } from "ethers";
+import { createInstance, initSDK, SepoliaConfig } from "@zama-fhe/relayer-sdk/web";
+import type { FheBackend } from "./backend";
+
+/** Loads the TFHE wasm and connects to the Zama relayer for Sepolia. */
+export async function createRelayerBackend(network: Eip1193Provider): Promise<FheBackend> {
+  await initSDK();
+  return createInstance({ ...SepoliaConfig, network });
+}
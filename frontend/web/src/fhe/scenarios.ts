@@ -0,0 +1,38 @@
+// fhe/scenarios.ts
+import { encodeFundField, scenarioFactor } from "@shared/encoding";
+import type { AssetMgmtClient, ScenarioComputation, ScenarioKind } from "@shared/assetMgmtClient";
+import { encryptUint64 } from "./encryption";
+
+export type { ScenarioKind };
+
+/**
+ * Human parameters: `shock` and `scale` take a percentage (a 20% shock, a 110%
+ * scale), `flow` takes USD. `negative` turns a shock into a loss and a flow into
+ * an outflow; it is ignored for `scale`.
+ */
+export interface ScenarioInput {
+  kind: ScenarioKind;
+  amount: number;
+  negative: boolean;
+}
+
+export type ScenarioResult = ScenarioComputation;
+
+const encodeParameter = ({ kind, amount }: ScenarioInput): bigint =>
+  kind === "flow" ? encodeFundField("totalAssets", amount) : scenarioFactor.encode(amount);
+
+/**
+ * Runs a what-if operation on the encrypted totalAssets of a fund's batch. The
+ * parameter is encrypted too, so neither the fund value nor the scenario is
+ * visible on-chain.
+ */
+export async function runScenario(
+  client: AssetMgmtClient,
+  userAddress: string,
+  fundId: bigint,
+  batchId: bigint,
+  input: ScenarioInput
+): Promise<ScenarioResult> {
+  const { handle, inputProof } = await encryptUint64(await client.getAddress(), userAddress, encodeParameter(input));
+  return client.runScenario(input.kind, fundId, batchId, handle, inputProof, input.negative);
+}
@@ -0,0 +1,115 @@
+// fhe/session.ts
+import type { Signer } from "ethers";
+import { createDecryptionAuthorization, type DecryptionAuthorization } from "./decryption";
+
+const DB_NAME = "fhe-decryption-sessions";
+const DB_VERSION = 1;
+const KEY_STORE = "keys";
+const SESSION_STORE = "sessions";
+const WRAPPING_KEY_ID = "wrapping-key";
+const SECONDS_PER_DAY = 86400;
+
+interface StoredSession {
+  id: string;
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: ArrayBuffer;
+  expiresAt: number;
+}
+
+export interface DecryptionSession {
+  auth: DecryptionAuthorization;
+  expiresAt: number;
+}
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(KEY_STORE);
+    request.result.createObjectStore(SESSION_STORE, { keyPath: "id" });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = fn(db.transaction(store, mode).objectStore(store));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Sessions are encrypted at rest with an AES-GCM key that is generated as
+ * non-extractable and stored as a CryptoKey, so the raw key never leaves WebCrypto.
+ */
+const getWrappingKey = async (): Promise<CryptoKey> => {
+  const existing = await withStore<CryptoKey | undefined>(KEY_STORE, "readonly", s => s.get(WRAPPING_KEY_ID));
+  if (existing) return existing;
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+  await withStore(KEY_STORE, "readwrite", s => s.put(key, WRAPPING_KEY_ID));
+  return key;
+};
+
+const sessionId = (userAddress: string, contractAddresses: string[]) =>
+  [userAddress, ...[...contractAddresses].sort()].map(a => a.toLowerCase()).join(":");
+
+const expiryOf = (auth: DecryptionAuthorization) => auth.startTimestamp + auth.durationDays * SECONDS_PER_DAY;
+
+const now = () => Math.floor(Date.now() / 1000);
+
+async function saveSession(auth: DecryptionAuthorization): Promise<DecryptionSession> {
+  const key = await getWrappingKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(auth));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext);
+  const expiresAt = expiryOf(auth);
+  const record: StoredSession = { id: sessionId(auth.userAddress, auth.contractAddresses), iv, ciphertext, expiresAt };
+  await withStore(SESSION_STORE, "readwrite", s => s.put(record));
+  return { auth, expiresAt };
+}
+
+/**
+ * Returns the stored session for this user and contract set, or null if there is
+ * none or it has expired. Expired sessions are deleted.
+ */
+export async function loadSession(userAddress: string, contractAddresses: string[]): Promise<DecryptionSession | null> {
+  const id = sessionId(userAddress, contractAddresses);
+  const record = await withStore<StoredSession | undefined>(SESSION_STORE, "readonly", s => s.get(id));
+  if (!record) return null;
+  if (record.expiresAt <= now()) {
+    await withStore(SESSION_STORE, "readwrite", s => s.delete(id));
+    return null;
+  }
+  try {
+    const key = await getWrappingKey();
+    const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: record.iv }, key, record.ciphertext);
+    return { auth: JSON.parse(new TextDecoder().decode(plaintext)), expiresAt: record.expiresAt };
+  } catch (e) {
+    console.error("Failed to decrypt stored decryption session:", e);
+    await withStore(SESSION_STORE, "readwrite", s => s.delete(id));
+    return null;
+  }
+}
+
+/** Signs a new authorization and replaces any stored session for the same scope. */
+export async function renewSession(signer: Signer, contractAddresses: string[], durationDays = 30): Promise<DecryptionSession> {
+  const auth = await createDecryptionAuthorization(signer, contractAddresses, durationDays);
+  return saveSession(auth);
+}
+
+/** Reuses a valid stored session, only prompting for a signature when there is none. */
+export async function getOrCreateSession(signer: Signer, contractAddresses: string[], durationDays = 30): Promise<DecryptionSession> {
+  const existing = await loadSession(await signer.getAddress(), contractAddresses);
+  return existing ?? renewSession(signer, contractAddresses, durationDays);
+}
+
+/** Forgets the keypair and signature. The signed authorization itself stays valid until it expires. */
+export async function revokeSession(userAddress: string, contractAddresses: string[]): Promise<void> {
+  await withStore(SESSION_STORE, "readwrite", s => s.delete(sessionId(userAddress, contractAddresses)));
+}
@@ -0,0 +1,64 @@
+// fhe/submitFundState.ts
+import type { ethers } from "ethers";
+import { encodeFundField } from "@shared/encoding";
+import type { HcuUsage } from "@shared/hcu";
+import type { AssetMgmtClient, EncryptedFundState } from "@shared/assetMgmtClient";
+import { encryptUint64Batch } from "./encryption";
+
+export type { EncryptedFundState };
+
+/** Human values: USD for totalAssets, percent for the fee rates. */
+export interface FundStateInput {
+  totalAssets: number;
+  managerFeeRate: number;
+  performanceFeeRate: number;
+}
+
+export interface SubmissionCost {
+  estimatedGas: bigint;
+  gasUsed: bigint;
+  /** Wei paid for gas. */
+  fee: bigint;
+  /** Null on chains without a known FHEVMExecutor. */
+  hcu: HcuUsage | null;
+}
+
+export interface FundStateSubmission {
+  encrypted: EncryptedFundState;
+  receipt: ethers.TransactionReceipt;
+  cost: SubmissionCost;
+}
+
+/** Encodes and encrypts the three submitted fields with a single shared input proof. */
+export async function encryptFundState(
+  contractAddress: string,
+  userAddress: string,
+  state: FundStateInput
+): Promise<EncryptedFundState> {
+  const { handles, inputProof } = await encryptUint64Batch(contractAddress, userAddress, [
+    encodeFundField("totalAssets", state.totalAssets),
+    encodeFundField("managerFeeRate", state.managerFeeRate),
+    encodeFundField("performanceFeeRate", state.performanceFeeRate),
+  ]);
+  const [totalAssets, managerFeeRate, performanceFeeRate] = handles;
+  return { totalAssets, managerFeeRate, performanceFeeRate, inputProof };
+}
+
+/**
+ * Sends `submitFundState` for the open batch of `fundId` and reports its cost. Gas is
+ * estimated before sending so a reverting submission fails here, with its decoded
+ * custom error, instead of in the wallet.
+ */
+export async function submitEncryptedFundState(
+  client: AssetMgmtClient,
+  fundId: bigint,
+  encrypted: EncryptedFundState
+): Promise<FundStateSubmission> {
+  const estimatedGas = await client.estimateSubmitFundState(fundId, encrypted);
+  const { receipt, hcu } = await client.submitFundState(fundId, encrypted);
+  return {
+    encrypted,
+    receipt,
+    cost: { estimatedGas, gasUsed: receipt.gasUsed, fee: receipt.fee, hcu },
+  };
+}
@@ -1,8 +1,27 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import path from "path";
+
+// Modules shared with the hardhat scripts live in the repository root src/
+const sharedSrc = path.resolve(__dirname, "../../src");
+// Typechain bindings imported by the shared modules
+const sharedTypes = path.resolve(__dirname, "../../types");
+// Deployment manifests written by deploy/deploy.ts
+const deployments = path.resolve(__dirname, "../../deployments");
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    alias: {
+      "@shared": sharedSrc
+    },
+    dedupe: ["ethers"]
+  },
+  server: {
+    fs: {
+      allow: [".", sharedSrc, sharedTypes, deployments]
+    }
+  },
   define: {
     'process.env': process.env
   },
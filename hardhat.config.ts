@@ -3,6 +3,10 @@ import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
 
+import { deployerAccounts } from "./deploy/accounts";
+import "./deploy/deploy";
+import "./tasks/AssetMgmtFhe";
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
@@ -12,7 +16,7 @@ const config: HardhatUserConfig = {
     sepolia: {
       chainId: 11155111,
       url: "https://sepolia.drpc.org",
-      accounts: [],
+      accounts: deployerAccounts("sepolia"),
     },
   },
   solidity: {
@@ -21,7 +25,7 @@ const config: HardhatUserConfig = {
       viaIR: true,
       optimizer: {
         enabled: true,
-        runs: 200,
+        runs: 1, // Favours deployed size: the contract is close to the 24 KiB limit
       },
       metadata: {
         bytecodeHash: "none",
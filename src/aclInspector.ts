@@ -0,0 +1,150 @@
+// src/aclInspector.ts
+// Lists the ciphertext handles of an AssetMgmtFhe batch and which addresses the
+// FHEVM ACL lets decrypt them. The ACL cannot be enumerated, so candidates come
+// from its Allowed events plus the fund's manager and providers, and each one
+// is then checked against the ACL itself.
+import { Contract, ZeroHash, getAddress, type EventLog, type Log } from "ethers";
+import type { AssetMgmtFhe } from "../types/contracts/Asset_Mgmt_Fhe.sol/AssetMgmtFhe";
+import type { IACL } from "../types/@fhevm/solidity/lib/Impl.sol/IACL";
+import { IACL__factory } from "../types/factories/@fhevm/solidity/lib/Impl.sol/IACL__factory";
+import { fheTypeOfHandle, type FheTypeName } from "./hcu";
+
+/** FHEVM ACL by chain id: Sepolia, and the mock the hardhat plugin deploys on hardhat networks. */
+export const ACL_ADDRESSES: Readonly<Record<number, string>> = {
+  11155111: "0x687820221192C5B662b25367F70076A37bc79b6c",
+  31337: "0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D",
+};
+
+export function fhevmAclAddress(chainId: number | bigint): string {
+  const address = ACL_ADDRESSES[Number(chainId)];
+  if (!address) throw new Error(`No ACL address known for chain ${chainId}`);
+  return address;
+}
+
+// Deployed ACL methods and events that the IACL interface in Impl.sol does not declare
+const ACL_EXTENSION_ABI = [
+  "function persistAllowed(bytes32 handle, address account) view returns (bool)",
+  "function allowedTransient(bytes32 handle, address account) view returns (bool)",
+  "event Allowed(address indexed caller, address indexed account, bytes32 handle)",
+];
+
+export const BATCH_HANDLE_FIELDS = [
+  "totalAssets",
+  "managerFeeRate",
+  "performanceFeeRate",
+  "highWaterMark",
+  "fundValuesAtBatchClose",
+  "overflowed",
+] as const;
+
+export type BatchHandleField = (typeof BATCH_HANDLE_FIELDS)[number];
+
+export interface HandleAccess {
+  account: string;
+  isAllowed: boolean;
+  persistAllowed: boolean;
+  /** Transient permissions only last for the granting transaction, so off-chain reads normally see false. */
+  allowedTransient: boolean;
+}
+
+export interface InspectedHandle {
+  field: BatchHandleField;
+  handle: string;
+  /** Null when the field has never been written. */
+  type: FheTypeName | null;
+  publicDecryptable: boolean;
+  /** Only accounts for which isAllowed is true. */
+  allowed: HandleAccess[];
+}
+
+export interface InspectOptions {
+  /** Defaults to the ACL of the chain the contract's runner is connected to. */
+  aclAddress?: string;
+  /** Extra accounts to check, e.g. the connected wallet. */
+  candidates?: string[];
+  /** First block scanned for Allowed and ProviderAdded events. */
+  fromBlock?: number;
+}
+
+const isEventLog = (log: Log): log is EventLog => "args" in log;
+
+export async function readBatchHandles(
+  contract: AssetMgmtFhe,
+  fundId: bigint,
+  batchId: bigint
+): Promise<Record<BatchHandleField, string>> {
+  const [fund, valueAtBatchClose, overflowed] = await Promise.all([
+    contract.funds(fundId, batchId),
+    contract.fundValuesAtBatchClose(fundId, batchId),
+    contract.batchOverflowed(fundId, batchId),
+  ]);
+  return {
+    totalAssets: fund.totalAssets,
+    managerFeeRate: fund.managerFeeRate,
+    performanceFeeRate: fund.performanceFeeRate,
+    highWaterMark: fund.highWaterMark,
+    fundValuesAtBatchClose: valueAtBatchClose,
+    overflowed,
+  };
+}
+
+async function candidateAccounts(
+  contract: AssetMgmtFhe,
+  acl: Contract,
+  fundId: bigint,
+  options: InspectOptions
+): Promise<Set<string>> {
+  const { fromBlock = 0, candidates = [] } = options;
+  const contractAddress = await contract.getAddress();
+  const [info, providerLogs, allowedLogs] = await Promise.all([
+    contract.fundInfo(fundId),
+    contract.queryFilter(contract.filters.ProviderAdded(fundId), fromBlock),
+    acl.queryFilter(acl.filters.Allowed(contractAddress), fromBlock),
+  ]);
+  const accounts = [contractAddress, info.manager, ...candidates];
+  for (const log of [...providerLogs, ...allowedLogs].filter(isEventLog)) {
+    accounts.push(log.args.provider ?? log.args.account);
+  }
+  return new Set(accounts.map(account => getAddress(account)));
+}
+
+async function checkAccess(iacl: IACL, acl: Contract, handle: string, account: string): Promise<HandleAccess> {
+  const [isAllowed, persistAllowed, allowedTransient] = await Promise.all([
+    iacl.isAllowed(handle, account),
+    acl.persistAllowed(handle, account) as Promise<boolean>,
+    acl.allowedTransient(handle, account) as Promise<boolean>,
+  ]);
+  return { account, isAllowed, persistAllowed, allowedTransient };
+}
+
+export async function inspectBatchHandles(
+  contract: AssetMgmtFhe,
+  fundId: bigint,
+  batchId: bigint,
+  options: InspectOptions = {}
+): Promise<InspectedHandle[]> {
+  const runner = contract.runner;
+  if (!runner?.provider) throw new Error("Contract has no runner to query the ACL with");
+  const aclAddress = options.aclAddress ?? fhevmAclAddress((await runner.provider.getNetwork()).chainId);
+  const acl = new Contract(aclAddress, ACL_EXTENSION_ABI, runner);
+  const iacl = IACL__factory.connect(aclAddress, runner);
+
+  const [handles, accounts] = await Promise.all([
+    readBatchHandles(contract, fundId, batchId),
+    candidateAccounts(contract, acl, fundId, options),
+  ]);
+
+  return Promise.all(
+    BATCH_HANDLE_FIELDS.map(async (field): Promise<InspectedHandle> => {
+      const handle = handles[field];
+      if (handle === ZeroHash) {
+        return { field, handle, type: null, publicDecryptable: false, allowed: [] };
+      }
+      const [publicDecryptable, access] = await Promise.all([
+        iacl.isAllowedForDecryption(handle),
+        Promise.all([...accounts].map(account => checkAccess(iacl, acl, handle, account))),
+      ]);
+      return { field, handle, type: fheTypeOfHandle(handle), publicDecryptable, allowed: access.filter(a => a.isAllowed) };
+    })
+  );
+}
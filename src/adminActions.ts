@@ -0,0 +1,93 @@
+// src/adminActions.ts
+// AssetMgmtFhe's timelocked admin actions and pending ownership transfer,
+// rebuilt from ActionQueued / ActionExecuted / ActionCancelled so investors can
+// see a change during its TIMELOCK_DELAY, before it lands.
+import type { AssetMgmtFhe } from "../types/contracts/Asset_Mgmt_Fhe.sol/AssetMgmtFhe";
+
+/** Matches `AssetMgmtFhe.ActionKind`. */
+export const ADMIN_ACTION_KINDS = ["setCooldown", "removeProvider"] as const;
+
+export type AdminActionKind = (typeof ADMIN_ACTION_KINDS)[number];
+
+/** "ready" is a queued action whose eta has passed; the contract still reports it as queued. */
+export type AdminActionStatus = "queued" | "ready" | "executed" | "cancelled";
+
+export interface AdminAction {
+  actionId: bigint;
+  kind: AdminActionKind;
+  status: AdminActionStatus;
+  /** Unix seconds from which the action can be executed. */
+  eta: number;
+  proposer: string;
+  queuedTx: string;
+  /** setCooldown only. */
+  cooldownSeconds?: bigint;
+  /** removeProvider only. */
+  fundId?: bigint;
+  provider?: string;
+  /** Executor or canceller, once the action is resolved. */
+  resolvedBy?: string;
+  resolvedTx?: string;
+}
+
+export interface ListAdminActionsOptions {
+  fromBlock?: number;
+  /** Unix seconds, to tell queued from ready; defaults to the wall clock. */
+  now?: number;
+}
+
+/** Every queued action, newest first. */
+export async function listAdminActions(contract: AssetMgmtFhe, options: ListAdminActionsOptions = {}): Promise<AdminAction[]> {
+  const { fromBlock = 0 } = options;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const [queued, executed, cancelled] = await Promise.all([
+    contract.queryFilter(contract.filters.ActionQueued(), fromBlock),
+    contract.queryFilter(contract.filters.ActionExecuted(), fromBlock),
+    contract.queryFilter(contract.filters.ActionCancelled(), fromBlock),
+  ]);
+
+  const resolutions = new Map<bigint, { status: "executed" | "cancelled"; by: string; tx: string }>();
+  for (const log of executed) resolutions.set(log.args.actionId, { status: "executed", by: log.args.executor, tx: log.transactionHash });
+  for (const log of cancelled) resolutions.set(log.args.actionId, { status: "cancelled", by: log.args.canceller, tx: log.transactionHash });
+
+  return queued
+    .map(log => {
+      const { actionId, eta, proposer } = log.args;
+      const kind = ADMIN_ACTION_KINDS[Number(log.args.kind)];
+      const resolution = resolutions.get(actionId);
+      const action: AdminAction = {
+        actionId,
+        kind,
+        status: resolution?.status ?? (Number(eta) <= now ? "ready" : "queued"),
+        eta: Number(eta),
+        proposer,
+        queuedTx: log.transactionHash,
+        resolvedBy: resolution?.by,
+        resolvedTx: resolution?.tx,
+      };
+      if (kind === "setCooldown") {
+        action.cooldownSeconds = log.args.cooldownSeconds;
+      } else {
+        action.fundId = log.args.fundId;
+        action.provider = log.args.provider;
+      }
+      return action;
+    })
+    .sort((a, b) => (a.actionId < b.actionId ? 1 : -1));
+}
+
+/** Actions that are queued or ready, i.e. not yet executed or cancelled. */
+export function pendingAdminActions(actions: AdminAction[]): AdminAction[] {
+  return actions.filter(a => a.status === "queued" || a.status === "ready");
+}
+
+export interface PendingOwnership {
+  owner: string;
+  /** Null when no transfer is pending. */
+  pendingOwner: string | null;
+}
+
+export async function readPendingOwnership(contract: AssetMgmtFhe): Promise<PendingOwnership> {
+  const [owner, pendingOwner] = await Promise.all([contract.owner(), contract.pendingOwner()]);
+  return { owner, pendingOwner: BigInt(pendingOwner) === 0n ? null : pendingOwner };
+}
@@ -0,0 +1,710 @@
+// src/assetMgmtClient.ts
+// Typed client for AssetMgmtFhe over the generated typechain binding, shared by
+// the frontend and the hardhat tasks. Encryption stays with the caller (relayer
+// SDK in the browser, the hardhat plugin in scripts), so submissions take
+// handles and an input proof that were produced for this contract.
+import { EventLog, ZeroAddress, type BytesLike, type ContractRunner, type ContractTransactionReceipt, type ContractTransactionResponse } from "ethers";
+import type { TypedContractEvent, TypedEventLog, TypedListener } from "../types/common";
+import type { AssetMgmtFhe, PerformanceFeeCrystallizedEvent } from "../types/contracts/Asset_Mgmt_Fhe.sol/AssetMgmtFhe";
+import { AssetMgmtFhe__factory } from "../types/factories/contracts/Asset_Mgmt_Fhe.sol/AssetMgmtFhe__factory";
+import { listAdminActions, readPendingOwnership, type AdminAction, type ListAdminActionsOptions, type PendingOwnership } from "./adminActions";
+import { inspectBatchHandles, readBatchHandles, type BatchHandleField, type InspectOptions, type InspectedHandle } from "./aclInspector";
+import { listBatchCalendar, readBatchWindow, type BatchState, type BatchWindow, type ScheduledBatch } from "./batchCalendar";
+import { decodeAuditFields, encodeAuditFields, listAuditorGrants, type AuditorGrant } from "./auditorGrants";
+import {
+  COMPLIANCE_RULES,
+  listComplianceChecks,
+  readComplianceResult,
+  type ComplianceCheck,
+  type ComplianceResult,
+  type EncryptedComplianceRules,
+} from "./compliance";
+import { trackDecryptions, type TrackDecryptionsOptions, type TrackedDecryption } from "./decryptionTracker";
+import { findFhevmExecutorAddress, hcuFromLogs, type HcuUsage } from "./hcu";
+import { listInvestorActivity, listInvestorFunds, type InvestorActivity } from "./investorLedger";
+import { listFundProviders, listProviderChanges, type FundProvider, type ProviderChange } from "./providers";
+import { listRoleMembers, readRolesOf, ROLE_IDS, type Role, type RoleMember } from "./roles";
+
+export type { AssetMgmtFhe };
+
+/** Matches `AssetMgmtFhe.ScenarioKind`. */
+export const SCENARIO_KINDS = ["shock", "scale", "flow"] as const;
+
+export type ScenarioKind = (typeof SCENARIO_KINDS)[number];
+
+/** Custom errors in the AssetMgmtFhe ABI, including those raised by the FHE library. */
+export const ASSET_MGMT_ERROR_MESSAGES = {
+  NotOwner: "Only the contract owner or the fund manager can do this",
+  NotProvider: "Only a registered data provider of the fund can do this",
+  Paused: "The contract is paused",
+  CooldownActive: "The cooldown since the last call has not elapsed",
+  BatchNotOpen: "The fund has no open batch",
+  BatchNotClosed: "The batch has not been closed yet",
+  InvalidInput: "Invalid input",
+  ReplayDetected: "The decryption request was already processed",
+  StateMismatch: "The batch changed after the decryption was requested",
+  DecryptionFailed: "Decryption failed",
+  MissingRole: "The account does not hold the role this requires",
+  TimelockNotReady: "The action's timelock has not elapsed yet",
+  InvalidBatchState: "The batch is not in the state this requires",
+  OutsideBatchWindow: "This is not possible at this point of the batch's submission window",
+  InvalidKMSSignatures: "The decryption proof has invalid KMS signatures",
+  HandlesAlreadySavedForRequestID: "Handles were already saved for this decryption request",
+  NoHandleFoundForRequestID: "No handles were saved for this decryption request",
+} as const;
+
+export type AssetMgmtErrorName = keyof typeof ASSET_MGMT_ERROR_MESSAGES;
+
+export class AssetMgmtError extends Error {
+  constructor(
+    readonly errorName: AssetMgmtErrorName,
+    readonly args: readonly unknown[],
+    options?: ErrorOptions
+  ) {
+    super(`${errorName}: ${ASSET_MGMT_ERROR_MESSAGES[errorName]}`, options);
+    this.name = "AssetMgmtError";
+  }
+}
+
+const contractInterface = AssetMgmtFhe__factory.createInterface();
+
+// Fields of ethers' CallExceptionError, JSON-RPC errors and wallet errors that may hold the revert data
+interface RevertDataCarrier {
+  data?: unknown;
+  error?: unknown;
+  info?: { error?: unknown };
+  cause?: unknown;
+}
+
+// Wallets and providers nest the revert data at different depths
+const revertDataOf = (error: unknown, depth = 0): string | null => {
+  if (!error || typeof error !== "object" || depth > 4) return null;
+  const { data, error: inner, info, cause } = error as RevertDataCarrier;
+  if (typeof data === "string" && data.startsWith("0x") && data.length >= 10) return data;
+  return revertDataOf(inner, depth + 1) ?? revertDataOf(info?.error, depth + 1) ?? revertDataOf(cause, depth + 1);
+};
+
+/** Returns the AssetMgmtFhe custom error behind a failed call or transaction, or null if there is none. */
+export function decodeAssetMgmtError(error: unknown): AssetMgmtError | null {
+  const data = revertDataOf(error);
+  if (!data) return null;
+  const parsed = contractInterface.parseError(data);
+  if (!parsed || !(parsed.name in ASSET_MGMT_ERROR_MESSAGES)) return null;
+  return new AssetMgmtError(parsed.name as AssetMgmtErrorName, [...parsed.args], { cause: error });
+}
+
+/** Handles and proof of one `submitFundState` call; all three share the proof. */
+export interface EncryptedFundState {
+  totalAssets: string;
+  managerFeeRate: string;
+  performanceFeeRate: string;
+  inputProof: string;
+}
+
+/** Plaintext registry entry of a fund (`AssetMgmtFhe.fundInfo`). */
+export interface FundInfo {
+  fundId: bigint;
+  name: string;
+  manager: string;
+  currentBatchId: bigint;
+  batchOpen: boolean;
+  closed: boolean;
+  /** Unix seconds. */
+  createdAt: number;
+  /** Batches scheduled so far; the next `scheduleBatch` gets this id. */
+  batchCount: bigint;
+}
+
+export interface BatchStatus {
+  fundId: bigint;
+  currentBatchId: bigint;
+  batchOpen: boolean;
+  /** State of the current batch. */
+  batchState: BatchState;
+  submissionDeadline: number;
+  closed: boolean;
+  paused: boolean;
+  cooldownSeconds: bigint;
+}
+
+export interface SentTransaction {
+  receipt: ContractTransactionReceipt;
+  /** Null when no FHEVMExecutor is known for the chain. */
+  hcu: HcuUsage | null;
+}
+
+export interface DecryptionRequest extends SentTransaction {
+  requestId: bigint;
+  fundId: bigint;
+  batchId: bigint;
+  stateHash: string;
+}
+
+export interface ComplianceCheckRequest extends SentTransaction {
+  requestId: bigint;
+  fundId: bigint;
+  batchId: bigint;
+  stateHash: string;
+}
+
+export interface ManagementFeeAccrual extends SentTransaction {
+  fundId: bigint;
+  batchId: bigint;
+  /** Unix seconds covered by this accrual. */
+  from: number;
+  to: number;
+  /** euint64 handles in USD cents, decryptable by the fund manager. */
+  fee: string;
+  accrued: string;
+}
+
+/** Handles emitted by closeBatch, in USD cents and decryptable by the fund manager. */
+export interface PerformanceFeeCrystallization {
+  fundId: bigint;
+  batchId: bigint;
+  totalAssets: string;
+  highWaterMark: string;
+  fee: string;
+  accrued: string;
+}
+
+/** Handles of a fund's latest share price; null fields mean the price was never updated (1.0000 applies). */
+export interface SharePrice {
+  navPerShare: string | null;
+  sharesPerAsset: string | null;
+  /** Unix seconds, 0 before the first update. */
+  updatedAt: number;
+}
+
+export interface Subscription extends SentTransaction {
+  fundId: bigint;
+  /** euint64 handles, decryptable by the investor. */
+  amount: string;
+  shares: string;
+}
+
+export interface Redemption extends SentTransaction {
+  fundId: bigint;
+  /** euint64 handles, decryptable by the investor. */
+  shares: string;
+  payout: string;
+}
+
+export interface ScenarioComputation extends SentTransaction {
+  kind: ScenarioKind;
+  fundId: bigint;
+  batchId: bigint;
+  /** New euint64 handle, in USD cents like totalAssets; only the caller may decrypt it. */
+  handle: string;
+}
+
+const crystallizationOf = (args: PerformanceFeeCrystallizedEvent.OutputObject): PerformanceFeeCrystallization => ({
+  fundId: args.fundId,
+  batchId: args.batchId,
+  totalAssets: args.totalAssets,
+  highWaterMark: args.highWaterMark,
+  fee: args.fee,
+  accrued: args.accrued,
+});
+
+const submitArgs = (fundId: bigint, encrypted: EncryptedFundState) =>
+  [fundId, encrypted.totalAssets, encrypted.managerFeeRate, encrypted.performanceFeeRate, encrypted.inputProof] as const;
+
+export interface AssetMgmtClientOptions {
+  /** FHEVMExecutor whose events are counted in `SentTransaction.hcu`; defaults to the connected chain's. */
+  fhevmExecutorAddress?: string;
+}
+
+export class AssetMgmtClient {
+  private executorAddress?: Promise<string | null>;
+
+  constructor(
+    readonly contract: AssetMgmtFhe,
+    private readonly options: AssetMgmtClientOptions = {}
+  ) {}
+
+  static connect(address: string, runner: ContractRunner, options?: AssetMgmtClientOptions): AssetMgmtClient {
+    return new AssetMgmtClient(AssetMgmtFhe__factory.connect(address, runner), options);
+  }
+
+  /** Typed event filters, for `on` and `query`. */
+  get events(): AssetMgmtFhe["filters"] {
+    return this.contract.filters;
+  }
+
+  getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  // Roles and configuration
+
+  owner(): Promise<string> {
+    return this.contract.owner();
+  }
+
+  isProvider(fundId: bigint, account: string): Promise<boolean> {
+    return this.contract.isProvider(fundId, account);
+  }
+
+  /** Proposes `newOwner`, who takes over by calling `acceptOwnership`. */
+  transferOwnership(newOwner: string): Promise<SentTransaction> {
+    return this.send(() => this.contract.transferOwnership(newOwner));
+  }
+
+  acceptOwnership(): Promise<SentTransaction> {
+    return this.send(() => this.contract.acceptOwnership());
+  }
+
+  pendingOwnership(): Promise<PendingOwnership> {
+    return readPendingOwnership(this.contract);
+  }
+
+  hasRole(role: Role, account: string): Promise<boolean> {
+    return this.contract.hasRole(ROLE_IDS[role], account);
+  }
+
+  rolesOf(account: string): Promise<Role[]> {
+    return readRolesOf(this.contract, account);
+  }
+
+  roleMembers(fromBlock?: number): Promise<Record<Role, RoleMember[]>> {
+    return listRoleMembers(this.contract, fromBlock);
+  }
+
+  grantRole(role: Role, account: string): Promise<SentTransaction> {
+    return this.send(() => this.contract.grantRole(ROLE_IDS[role], account));
+  }
+
+  /** Takes effect at once, unlike `queueProviderRemoval`; dataProvider and fundManager cover every fund. */
+  revokeRole(role: Role, account: string): Promise<SentTransaction> {
+    return this.send(() => this.contract.revokeRole(ROLE_IDS[role], account));
+  }
+
+  renounceRole(role: Role): Promise<SentTransaction> {
+    return this.send(() => this.contract.renounceRole(ROLE_IDS[role]));
+  }
+
+  /** `provider` must hold the data provider role. Removal is timelocked, see `queueProviderRemoval`. */
+  addProvider(fundId: bigint, provider: string): Promise<SentTransaction> {
+    return this.send(() => this.contract.addProvider(fundId, provider));
+  }
+
+  /** Current providers, optionally of one fund, replayed from the provider events. */
+  providers(fundId?: bigint, fromBlock?: number): Promise<FundProvider[]> {
+    return listFundProviders(this.contract, fundId, fromBlock);
+  }
+
+  providerChanges(fundId?: bigint, fromBlock?: number): Promise<ProviderChange[]> {
+    return listProviderChanges(this.contract, fundId, fromBlock);
+  }
+
+  setPaused(paused: boolean): Promise<SentTransaction> {
+    return this.send(() => this.contract.setPaused(paused));
+  }
+
+  // Timelocked admin actions
+
+  /** Seconds between queueing an action and the earliest time it can be executed. */
+  timelockDelay(): Promise<bigint> {
+    return this.contract.TIMELOCK_DELAY();
+  }
+
+  queueCooldownChange(seconds: bigint | number): Promise<SentTransaction & { actionId: bigint; eta: number }> {
+    return this.queued(() => this.contract.queueCooldownChange(seconds));
+  }
+
+  /** The provider stays on the fund until the action is executed. */
+  queueProviderRemoval(fundId: bigint, provider: string): Promise<SentTransaction & { actionId: bigint; eta: number }> {
+    return this.queued(() => this.contract.queueProviderRemoval(fundId, provider));
+  }
+
+  executeAction(actionId: bigint): Promise<SentTransaction> {
+    return this.send(() => this.contract.executeAction(actionId));
+  }
+
+  cancelAction(actionId: bigint): Promise<SentTransaction> {
+    return this.send(() => this.contract.cancelAction(actionId));
+  }
+
+  adminActions(options?: ListAdminActionsOptions): Promise<AdminAction[]> {
+    return listAdminActions(this.contract, options);
+  }
+
+  // Funds
+
+  /** Creates a fund managed by the signer, who also becomes its first provider if it holds the data provider role. */
+  async createFund(name: string): Promise<SentTransaction & { fundId: bigint }> {
+    const sent = await this.send(() => this.contract.createFund(name));
+    const event = this.eventIn(sent.receipt, this.events.FundCreated);
+    return { ...sent, fundId: event.args.fundId };
+  }
+
+  closeFund(fundId: bigint): Promise<SentTransaction> {
+    return this.send(() => this.contract.closeFund(fundId));
+  }
+
+  async fundInfo(fundId: bigint): Promise<FundInfo> {
+    const info = await this.contract.fundInfo(fundId);
+    if (info.manager === ZeroAddress) throw new AssetMgmtError("InvalidInput", [fundId]);
+    return {
+      fundId,
+      name: info.name,
+      manager: info.manager,
+      currentBatchId: info.currentBatchId,
+      batchOpen: info.batchOpen,
+      closed: info.closed,
+      createdAt: Number(info.createdAt),
+      batchCount: info.batchCount,
+    };
+  }
+
+  /** Every fund in creation order. */
+  async listFunds(): Promise<FundInfo[]> {
+    const count = await this.contract.fundCount();
+    const ids = Array.from({ length: Number(count) }, (_, i) => BigInt(i + 1));
+    return Promise.all(ids.map(fundId => this.fundInfo(fundId)));
+  }
+
+  // Batches
+
+  async batchStatus(fundId: bigint): Promise<BatchStatus> {
+    const [info, paused, cooldownSeconds] = await Promise.all([
+      this.fundInfo(fundId),
+      this.contract.paused(),
+      this.contract.cooldownSeconds(),
+    ]);
+    const { currentBatchId, batchOpen, closed } = info;
+    const { state: batchState, submissionDeadline } = await this.batch(fundId, currentBatchId);
+    return { fundId, currentBatchId, batchOpen, batchState, submissionDeadline, closed, paused, cooldownSeconds };
+  }
+
+  batch(fundId: bigint, batchId: bigint): Promise<BatchWindow> {
+    return readBatchWindow(this.contract, fundId, batchId);
+  }
+
+  /** Scheduled batches with their providers, optionally of one fund. */
+  batchCalendar(fundId?: bigint, fromBlock?: number): Promise<ScheduledBatch[]> {
+    return listBatchCalendar(this.contract, fundId, fromBlock);
+  }
+
+  /**
+   * Schedules the next batch of `fundId`: submissions from `providers` are accepted from `opensAt`
+   * (once the batch is opened) until `submissionDeadline`, both in Unix seconds.
+   */
+  async scheduleBatch(
+    fundId: bigint,
+    opensAt: number,
+    submissionDeadline: number,
+    providers: string[]
+  ): Promise<SentTransaction & { batchId: bigint }> {
+    const sent = await this.send(() => this.contract.scheduleBatch(fundId, opensAt, submissionDeadline, providers));
+    const event = this.eventIn(sent.receipt, this.events.BatchScheduled);
+    return { ...sent, batchId: event.args.batchId };
+  }
+
+  /** Opens the next scheduled batch of `fundId` and returns its id. */
+  async openBatch(fundId: bigint): Promise<SentTransaction & { batchId: bigint }> {
+    const sent = await this.send(() => this.contract.openBatch(fundId));
+    const event = this.eventIn(sent.receipt, this.events.BatchOpened);
+    return { ...sent, batchId: event.args.batchId };
+  }
+
+  /** Closes the open batch of `fundId`; `crystallization` is null when the batch had no submission. */
+  async closeBatch(fundId: bigint): Promise<SentTransaction & { crystallization: PerformanceFeeCrystallization | null }> {
+    const sent = await this.send(() => this.contract.closeBatch(fundId));
+    const event = this.findEventIn(sent.receipt, this.events.PerformanceFeeCrystallized);
+    return { ...sent, crystallization: event ? crystallizationOf(event.args) : null };
+  }
+
+  /** Signs off the closed current batch of `fundId`, which lets the next one open. */
+  finalizeBatch(fundId: bigint): Promise<SentTransaction> {
+    return this.send(() => this.contract.finalizeBatch(fundId));
+  }
+
+  batchHandles(fundId: bigint, batchId: bigint): Promise<Record<BatchHandleField, string>> {
+    return readBatchHandles(this.contract, fundId, batchId);
+  }
+
+  batchStateHash(fundId: bigint, batchId: bigint): Promise<string> {
+    return this.contract.batchStateHash(fundId, batchId);
+  }
+
+  // Submissions
+
+  estimateSubmitFundState(fundId: bigint, encrypted: EncryptedFundState): Promise<bigint> {
+    return this.call(() => this.contract.submitFundState.estimateGas(...submitArgs(fundId, encrypted)));
+  }
+
+  encodeSubmitFundState(fundId: bigint, encrypted: EncryptedFundState): string {
+    return this.contract.interface.encodeFunctionData("submitFundState", [...submitArgs(fundId, encrypted)]);
+  }
+
+  /** Adds to the open batch of `fundId`; the signer must be assigned to the batch. */
+  submitFundState(fundId: bigint, encrypted: EncryptedFundState): Promise<SentTransaction> {
+    return this.send(() => this.contract.submitFundState(...submitArgs(fundId, encrypted)));
+  }
+
+  // Management fees
+
+  /** Accrues the management fee of `fundId` since its last accrual; see src/feeSchedule.ts for the rounding. */
+  async accrueManagementFee(fundId: bigint): Promise<ManagementFeeAccrual> {
+    const sent = await this.send(() => this.contract.accrueManagementFee(fundId));
+    const { args } = this.eventIn(sent.receipt, this.events.ManagementFeeAccrued);
+    return {
+      ...sent,
+      fundId: args.fundId,
+      batchId: args.batchId,
+      from: Number(args.fromTimestamp),
+      to: Number(args.toTimestamp),
+      fee: args.fee,
+      accrued: args.accrued,
+    };
+  }
+
+  /** Handle of the accrued management fee balance of `fundId`. */
+  accruedManagementFee(fundId: bigint): Promise<string> {
+    return this.contract.accruedManagementFees(fundId);
+  }
+
+  /** Handle of the crystallized performance fee balance of `fundId`. */
+  accruedPerformanceFee(fundId: bigint): Promise<string> {
+    return this.contract.accruedPerformanceFees(fundId);
+  }
+
+  /** Every crystallization of `fundId`, oldest first. */
+  async performanceFeeCrystallizations(fundId: bigint, fromBlock?: number): Promise<PerformanceFeeCrystallization[]> {
+    const logs = await this.contract.queryFilter(this.events.PerformanceFeeCrystallized(fundId), fromBlock);
+    return logs.map(log => crystallizationOf(log.args));
+  }
+
+  async lastFeeAccrualAt(fundId: bigint): Promise<number> {
+    return Number(await this.contract.lastFeeAccrualAt(fundId));
+  }
+
+  // Investor share ledger
+
+  /** Prices the shares of `fundId` from its current totalAssets; manager only. */
+  updateSharePrice(fundId: bigint): Promise<SentTransaction> {
+    return this.send(() => this.contract.updateSharePrice(fundId));
+  }
+
+  async sharePrice(fundId: bigint): Promise<SharePrice> {
+    const price = await this.contract.sharePrices(fundId);
+    const handleOrNull = (handle: string) => (BigInt(handle) === 0n ? null : handle);
+    return {
+      navPerShare: handleOrNull(price.navPerShare),
+      sharesPerAsset: handleOrNull(price.sharesPerAsset),
+      updatedAt: Number(price.updatedAt),
+    };
+  }
+
+  /** `amount` is an encrypted euint64 in USD cents, produced for this contract and the signer. */
+  async subscribe(fundId: bigint, amount: BytesLike, inputProof: BytesLike): Promise<Subscription> {
+    const sent = await this.send(() => this.contract.subscribe(fundId, amount, inputProof));
+    const { args } = this.eventIn(sent.receipt, this.events.Subscribed);
+    return { ...sent, fundId: args.fundId, amount: args.amount, shares: args.shares };
+  }
+
+  /** Redeems shares worth `amount` (encrypted USD cents), capped at the signer's balance. */
+  async redeem(fundId: bigint, amount: BytesLike, inputProof: BytesLike): Promise<Redemption> {
+    const sent = await this.send(() => this.contract.redeem(fundId, amount, inputProof));
+    const { args } = this.eventIn(sent.receipt, this.events.Redeemed);
+    return { ...sent, fundId: args.fundId, shares: args.shares, payout: args.payout };
+  }
+
+  /** Allows the signer, an investor of `fundId`, to decrypt the latest share price. */
+  allowSharePrice(fundId: bigint): Promise<SentTransaction> {
+    return this.send(() => this.contract.allowSharePrice(fundId));
+  }
+
+  /** Handle of the share balance; only `investor` may decrypt it. */
+  shareBalance(fundId: bigint, investor: string): Promise<string> {
+    return this.contract.shareBalances(fundId, investor);
+  }
+
+  /** Handle of the shares outstanding; the fund manager may decrypt it. */
+  totalShares(fundId: bigint): Promise<string> {
+    return this.contract.totalShares(fundId);
+  }
+
+  isInvestor(fundId: bigint, account: string): Promise<boolean> {
+    return this.contract.isInvestor(fundId, account);
+  }
+
+  investorFunds(investor: string, fromBlock?: number): Promise<bigint[]> {
+    return listInvestorFunds(this.contract, investor, fromBlock);
+  }
+
+  investorActivity(investor: string, fundId?: bigint, fromBlock?: number): Promise<InvestorActivity[]> {
+    return listInvestorActivity(this.contract, investor, fundId, fromBlock);
+  }
+
+  // Oracle decryption
+
+  /** Asks the oracle to decrypt the values of `batchId`, which must be closed; the signer must be a provider of the fund. */
+  async requestFundDecryption(fundId: bigint, batchId: bigint): Promise<DecryptionRequest> {
+    const sent = await this.send(() => this.contract.requestFundDecryption(fundId, batchId));
+    const { args } = this.eventIn(sent.receipt, this.events.DecryptionRequested);
+    return { ...sent, requestId: args.requestId, fundId: args.fundId, batchId: args.batchId, stateHash: args.stateHash };
+  }
+
+  trackDecryptions(options?: TrackDecryptionsOptions): Promise<TrackedDecryption[]> {
+    return trackDecryptions(this.contract, options);
+  }
+
+  // Compliance
+
+  /** Requires COMPLIANCE_OFFICER_ROLE. Thresholds are encrypted in the encodings of `COMPLIANCE_RULE_CODECS`. */
+  setComplianceRules(fundId: bigint, encrypted: EncryptedComplianceRules): Promise<SentTransaction> {
+    const thresholds = COMPLIANCE_RULES.map(rule => encrypted[rule]) as [string, string, string, string];
+    return this.send(() => this.contract.setComplianceRules(fundId, ...thresholds, encrypted.inputProof));
+  }
+
+  async hasComplianceRules(fundId: bigint): Promise<boolean> {
+    const rules = await this.contract.complianceRules(fundId);
+    return BigInt(rules.minTotalAssets) !== 0n;
+  }
+
+  /** Asks the oracle to evaluate the fund's rules on `batchId`, which must be closed; the signer must be a compliance officer. */
+  async requestComplianceCheck(fundId: bigint, batchId: bigint): Promise<ComplianceCheckRequest> {
+    const sent = await this.send(() => this.contract.requestComplianceCheck(fundId, batchId));
+    const { args } = this.eventIn(sent.receipt, this.events.ComplianceCheckRequested);
+    return { ...sent, requestId: args.requestId, fundId: args.fundId, batchId: args.batchId, stateHash: args.stateHash };
+  }
+
+  /** Results of checks requested under a different hash no longer describe the batch and its rules. */
+  complianceStateHash(fundId: bigint, batchId: bigint): Promise<string> {
+    return this.contract.complianceStateHash(fundId, batchId);
+  }
+
+  complianceResult(fundId: bigint, batchId: bigint): Promise<ComplianceResult | null> {
+    return readComplianceResult(this.contract, fundId, batchId);
+  }
+
+  complianceChecks(fundId?: bigint, fromBlock?: number): Promise<ComplianceCheck[]> {
+    return listComplianceChecks(this.contract, fundId, fromBlock);
+  }
+
+  // What-if scenarios
+
+  async runScenario(
+    kind: ScenarioKind,
+    fundId: bigint,
+    batchId: bigint,
+    handle: BytesLike,
+    inputProof: BytesLike,
+    negative = false
+  ): Promise<ScenarioComputation> {
+    const sent = await this.send(() => {
+      switch (kind) {
+        case "shock": return this.contract.scenarioShock(fundId, batchId, handle, negative, inputProof);
+        case "scale": return this.contract.scenarioScale(fundId, batchId, handle, inputProof);
+        case "flow": return this.contract.scenarioFlow(fundId, batchId, handle, negative, inputProof);
+      }
+    });
+    const { args } = this.eventIn(sent.receipt, this.events.ScenarioComputed);
+    return {
+      ...sent,
+      kind: SCENARIO_KINDS[Number(args.kind)],
+      fundId: args.fundId,
+      batchId: args.batchId,
+      handle: args.result,
+    };
+  }
+
+  scenarioResult(account: string, fundId: bigint, batchId: bigint): Promise<string> {
+    return this.contract.scenarioResults(account, fundId, batchId);
+  }
+
+  // Auditors and ACL
+
+  grantAuditorAccess(fundId: bigint, batchId: bigint, auditor: string, fields: BatchHandleField[]): Promise<SentTransaction> {
+    return this.send(() => this.contract.grantAuditorAccess(fundId, batchId, auditor, encodeAuditFields(fields)));
+  }
+
+  /** Re-applies an existing grant to the batch's current handles. */
+  reissueAuditorAccess(fundId: bigint, batchId: bigint, auditor: string): Promise<SentTransaction> {
+    return this.send(() => this.contract.reissueAuditorAccess(fundId, batchId, auditor));
+  }
+
+  /** Stops future reissues; handles already granted stay decryptable by the auditor. */
+  revokeAuditorAccess(fundId: bigint, batchId: bigint, auditor: string): Promise<SentTransaction> {
+    return this.send(() => this.contract.revokeAuditorAccess(fundId, batchId, auditor));
+  }
+
+  async auditorFields(fundId: bigint, batchId: bigint, auditor: string): Promise<BatchHandleField[]> {
+    return decodeAuditFields(await this.contract.auditorGrants(fundId, batchId, auditor));
+  }
+
+  auditorGrants(fundId: bigint, batchId: bigint, fromBlock?: number): Promise<AuditorGrant[]> {
+    return listAuditorGrants(this.contract, fundId, batchId, fromBlock);
+  }
+
+  inspectBatchHandles(fundId: bigint, batchId: bigint, options?: InspectOptions): Promise<InspectedHandle[]> {
+    return inspectBatchHandles(this.contract, fundId, batchId, options);
+  }
+
+  // Events
+
+  query<E extends TypedContractEvent>(event: E, fromBlock?: number, toBlock?: number): Promise<TypedEventLog<E>[]> {
+    return this.contract.queryFilter(event, fromBlock, toBlock);
+  }
+
+  /** Subscribes to `event` and resolves to a function that removes the listener. */
+  async on<E extends TypedContractEvent>(event: E, listener: TypedListener<E>): Promise<() => Promise<void>> {
+    await this.contract.on(event, listener);
+    return async () => {
+      await this.contract.off(event, listener);
+    };
+  }
+
+  private eventIn<E extends TypedContractEvent>(receipt: ContractTransactionReceipt, event: E): TypedEventLog<E> {
+    const log = this.findEventIn(receipt, event);
+    if (!log) throw new Error(`${event.name} event not found in transaction ${receipt.hash}`);
+    return log;
+  }
+
+  private findEventIn<E extends TypedContractEvent>(receipt: ContractTransactionReceipt, event: E): TypedEventLog<E> | undefined {
+    const log = receipt.logs.find(l => l instanceof EventLog && l.eventName === event.name);
+    return log as unknown as TypedEventLog<E> | undefined;
+  }
+
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (e) {
+      throw decodeAssetMgmtError(e) ?? e;
+    }
+  }
+
+  // Resolved before sending, so an unknown chain fails instead of reporting no HCU
+  // HCU is only reported, so an unknown chain or a failed network read never fails a transaction
+  private fhevmExecutor(): Promise<string | null> {
+    if (this.options.fhevmExecutorAddress) return Promise.resolve(this.options.fhevmExecutorAddress);
+    const provider = this.contract.runner?.provider;
+    if (!provider) return Promise.resolve(null);
+    this.executorAddress ??= provider.getNetwork().then(
+      ({ chainId }) => findFhevmExecutorAddress(chainId) ?? null,
+      () => {
+        this.executorAddress = undefined;
+        return null;
+      }
+    );
+    return this.executorAddress;
+  }
+
+  private send(fn: () => Promise<ContractTransactionResponse>): Promise<SentTransaction> {
+    return this.call(async () => {
+      const receipt = await (await fn()).wait();
+      if (!receipt) throw new Error("Transaction was dropped");
+      const executorAddress = await this.fhevmExecutor();
+      return { receipt, hcu: executorAddress ? hcuFromLogs(receipt.logs, executorAddress) : null };
+    });
+  }
+
+  private async queued(fn: () => Promise<ContractTransactionResponse>): Promise<SentTransaction & { actionId: bigint; eta: number }> {
+    const sent = await this.send(fn);
+    const { args } = this.eventIn(sent.receipt, this.events.ActionQueued);
+    return { ...sent, actionId: args.actionId, eta: Number(args.eta) };
+  }
+}
@@ -0,0 +1,87 @@
+// src/auditorGrants.ts
+// Client for AssetMgmtFhe's auditor grants. Grants are rebuilt from the
+// AuditorAccessGranted / AuditorAccessRevoked events and compared with the
+// batch's current handles, because a grant only covers the handles that existed
+// when it was issued.
+import type { AssetMgmtFhe } from "../types/contracts/Asset_Mgmt_Fhe.sol/AssetMgmtFhe";
+import { BATCH_HANDLE_FIELDS, readBatchHandles, type BatchHandleField } from "./aclInspector";
+
+/** Bit of each field in the contract's `fields` mask (AUDIT_TOTAL_ASSETS, ...). */
+export const AUDIT_FIELD_BITS: Record<BatchHandleField, number> = {
+  totalAssets: 1 << 0,
+  managerFeeRate: 1 << 1,
+  performanceFeeRate: 1 << 2,
+  highWaterMark: 1 << 3,
+  fundValuesAtBatchClose: 1 << 4,
+  overflowed: 1 << 5,
+};
+
+export interface AuditorGrant {
+  fundId: bigint;
+  batchId: bigint;
+  auditor: string;
+  fields: BatchHandleField[];
+  /** Handles allowed by the latest grant or reissue, by field. */
+  grantedHandles: Partial<Record<BatchHandleField, string>>;
+  /** Selected fields whose current handle the auditor has not been allowed on yet. */
+  staleFields: BatchHandleField[];
+  grantedAtBlock: number;
+  grantTx: string;
+}
+
+export function encodeAuditFields(fields: BatchHandleField[]): number {
+  return fields.reduce((mask, field) => mask | AUDIT_FIELD_BITS[field], 0);
+}
+
+export function decodeAuditFields(mask: number | bigint): BatchHandleField[] {
+  return BATCH_HANDLE_FIELDS.filter(field => (Number(mask) & AUDIT_FIELD_BITS[field]) !== 0);
+}
+
+/** Active grants of a fund's batch, in the order they were first issued. */
+export async function listAuditorGrants(
+  contract: AssetMgmtFhe,
+  fundId: bigint,
+  batchId: bigint,
+  fromBlock = 0
+): Promise<AuditorGrant[]> {
+  const [grantedLogs, revokedLogs, current] = await Promise.all([
+    contract.queryFilter(contract.filters.AuditorAccessGranted(fundId, batchId), fromBlock),
+    contract.queryFilter(contract.filters.AuditorAccessRevoked(fundId, batchId), fromBlock),
+    readBatchHandles(contract, fundId, batchId),
+  ]);
+
+  const changes = [
+    ...grantedLogs.map(log => ({ log, granted: log.args })),
+    ...revokedLogs.map(log => ({ log, granted: null })),
+  ].sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index);
+
+  const grants = new Map<string, AuditorGrant>();
+  for (const { log, granted } of changes) {
+    const auditor = log.args.auditor;
+    if (!granted) {
+      grants.delete(auditor);
+      continue;
+    }
+    const grantedHandles: AuditorGrant["grantedHandles"] = {};
+    BATCH_HANDLE_FIELDS.forEach((field, i) => {
+      if (BigInt(granted.handles[i]) !== 0n) grantedHandles[field] = granted.handles[i];
+    });
+    grants.set(auditor, {
+      fundId,
+      batchId,
+      auditor,
+      fields: decodeAuditFields(granted.fields),
+      grantedHandles,
+      staleFields: [],
+      grantedAtBlock: log.blockNumber,
+      grantTx: log.transactionHash,
+    });
+  }
+
+  return [...grants.values()].map(grant => ({
+    ...grant,
+    staleFields: grant.fields.filter(
+      field => BigInt(current[field]) !== 0n && grant.grantedHandles[field] !== current[field]
+    ),
+  }));
+}
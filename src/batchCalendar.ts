@@ -0,0 +1,87 @@
+// src/batchCalendar.ts
+// AssetMgmtFhe's batch lifecycle: scheduled, open, closed, finalized. The
+// schedule and provider list of each batch come from BatchScheduled, its state
+// and submission progress from the `batches` / `batchProviders` getters.
+import type { AssetMgmtFhe } from "../types/contracts/Asset_Mgmt_Fhe.sol/AssetMgmtFhe";
+
+/** Matches `AssetMgmtFhe.BatchState`; "none" is a batch id that was never scheduled. */
+export const BATCH_STATES = ["none", "scheduled", "open", "closed", "finalized"] as const;
+
+export type BatchState = (typeof BATCH_STATES)[number];
+
+/** Matches `AssetMgmtFhe.BatchProviderStatus`. */
+const BATCH_PROVIDER_STATUSES = ["none", "assigned", "submitted"] as const;
+
+export interface BatchProvider {
+  account: string;
+  submitted: boolean;
+}
+
+export interface BatchWindow {
+  fundId: bigint;
+  batchId: bigint;
+  state: BatchState;
+  /** Unix seconds. */
+  opensAt: number;
+  submissionDeadline: number;
+  /** Null until the batch is closed. */
+  closedAt: number | null;
+  providerCount: number;
+  submissionCount: number;
+}
+
+export interface ScheduledBatch extends BatchWindow {
+  providers: BatchProvider[];
+  scheduledTx: string;
+}
+
+export async function readBatchWindow(contract: AssetMgmtFhe, fundId: bigint, batchId: bigint): Promise<BatchWindow> {
+  const batch = await contract.batches(fundId, batchId);
+  return {
+    fundId,
+    batchId,
+    state: BATCH_STATES[Number(batch.state)],
+    opensAt: Number(batch.opensAt),
+    submissionDeadline: Number(batch.submissionDeadline),
+    closedAt: batch.closedAt === 0n ? null : Number(batch.closedAt),
+    providerCount: Number(batch.providerCount),
+    submissionCount: Number(batch.submissionCount),
+  };
+}
+
+/** Whether `submitFundState` would pass the batch checks at `now` (Unix seconds). */
+export function acceptsSubmissions(batch: BatchWindow, now = Math.floor(Date.now() / 1000)): boolean {
+  return batch.state === "open" && now < batch.submissionDeadline;
+}
+
+/** Whether `closeBatch` would pass the batch checks at `now`: after the deadline, or once every assigned provider submitted. */
+export function canClose(batch: BatchWindow, now = Math.floor(Date.now() / 1000)): boolean {
+  return batch.state === "open" && (now >= batch.submissionDeadline || batch.submissionCount >= batch.providerCount);
+}
+
+/** Whether `openBatch` can open this batch at `now`, given the state of the batch before it. */
+export function canOpen(batch: BatchWindow, previous: BatchWindow | null, now = Math.floor(Date.now() / 1000)): boolean {
+  return batch.state === "scheduled" && now >= batch.opensAt && (previous === null || previous.state === "finalized");
+}
+
+/** Scheduled batches, optionally of one fund, ordered by fund and then by batch id. */
+export async function listBatchCalendar(contract: AssetMgmtFhe, fundId?: bigint, fromBlock = 0): Promise<ScheduledBatch[]> {
+  const logs = await contract.queryFilter(contract.filters.BatchScheduled(fundId), fromBlock);
+  const batches = await Promise.all(
+    logs.map(async log => {
+      const { fundId, batchId } = log.args;
+      // scheduleBatch accepts duplicates but assigns each provider once
+      const providers = [...new Set(log.args.providers)];
+      const [window, statuses] = await Promise.all([
+        readBatchWindow(contract, fundId, batchId),
+        Promise.all(providers.map(account => contract.batchProviders(fundId, batchId, account))),
+      ]);
+      return {
+        ...window,
+        providers: providers.map((account, i) => ({ account, submitted: BATCH_PROVIDER_STATUSES[Number(statuses[i])] === "submitted" })),
+        scheduledTx: log.transactionHash,
+      };
+    })
+  );
+  return batches.sort((a, b) => (a.fundId === b.fundId ? Number(a.batchId - b.batchId) : a.fundId < b.fundId ? -1 : 1));
+}
@@ -0,0 +1,117 @@
+// src/compliance.ts
+// AssetMgmtFhe's encrypted compliance rules. The contract compares the batch
+// values with encrypted thresholds and has only the resulting ebools decrypted
+// by the oracle; results are read from ComplianceCheckRequested /
+// ComplianceVerified. `evaluateCompliance` is the plaintext reference.
+import type { AssetMgmtFhe } from "../types/contracts/Asset_Mgmt_Fhe.sol/AssetMgmtFhe";
+import { basisPoints, money, type FixedPointCodec } from "./encoding";
+import { BPS_DENOMINATOR } from "./feeSchedule";
+
+/** In the order of the ebools decoded by `complianceCallback`. */
+export const COMPLIANCE_RULES = ["minTotalAssets", "maxManagerFeeRate", "maxPerformanceFeeRate", "maxDrawdown"] as const;
+
+export type ComplianceRule = (typeof COMPLIANCE_RULES)[number];
+
+/** Bit of each rule in the contract's `failedRules` mask (RULE_MIN_TOTAL_ASSETS, ...). */
+export const COMPLIANCE_RULE_BITS: Record<ComplianceRule, number> = {
+  minTotalAssets: 1 << 0,
+  maxManagerFeeRate: 1 << 1,
+  maxPerformanceFeeRate: 1 << 2,
+  maxDrawdown: 1 << 3,
+};
+
+/** Encoding of each threshold: USD cents for AUM, basis points for the rates and the drawdown. */
+export const COMPLIANCE_RULE_CODECS: Record<ComplianceRule, FixedPointCodec> = {
+  minTotalAssets: money,
+  maxManagerFeeRate: basisPoints,
+  maxPerformanceFeeRate: basisPoints,
+  maxDrawdown: basisPoints,
+};
+
+/** Handles and proof of one `setComplianceRules` call; all four share the proof. */
+export type EncryptedComplianceRules = Record<ComplianceRule, string> & { inputProof: string };
+
+export function decodeFailedRules(mask: number | bigint): ComplianceRule[] {
+  return COMPLIANCE_RULES.filter(rule => (Number(mask) & COMPLIANCE_RULE_BITS[rule]) !== 0);
+}
+
+/** Raw batch values, in the encodings of `AssetMgmtFhe.Fund`. */
+export interface ComplianceInput {
+  totalAssets: bigint;
+  managerFeeRate: bigint;
+  performanceFeeRate: bigint;
+  highWaterMark: bigint;
+}
+
+/**
+ * Rules the batch fails, computed like `requestComplianceCheck`. A zero HWM never fails the drawdown rule,
+ * and a maximum drawdown above 100% counts as 100%.
+ */
+export function evaluateCompliance(input: ComplianceInput, rules: Record<ComplianceRule, bigint>): ComplianceRule[] {
+  const { totalAssets, managerFeeRate, performanceFeeRate, highWaterMark } = input;
+  const drawdown = highWaterMark > totalAssets ? highWaterMark - totalAssets : 0n;
+  const passed: Record<ComplianceRule, boolean> = {
+    minTotalAssets: totalAssets >= rules.minTotalAssets,
+    maxManagerFeeRate: managerFeeRate <= rules.maxManagerFeeRate,
+    maxPerformanceFeeRate: performanceFeeRate <= rules.maxPerformanceFeeRate,
+    maxDrawdown: drawdown * BPS_DENOMINATOR <= (rules.maxDrawdown < BPS_DENOMINATOR ? rules.maxDrawdown : BPS_DENOMINATOR) * highWaterMark,
+  };
+  return COMPLIANCE_RULES.filter(rule => !passed[rule]);
+}
+
+export interface ComplianceResult {
+  requestId: bigint;
+  compliant: boolean;
+  failedRules: ComplianceRule[];
+  /** Unix seconds of the oracle callback. */
+  verifiedAt: number;
+}
+
+/** Latest oracle result for a batch, or null if no check has completed. */
+export async function readComplianceResult(contract: AssetMgmtFhe, fundId: bigint, batchId: bigint): Promise<ComplianceResult | null> {
+  const result = await contract.complianceResults(fundId, batchId);
+  if (result.verifiedAt === 0n) return null;
+  return {
+    requestId: result.requestId,
+    compliant: result.compliant,
+    failedRules: decodeFailedRules(result.failedRules),
+    verifiedAt: Number(result.verifiedAt),
+  };
+}
+
+export interface ComplianceCheck {
+  requestId: bigint;
+  fundId: bigint;
+  batchId: bigint;
+  stateHash: string;
+  requestedAtBlock: number;
+  requestTx: string;
+  /** Null until `ComplianceVerified` is emitted for the request. */
+  result: { compliant: boolean; failedRules: ComplianceRule[]; verifiedTx: string } | null;
+}
+
+/** Compliance checks, newest first, optionally limited to one fund. */
+export async function listComplianceChecks(contract: AssetMgmtFhe, fundId?: bigint, fromBlock = 0): Promise<ComplianceCheck[]> {
+  const [requested, verified] = await Promise.all([
+    contract.queryFilter(contract.filters.ComplianceCheckRequested(undefined, fundId), fromBlock),
+    contract.queryFilter(contract.filters.ComplianceVerified(undefined, fundId), fromBlock),
+  ]);
+  const results = new Map(verified.map(log => [log.args.requestId, log]));
+
+  return requested
+    .map(log => {
+      const done = results.get(log.args.requestId);
+      return {
+        requestId: log.args.requestId,
+        fundId: log.args.fundId,
+        batchId: log.args.batchId,
+        stateHash: log.args.stateHash,
+        requestedAtBlock: log.blockNumber,
+        requestTx: log.transactionHash,
+        result: done
+          ? { compliant: done.args.compliant, failedRules: decodeFailedRules(done.args.failedRules), verifiedTx: done.transactionHash }
+          : null,
+      };
+    })
+    .sort((a, b) => b.requestedAtBlock - a.requestedAtBlock);
+}
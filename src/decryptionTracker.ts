@@ -0,0 +1,104 @@
+// src/decryptionTracker.ts
+// Matches AssetMgmtFhe's DecryptionRequested events to the DecryptionCompleted
+// events emitted later by myCallback. A callback that reverts leaves no log, so
+// StateMismatch is detected by comparing the request's stateHash with the
+// contract's current batchStateHash.
+import type { Log } from "ethers";
+import type { AssetMgmtFhe } from "../types/contracts/Asset_Mgmt_Fhe.sol/AssetMgmtFhe";
+import { decodeFundState, type FundState } from "./encoding";
+
+/** Requests still pending after this long are reported as stale. */
+export const DEFAULT_STALE_AFTER_SECONDS = 15 * 60;
+
+export type DecryptionStatus = "pending" | "completed" | "stale" | "state-mismatch";
+
+export interface TrackedDecryption {
+  requestId: bigint;
+  fundId: bigint;
+  batchId: bigint;
+  stateHash: string;
+  status: DecryptionStatus;
+  requestedAt: number;
+  requestTx: string;
+  /** Seconds from request to completion, or to `now` while unresolved. */
+  elapsedSeconds: number;
+  completedAt?: number;
+  completionTx?: string;
+  result?: FundState;
+  /** Whether a submission to the batch went past MAX_FUND_VALUE, leaving totalAssets saturated. */
+  overflowed?: boolean;
+}
+
+export interface TrackDecryptionsOptions {
+  /** Only track requests for this fund. */
+  fundId?: bigint;
+  fromBlock?: number;
+  staleAfterSeconds?: number;
+  /** Unix seconds; defaults to the wall clock. */
+  now?: number;
+}
+
+export async function trackDecryptions(contract: AssetMgmtFhe, options: TrackDecryptionsOptions = {}): Promise<TrackedDecryption[]> {
+  const { fundId, fromBlock = 0, staleAfterSeconds = DEFAULT_STALE_AFTER_SECONDS } = options;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+
+  const [requested, completed] = await Promise.all([
+    contract.queryFilter(contract.filters.DecryptionRequested(undefined, fundId), fromBlock),
+    contract.queryFilter(contract.filters.DecryptionCompleted(undefined, fundId), fromBlock),
+  ]);
+
+  const timestamps = new Map<number, Promise<number>>();
+  const timestampOf = (log: Log) => {
+    if (!timestamps.has(log.blockNumber)) {
+      timestamps.set(log.blockNumber, log.getBlock().then(block => block.timestamp));
+    }
+    return timestamps.get(log.blockNumber)!;
+  };
+
+  const completions = new Map<bigint, (typeof completed)[number]>();
+  for (const log of completed) {
+    completions.set(log.args.requestId, log);
+  }
+
+  // One read per batch, shared by all of its pending requests
+  const stateHashes = new Map<string, Promise<string>>();
+  const currentStateHash = (fundId: bigint, batchId: bigint) => {
+    const key = `${fundId}:${batchId}`;
+    if (!stateHashes.has(key)) stateHashes.set(key, contract.batchStateHash(fundId, batchId));
+    return stateHashes.get(key)!;
+  };
+
+  const tracked = requested.map(async (log): Promise<TrackedDecryption> => {
+    const { requestId, fundId, batchId, stateHash } = log.args;
+    const requestedAt = await timestampOf(log);
+    const base = { requestId, fundId, batchId, stateHash, requestedAt, requestTx: log.transactionHash };
+
+    const completion = completions.get(requestId);
+    if (completion) {
+      const completedAt = await timestampOf(completion);
+      return {
+        ...base,
+        status: "completed",
+        elapsedSeconds: completedAt - requestedAt,
+        completedAt,
+        completionTx: completion.transactionHash,
+        result: decodeFundState({
+          totalAssets: completion.args.totalAssets,
+          managerFeeRate: completion.args.managerFee,
+          performanceFeeRate: completion.args.performanceFee,
+          highWaterMark: completion.args.highWaterMark,
+          valueAtBatchClose: completion.args.valueAtBatchClose,
+        }),
+        overflowed: completion.args.overflowed,
+      };
+    }
+
+    const elapsedSeconds = Math.max(0, now - requestedAt);
+    let status: DecryptionStatus = elapsedSeconds > staleAfterSeconds ? "stale" : "pending";
+    if ((await currentStateHash(fundId, batchId)) !== stateHash) status = "state-mismatch";
+    return { ...base, status, elapsedSeconds };
+  });
+
+  const results = await Promise.all(tracked);
+  return results.sort((a, b) => b.requestedAt - a.requestedAt);
+}
@@ -0,0 +1,62 @@
+// src/deployments.ts
+// Deployment manifests, one per hardhat network in deployments/<network>.json.
+// deploy/deploy.ts writes them and the frontend picks the entries of the chain
+// it is configured for, so contract addresses are never edited by hand.
+import { id } from "ethers";
+
+/** Bumped when the manifest layout changes incompatibly. */
+export const DEPLOYMENT_MANIFEST_VERSION = 1;
+
+export interface ContractDeployment {
+  /** Fully qualified name, `contracts/Asset_Mgmt_Fhe.sol:AssetMgmtFhe`. */
+  contract: string;
+  address: string;
+  /** See `abiHash`; tells whether a bundled ABI matches the deployed contract. */
+  abiHash: string;
+  deployer: string;
+  blockNumber: number;
+  transactionHash: string;
+  /** Bigints are stored as decimal strings. */
+  constructorArgs: unknown[];
+  /** ISO 8601. */
+  deployedAt: string;
+}
+
+export interface DeploymentManifest {
+  version: number;
+  network: string;
+  chainId: number;
+  /** Keyed by contract name, `AssetMgmtFhe`. */
+  contracts: Record<string, ContractDeployment>;
+}
+
+/** keccak256 of the ABI as serialized by `JSON.stringify`, i.e. in artifact order. */
+export function abiHash(abi: readonly unknown[]): string {
+  return id(JSON.stringify(abi));
+}
+
+/** Checks the layout of a parsed manifest; `source` names it in errors. */
+export function parseDeploymentManifest(json: unknown, source: string): DeploymentManifest {
+  const manifest = json as Partial<DeploymentManifest> | null;
+  if (typeof manifest !== "object" || manifest === null) {
+    throw new Error(`${source}: not a deployment manifest`);
+  }
+  if (manifest.version !== DEPLOYMENT_MANIFEST_VERSION) {
+    throw new Error(`${source}: manifest version ${manifest.version}, expected ${DEPLOYMENT_MANIFEST_VERSION}`);
+  }
+  if (typeof manifest.network !== "string" || typeof manifest.chainId !== "number" || typeof manifest.contracts !== "object") {
+    throw new Error(`${source}: network, chainId and contracts are required`);
+  }
+  return manifest as DeploymentManifest;
+}
+
+/**
+ * The deployment of `contractName` on `chainId`. When several manifests share a
+ * chain (`localhost` and a forked network, say), the most recent deployment wins.
+ */
+export function findDeployment(manifests: DeploymentManifest[], chainId: number, contractName: string): ContractDeployment | null {
+  return manifests
+    .filter(manifest => manifest.chainId === chainId && manifest.contracts[contractName])
+    .map(manifest => manifest.contracts[contractName])
+    .reduce<ContractDeployment | null>((latest, d) => (!latest || d.deployedAt > latest.deployedAt ? d : latest), null);
+}
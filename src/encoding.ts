@@ -0,0 +1,132 @@
+// src/encoding.ts
+// Fixed-point encodings between human values and the unsigned integers stored in
+// AssetMgmtFhe's encrypted fields. Shared by the frontend and the hardhat scripts
+// so both sides agree on scales.
+
+export const EUINT64_MAX = 0xffffffffffffffffn;
+
+/**
+ * Cap on AssetMgmtFhe's aggregated amounts (`MAX_FUND_VALUE`), in cents or share
+ * units: about 703 billion USD. Sums above it saturate and flag the batch.
+ */
+export const MAX_FUND_VALUE = EUINT64_MAX >> 18n;
+
+export interface FixedPointCodec {
+  readonly name: string;
+  readonly unit: string;
+  /** Number of encoded units per human unit, always a power of ten. */
+  readonly scale: number;
+  /** Largest encodable raw value. */
+  readonly max: bigint;
+  encode(value: number): bigint;
+  decode(raw: bigint | number): number;
+  format(raw: bigint | number): string;
+}
+
+const decimalsOf = (scale: number) => Math.round(Math.log10(scale));
+
+/**
+ * Rounds value half up to `decimals` places and returns it as an integer, working on its
+ * shortest decimal string: 1.005 gives 101 at two decimals, where toFixed gives "1.00".
+ */
+function toScaledInteger(value: number, decimals: number): bigint {
+  const [mantissa, exponent = "0"] = value.toString().split("e");
+  const [whole, fraction = ""] = mantissa.split(".");
+  const digits = BigInt(whole + fraction);
+  const shift = decimals + Number(exponent) - fraction.length;
+  if (shift >= 0) return digits * 10n ** BigInt(shift);
+  const divisor = 10n ** BigInt(-shift);
+  const quotient = digits / divisor;
+  return 2n * (digits % divisor) >= divisor ? quotient + 1n : quotient;
+}
+
+export function createCodec(name: string, unit: string, scale: number, max: bigint = EUINT64_MAX): FixedPointCodec {
+  const decimals = decimalsOf(scale);
+  const codec: FixedPointCodec = {
+    name,
+    unit,
+    scale,
+    max,
+    encode(value: number): bigint {
+      if (!Number.isFinite(value) || value < 0) {
+        throw new RangeError(`${name}: ${value} is not a non-negative finite number`);
+      }
+      if (value * scale > Number(max) + 1) {
+        throw new RangeError(`${name}: ${value} ${unit} is above the maximum of ${codec.decode(max)} ${unit}`);
+      }
+      // Round on the decimal string so float noise from value * scale never reaches the raw value
+      const raw = toScaledInteger(value, decimals);
+      if (raw > max) {
+        throw new RangeError(`${name}: ${value} ${unit} encodes to ${raw}, above the maximum of ${max}`);
+      }
+      return raw;
+    },
+    decode(raw: bigint | number): number {
+      const value = BigInt(raw);
+      if (value < 0n || value > max) {
+        throw new RangeError(`${name}: raw value ${value} is outside [0, ${max}]`);
+      }
+      return Number(value) / scale;
+    },
+    format(raw: bigint | number): string {
+      return `${codec.decode(raw).toFixed(decimals)} ${unit}`;
+    },
+  };
+  return codec;
+}
+
+/** USD amounts, stored in cents. */
+export const money = createCodec("money", "USD", 100, MAX_FUND_VALUE);
+
+/** Percentages, stored in basis points: 1% = 100, up to AssetMgmtFhe's 100% (`BPS_DENOMINATOR`). */
+export const basisPoints = createCodec("basisPoints", "%", 100, 10_000n);
+
+/** Percentages, stored per mille: 1% = 10. */
+export const perMille = createCodec("perMille", "%", 10);
+
+/** Fund shares, stored in hundredths of a share. */
+export const shares = createCodec("shares", "shares", 100, MAX_FUND_VALUE);
+
+/** Largest share price; AssetMgmtFhe computes prices with an 18-bit quotient. */
+export const SHARE_PRICE_MAX = (1n << 18n) - 1n;
+
+/** NAV per share in USD, four decimals (`SHARE_PRICE_SCALE`). */
+export const navPerShare = createCodec("navPerShare", "USD", 10_000, SHARE_PRICE_MAX);
+
+/** Shares issued per USD, four decimals (`SHARE_PRICE_SCALE`). */
+export const sharesPerAsset = createCodec("sharesPerAsset", "shares/USD", 10_000, SHARE_PRICE_MAX);
+
+/** What-if scenario percentages in basis points, up to AssetMgmtFhe's `MAX_FACTOR_BPS` (x26.2143). */
+export const scenarioFactor = createCodec("scenarioFactor", "%", 100, (1n << 18n) - 1n);
+
+/** Encoding of each encrypted field of `AssetMgmtFhe.Fund` and the batch-close snapshot. */
+export const FUND_FIELD_CODECS = {
+  totalAssets: money,
+  managerFeeRate: basisPoints,
+  performanceFeeRate: basisPoints,
+  highWaterMark: money,
+  valueAtBatchClose: money,
+} as const;
+
+export type FundField = keyof typeof FUND_FIELD_CODECS;
+
+export type FundState = Record<FundField, number>;
+
+export function encodeFundField(field: FundField, value: number): bigint {
+  return FUND_FIELD_CODECS[field].encode(value);
+}
+
+export function decodeFundField(field: FundField, raw: bigint | number): number {
+  return FUND_FIELD_CODECS[field].decode(raw);
+}
+
+/** Decodes the cleartexts of a `DecryptionCompleted` event. */
+export function decodeFundState(raw: Record<FundField, bigint | number>): FundState {
+  return {
+    totalAssets: decodeFundField("totalAssets", raw.totalAssets),
+    managerFeeRate: decodeFundField("managerFeeRate", raw.managerFeeRate),
+    performanceFeeRate: decodeFundField("performanceFeeRate", raw.performanceFeeRate),
+    highWaterMark: decodeFundField("highWaterMark", raw.highWaterMark),
+    valueAtBatchClose: decodeFundField("valueAtBatchClose", raw.valueAtBatchClose),
+  };
+}
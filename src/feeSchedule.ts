@@ -0,0 +1,112 @@
+// src/feeSchedule.ts
+// Plaintext model of AssetMgmtFhe's management fee accrual and performance fee
+// crystallization. It works on the raw encoded integers (cents, basis points,
+// seconds) and rounds exactly like the contract, so decrypted on-chain results
+// can be compared value for value.
+import { MAX_FUND_VALUE } from "./encoding";
+
+export const BPS_DENOMINATOR = 10_000n;
+
+export const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+// Balances saturate at MAX_FUND_VALUE on-chain; fees themselves stay below it
+const bounded = (value: bigint) => (value > MAX_FUND_VALUE ? MAX_FUND_VALUE : value);
+
+/**
+ * Fee charged on `totalAssets` (cents) at `managerFeeRate` (annual, basis points)
+ * over `elapsedSeconds`. Rates above 100% are capped, as on-chain.
+ */
+export function managementFeeFor(totalAssets: bigint, managerFeeRate: bigint, elapsedSeconds: bigint): bigint {
+  const rate = managerFeeRate > BPS_DENOMINATOR ? BPS_DENOMINATOR : managerFeeRate;
+  const annualFee = (totalAssets * rate) / BPS_DENOMINATOR;
+  return (annualFee * elapsedSeconds) / SECONDS_PER_YEAR;
+}
+
+/** Fund values in effect for an accrual, i.e. those of the current batch when it is sent. */
+export interface FeeAccrualInput {
+  /** Unix seconds of the accrual transaction. */
+  at: number;
+  totalAssets: bigint;
+  managerFeeRate: bigint;
+}
+
+export interface FeeAccrual {
+  from: number;
+  to: number;
+  fee: bigint;
+  /** Running balance after this accrual, as stored in `accruedManagementFees`. */
+  accrued: bigint;
+}
+
+/**
+ * Replays successive accrueManagementFee calls starting at `start` (the fund's
+ * creation time or its last accrual) with an opening balance of `accrued`.
+ */
+export function buildFeeSchedule(start: number, accruals: FeeAccrualInput[], accrued = 0n): FeeAccrual[] {
+  const schedule: FeeAccrual[] = [];
+  let from = start;
+  for (const { at, totalAssets, managerFeeRate } of accruals) {
+    if (at <= from) throw new RangeError(`Accrual at ${at} is not after the previous one at ${from}`);
+    const fee = managementFeeFor(totalAssets, managerFeeRate, BigInt(at - from));
+    accrued = bounded(accrued + fee);
+    schedule.push({ from, to: at, fee, accrued });
+    from = at;
+  }
+  return schedule;
+}
+
+/** Per-fund performance fee state carried from one batch close to the next. */
+export interface PerformanceFeeState {
+  /** Null until the first batch close sets the reference level. */
+  highWaterMark: bigint | null;
+  accrued: bigint;
+}
+
+/** Values of the closing batch. */
+export interface CrystallizationInput {
+  totalAssets: bigint;
+  performanceFeeRate: bigint;
+}
+
+export interface Crystallization extends PerformanceFeeState {
+  highWaterMark: bigint;
+  /** Part of totalAssets above the previous HWM. */
+  gain: bigint;
+  fee: bigint;
+}
+
+export const INITIAL_PERFORMANCE_FEE_STATE: PerformanceFeeState = { highWaterMark: null, accrued: 0n };
+
+/** One closeBatch crystallization: the first close only sets the HWM. */
+export function crystallizePerformanceFee(state: PerformanceFeeState, input: CrystallizationInput): Crystallization {
+  const { totalAssets, performanceFeeRate } = input;
+  if (state.highWaterMark === null) {
+    return { highWaterMark: totalAssets, accrued: state.accrued, gain: 0n, fee: 0n };
+  }
+  const gain = totalAssets > state.highWaterMark ? totalAssets - state.highWaterMark : 0n;
+  const rate = performanceFeeRate > BPS_DENOMINATOR ? BPS_DENOMINATOR : performanceFeeRate;
+  const fee = (gain * rate) / BPS_DENOMINATOR;
+  return {
+    highWaterMark: totalAssets > state.highWaterMark ? totalAssets : state.highWaterMark,
+    accrued: bounded(state.accrued + fee),
+    gain,
+    fee,
+  };
+}
+
+/**
+ * Replays successive crystallizations of a fund. Closing a batch without any
+ * submission does not crystallize on-chain, so such closes must be left out.
+ */
+export function simulateCrystallizations(
+  closes: CrystallizationInput[],
+  state: PerformanceFeeState = INITIAL_PERFORMANCE_FEE_STATE
+): Crystallization[] {
+  const results: Crystallization[] = [];
+  for (const close of closes) {
+    const result = crystallizePerformanceFee(state, close);
+    results.push(result);
+    state = result;
+  }
+  return results;
+}
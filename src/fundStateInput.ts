@@ -0,0 +1,117 @@
+// src/fundStateInput.ts
+// Plaintext fund states for `submitFundState`, read from JSON or CSV in the human
+// units of src/encoding.ts: USD for totalAssets, percent for the fee rates. Each
+// row may name its fund, so one file can feed the submissions of several funds.
+import { encodeFundField } from "./encoding";
+
+/** The fields a provider submits, in `submitFundState` argument order. */
+export const SUBMITTED_FUND_FIELDS = ["totalAssets", "managerFeeRate", "performanceFeeRate"] as const;
+
+export type SubmittedFundField = (typeof SUBMITTED_FUND_FIELDS)[number];
+
+export type FundStateInputFormat = "json" | "csv";
+
+export interface FundStateRow extends Record<SubmittedFundField, number> {
+  /** Fund the row is submitted to; rows without one need a default fund. */
+  fundId?: bigint;
+}
+
+/** Guesses the format from the file extension; anything but `.csv` is read as JSON. */
+export function fundStateFormatOf(path: string): FundStateInputFormat {
+  return path.toLowerCase().endsWith(".csv") ? "csv" : "json";
+}
+
+const parseNumber = (value: unknown, field: string, where: string): number => {
+  const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  if (typeof number !== "number" || !Number.isFinite(number)) {
+    throw new Error(`${where}: ${field} must be a number, got ${JSON.stringify(value)}`);
+  }
+  return number;
+};
+
+const parseRow = (record: Record<string, unknown>, where: string): FundStateRow => {
+  const row: FundStateRow = {
+    totalAssets: parseNumber(record.totalAssets, "totalAssets", where),
+    managerFeeRate: parseNumber(record.managerFeeRate, "managerFeeRate", where),
+    performanceFeeRate: parseNumber(record.performanceFeeRate, "performanceFeeRate", where),
+  };
+  // Validates the ranges now rather than after the first rows were sent
+  SUBMITTED_FUND_FIELDS.forEach(field => encodeFundField(field, row[field]));
+
+  const fund = record.fund ?? record.fundId;
+  if (fund !== undefined && fund !== "") {
+    if (!/^\d+$/.test(String(fund).trim())) throw new Error(`${where}: fund must be a fund id, got ${JSON.stringify(fund)}`);
+    row.fundId = BigInt(String(fund).trim());
+  }
+  return row;
+};
+
+const skipBlanks = (line: string, i: number) => {
+  while (line[i] === " " || line[i] === "\t") i++;
+  return i;
+};
+
+/**
+ * Splits one CSV line into trimmed cells. Cells may be quoted as in RFC 4180, with
+ * `""` for a quote inside them, but may not span lines; any other quote is an error.
+ */
+function splitCsvLine(line: string, where: string): string[] {
+  const cells: string[] = [];
+  let i = 0;
+  for (;;) {
+    i = skipBlanks(line, i);
+    let cell = "";
+    if (line[i] === '"') {
+      for (i++; line[i] !== '"' || line[i + 1] === '"'; i++) {
+        if (i >= line.length) throw new Error(`${where}: unterminated quoted cell`);
+        if (line[i] === '"') i++;
+        cell += line[i];
+      }
+      i = skipBlanks(line, i + 1);
+      if (i < line.length && line[i] !== ",") throw new Error(`${where}: unexpected text after a quoted cell`);
+    } else {
+      const end = line.indexOf(",", i) === -1 ? line.length : line.indexOf(",", i);
+      cell = line.slice(i, end).trim();
+      if (cell.includes('"')) throw new Error(`${where}: quote inside an unquoted cell, quote the whole cell`);
+      i = end;
+    }
+    cells.push(cell.trim());
+    if (i >= line.length) return cells;
+    i++;
+  }
+}
+
+/**
+ * Parses fund states. JSON is one object or an array of objects; CSV has a header
+ * row naming the columns, and cells may be double-quoted. Both use the keys `fund` (optional), `totalAssets`,
+ * `managerFeeRate` and `performanceFeeRate`.
+ */
+export function parseFundStates(text: string, format: FundStateInputFormat): FundStateRow[] {
+  if (format === "json") {
+    const parsed: unknown = JSON.parse(text);
+    const records = Array.isArray(parsed) ? parsed : [parsed];
+    return records.map((record, i) => {
+      if (typeof record !== "object" || record === null) throw new Error(`Entry ${i}: expected an object`);
+      return parseRow(record as Record<string, unknown>, `Entry ${i}`);
+    });
+  }
+
+  const lines = text
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: line.trim(), number: i + 1 }))
+    .filter(({ line }) => line !== "" && !line.startsWith("#"));
+  if (lines.length === 0) return [];
+  const header = splitCsvLine(lines[0].line, `Line ${lines[0].number}`);
+  return lines.slice(1).map(({ line, number }) => {
+    const cells = splitCsvLine(line, `Line ${number}`);
+    if (cells.length !== header.length) {
+      throw new Error(`Line ${number}: expected ${header.length} columns, got ${cells.length}`);
+    }
+    return parseRow(Object.fromEntries(header.map((column, i) => [column, cells[i]])), `Line ${number}`);
+  });
+}
+
+/** Raw values to encrypt for `submitFundState`, in argument order. */
+export function encodeFundStateRow(row: FundStateRow): bigint[] {
+  return SUBMITTED_FUND_FIELDS.map(field => encodeFundField(field, row[field]));
+}
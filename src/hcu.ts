@@ -0,0 +1,214 @@
+// src/hcu.ts
+// Homomorphic complexity units (HCU) charged by the FHEVM coprocessor. The costs
+// mirror HCULimit.sol from @fhevm/core-contracts 0.8; usage is reconstructed from
+// the FHEVMExecutor events in a transaction receipt.
+import { Interface, type Log } from "ethers";
+
+/** FHEVMExecutor by chain id: Sepolia, and the mock the hardhat plugin deploys on hardhat networks. */
+export const FHEVM_EXECUTOR_ADDRESSES: Readonly<Record<number, string>> = {
+  11155111: "0x848B0066793BcC60346Da1F49049357399B8D595",
+  31337: "0xCD3ab3bd6bcc0c0bf3E27912a92043e817B1cf69",
+};
+
+/** FHEVMExecutor of a chain, or undefined when none is known for it. */
+export const findFhevmExecutorAddress = (chainId: number | bigint): string | undefined =>
+  FHEVM_EXECUTOR_ADDRESSES[Number(chainId)];
+
+export function fhevmExecutorAddress(chainId: number | bigint): string {
+  const address = findFhevmExecutorAddress(chainId);
+  if (!address) throw new Error(`No FHEVMExecutor address known for chain ${chainId}`);
+  return address;
+}
+
+export const MAX_HCU_PER_TX = 20_000_000;
+export const MAX_HCU_DEPTH_PER_TX = 5_000_000;
+
+// Index = FheType enum value, encoded in byte 30 of every handle
+const FHE_TYPE_NAMES = ["Bool", "Uint4", "Uint8", "Uint16", "Uint32", "Uint64", "Uint128", "Uint160", "Uint256"] as const;
+
+export type FheTypeName = (typeof FHE_TYPE_NAMES)[number];
+
+type CostRow = Partial<Record<FheTypeName, number>>;
+
+// [scalar, non-scalar]; operations without a scalar variant use the same row twice
+const BINARY_OP_COSTS: Record<string, [CostRow, CostRow]> = {
+  FheAdd: [
+    { Uint8: 84000, Uint16: 93000, Uint32: 95000, Uint64: 133000, Uint128: 172000 },
+    { Uint8: 88000, Uint16: 93000, Uint32: 125000, Uint64: 162000, Uint128: 259000 },
+  ],
+  FheSub: [
+    { Uint8: 84000, Uint16: 93000, Uint32: 95000, Uint64: 133000, Uint128: 172000 },
+    { Uint8: 91000, Uint16: 93000, Uint32: 125000, Uint64: 162000, Uint128: 260000 },
+  ],
+  FheMul: [
+    { Uint8: 122000, Uint16: 193000, Uint32: 265000, Uint64: 365000, Uint128: 696000 },
+    { Uint8: 150000, Uint16: 222000, Uint32: 328000, Uint64: 596000, Uint128: 1686000 },
+  ],
+  FheDiv: [
+    { Uint8: 210000, Uint16: 302000, Uint32: 438000, Uint64: 715000, Uint128: 1225000 },
+    { Uint8: 210000, Uint16: 302000, Uint32: 438000, Uint64: 715000, Uint128: 1225000 },
+  ],
+  FheRem: [
+    { Uint8: 440000, Uint16: 580000, Uint32: 792000, Uint64: 1153000, Uint128: 1943000 },
+    { Uint8: 440000, Uint16: 580000, Uint32: 792000, Uint64: 1153000, Uint128: 1943000 },
+  ],
+  FheBitAnd: [
+    { Bool: 22000, Uint8: 31000, Uint16: 31000, Uint32: 32000, Uint64: 34000, Uint128: 37000, Uint256: 38000 },
+    { Bool: 25000, Uint8: 31000, Uint16: 31000, Uint32: 32000, Uint64: 34000, Uint128: 37000, Uint256: 38000 },
+  ],
+  FheBitOr: [
+    { Bool: 22000, Uint8: 30000, Uint16: 30000, Uint32: 32000, Uint64: 34000, Uint128: 37000, Uint256: 38000 },
+    { Bool: 24000, Uint8: 30000, Uint16: 31000, Uint32: 32000, Uint64: 34000, Uint128: 37000, Uint256: 38000 },
+  ],
+  FheBitXor: [
+    { Bool: 22000, Uint8: 31000, Uint16: 31000, Uint32: 32000, Uint64: 34000, Uint128: 37000, Uint256: 39000 },
+    { Bool: 22000, Uint8: 31000, Uint16: 31000, Uint32: 32000, Uint64: 34000, Uint128: 37000, Uint256: 39000 },
+  ],
+  FheShl: [
+    { Uint8: 32000, Uint16: 32000, Uint32: 32000, Uint64: 34000, Uint128: 37000, Uint256: 39000 },
+    { Uint8: 92000, Uint16: 125000, Uint32: 162000, Uint64: 208000, Uint128: 272000, Uint256: 378000 },
+  ],
+  FheShr: [
+    { Uint8: 32000, Uint16: 32000, Uint32: 32000, Uint64: 34000, Uint128: 37000, Uint256: 38000 },
+    { Uint8: 91000, Uint16: 123000, Uint32: 163000, Uint64: 209000, Uint128: 272000, Uint256: 369000 },
+  ],
+  FheRotl: [
+    { Uint8: 31000, Uint16: 31000, Uint32: 32000, Uint64: 34000, Uint128: 37000, Uint256: 38000 },
+    { Uint8: 91000, Uint16: 125000, Uint32: 163000, Uint64: 209000, Uint128: 278000, Uint256: 378000 },
+  ],
+  FheRotr: [
+    { Uint8: 31000, Uint16: 31000, Uint32: 32000, Uint64: 34000, Uint128: 37000, Uint256: 40000 },
+    { Uint8: 93000, Uint16: 125000, Uint32: 160000, Uint64: 209000, Uint128: 283000, Uint256: 375000 },
+  ],
+  FheEq: [
+    { Bool: 25000, Uint8: 55000, Uint16: 55000, Uint32: 82000, Uint64: 83000, Uint128: 117000, Uint160: 117000, Uint256: 118000 },
+    { Bool: 26000, Uint8: 55000, Uint16: 83000, Uint32: 86000, Uint64: 120000, Uint128: 122000, Uint160: 137000, Uint256: 152000 },
+  ],
+  FheNe: [
+    { Bool: 23000, Uint8: 55000, Uint16: 55000, Uint32: 83000, Uint64: 84000, Uint128: 117000, Uint160: 117000, Uint256: 117000 },
+    { Bool: 23000, Uint8: 55000, Uint16: 83000, Uint32: 85000, Uint64: 118000, Uint128: 122000, Uint160: 136000, Uint256: 150000 },
+  ],
+  FheGe: [
+    { Uint8: 52000, Uint16: 55000, Uint32: 84000, Uint64: 116000, Uint128: 149000 },
+    { Uint8: 63000, Uint16: 84000, Uint32: 118000, Uint64: 152000, Uint128: 210000 },
+  ],
+  FheGt: [
+    { Uint8: 52000, Uint16: 55000, Uint32: 84000, Uint64: 117000, Uint128: 150000 },
+    { Uint8: 59000, Uint16: 84000, Uint32: 118000, Uint64: 152000, Uint128: 218000 },
+  ],
+  FheLe: [
+    { Uint8: 58000, Uint16: 58000, Uint32: 84000, Uint64: 119000, Uint128: 150000 },
+    { Uint8: 58000, Uint16: 83000, Uint32: 117000, Uint64: 149000, Uint128: 218000 },
+  ],
+  FheLt: [
+    { Uint8: 52000, Uint16: 58000, Uint32: 83000, Uint64: 118000, Uint128: 149000 },
+    { Uint8: 59000, Uint16: 84000, Uint32: 117000, Uint64: 146000, Uint128: 215000 },
+  ],
+  FheMin: [
+    { Uint8: 84000, Uint16: 88000, Uint32: 117000, Uint64: 150000, Uint128: 186000 },
+    { Uint8: 119000, Uint16: 146000, Uint32: 182000, Uint64: 219000, Uint128: 289000 },
+  ],
+  FheMax: [
+    { Uint8: 89000, Uint16: 89000, Uint32: 117000, Uint64: 149000, Uint128: 180000 },
+    { Uint8: 121000, Uint16: 145000, Uint32: 180000, Uint64: 218000, Uint128: 290000 },
+  ],
+};
+
+const UNARY_OP_COSTS: Record<string, CostRow> = {
+  FheNeg: { Uint8: 79000, Uint16: 93000, Uint32: 95000, Uint64: 131000, Uint128: 168000, Uint256: 269000 },
+  FheNot: { Bool: 2, Uint8: 9, Uint16: 16, Uint32: 32, Uint64: 63, Uint128: 130, Uint256: 130 },
+};
+
+const IF_THEN_ELSE_COSTS: CostRow = {
+  Bool: 55000, Uint8: 55000, Uint16: 55000, Uint32: 55000, Uint64: 55000, Uint128: 57000, Uint160: 83000, Uint256: 108000,
+};
+
+// Cast and TrivialEncrypt cost 32 HCU for every type
+const CAST_COST = 32;
+
+const FHE_EVENTS = new Interface([
+  ...Object.keys(BINARY_OP_COSTS).map(
+    name => `event ${name}(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)`
+  ),
+  ...Object.keys(UNARY_OP_COSTS).map(name => `event ${name}(address indexed caller, bytes32 ct, bytes32 result)`),
+  "event Cast(address indexed caller, bytes32 ct, uint8 toType, bytes32 result)",
+  "event TrivialEncrypt(address indexed caller, uint256 pt, uint8 toType, bytes32 result)",
+  "event FheIfThenElse(address indexed caller, bytes32 control, bytes32 ifTrue, bytes32 ifFalse, bytes32 result)",
+]);
+
+export interface HcuOperation {
+  name: string;
+  type: FheTypeName;
+  scalar: boolean;
+  hcu: number;
+}
+
+export interface HcuUsage {
+  /** Sum of all operations, checked against MAX_HCU_PER_TX. */
+  total: number;
+  /** Longest sequential chain of operations, checked against MAX_HCU_DEPTH_PER_TX. */
+  depth: number;
+  operations: HcuOperation[];
+}
+
+export function fheTypeOfHandle(handle: string): FheTypeName {
+  const typeIndex = parseInt(handle.slice(2 + 30 * 2, 2 + 31 * 2), 16);
+  const name = FHE_TYPE_NAMES[typeIndex];
+  if (!name) throw new Error(`Unsupported FHE type ${typeIndex} in handle ${handle}`);
+  return name;
+}
+
+export function fheTypeName(typeIndex: number | bigint): FheTypeName {
+  const name = FHE_TYPE_NAMES[Number(typeIndex)];
+  if (!name) throw new Error(`Unsupported FHE type ${typeIndex}`);
+  return name;
+}
+
+const lookup = (row: CostRow, op: string, type: FheTypeName): number => {
+  const hcu = row[type];
+  if (hcu === undefined) throw new Error(`${op} is not supported on ${type}`);
+  return hcu;
+};
+
+/**
+ * Reconstructs the HCU charged in a transaction from its receipt logs, given the
+ * chain's FHEVMExecutor (see `fhevmExecutorAddress`). Handles that were not
+ * produced in the same transaction count as depth zero, exactly like HCULimit's
+ * transient per-transaction accounting.
+ */
+export function hcuFromLogs(logs: readonly Log[], executorAddress: string): HcuUsage {
+  const depthOf = new Map<string, number>();
+  const usage: HcuUsage = { total: 0, depth: 0, operations: [] };
+  const record = (name: string, type: FheTypeName, scalar: boolean, hcu: number, inputs: string[], result: string) => {
+    const depth = hcu + Math.max(0, ...inputs.map(h => depthOf.get(h) ?? 0));
+    depthOf.set(result, depth);
+    usage.total += hcu;
+    usage.depth = Math.max(usage.depth, depth);
+    usage.operations.push({ name, type, scalar, hcu });
+  };
+
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== executorAddress.toLowerCase()) continue;
+    const event = FHE_EVENTS.parseLog(log);
+    if (!event) continue;
+    const { name, args } = event;
+    if (name in BINARY_OP_COSTS) {
+      const scalar = args.scalarByte === "0x01";
+      const type = fheTypeOfHandle(args.lhs);
+      const hcu = lookup(BINARY_OP_COSTS[name][scalar ? 0 : 1], name, type);
+      record(name, type, scalar, hcu, scalar ? [args.lhs] : [args.lhs, args.rhs], args.result);
+    } else if (name in UNARY_OP_COSTS) {
+      const type = fheTypeOfHandle(args.ct);
+      record(name, type, false, lookup(UNARY_OP_COSTS[name], name, type), [args.ct], args.result);
+    } else if (name === "FheIfThenElse") {
+      const type = fheTypeOfHandle(args.ifTrue);
+      const hcu = lookup(IF_THEN_ELSE_COSTS, name, type);
+      record(name, type, false, hcu, [args.control, args.ifTrue, args.ifFalse], args.result);
+    } else if (name === "Cast") {
+      record(name, fheTypeName(args.toType), false, CAST_COST, [args.ct], args.result);
+    } else if (name === "TrivialEncrypt") {
+      record(name, fheTypeName(args.toType), true, CAST_COST, [], args.result);
+    }
+  }
+  return usage;
+}
@@ -0,0 +1,50 @@
+// src/investorLedger.ts
+// Rebuilds an investor's subscriptions and redemptions from AssetMgmtFhe's
+// Subscribed / Redeemed events. Amounts stay as handles: only the investor may
+// decrypt them, so callers pass them to their own user decryption.
+import type { AssetMgmtFhe } from "../types/contracts/Asset_Mgmt_Fhe.sol/AssetMgmtFhe";
+
+export type InvestorActivityKind = "subscription" | "redemption";
+
+export interface InvestorActivity {
+  kind: InvestorActivityKind;
+  fundId: bigint;
+  /** euint64 handle in USD cents: the subscribed amount, or the redemption payout. */
+  amount: string;
+  /** euint64 handle in hundredths of a share: shares issued or burned. */
+  shares: string;
+  blockNumber: number;
+  txHash: string;
+}
+
+/** Activity of `investor`, oldest first, optionally limited to one fund. */
+export async function listInvestorActivity(
+  contract: AssetMgmtFhe,
+  investor: string,
+  fundId?: bigint,
+  fromBlock = 0
+): Promise<InvestorActivity[]> {
+  const [subscribed, redeemed] = await Promise.all([
+    contract.queryFilter(contract.filters.Subscribed(fundId, investor), fromBlock),
+    contract.queryFilter(contract.filters.Redeemed(fundId, investor), fromBlock),
+  ]);
+
+  const activity = [
+    ...subscribed.map(log => ({
+      log,
+      entry: { kind: "subscription" as const, fundId: log.args.fundId, amount: log.args.amount, shares: log.args.shares },
+    })),
+    ...redeemed.map(log => ({
+      log,
+      entry: { kind: "redemption" as const, fundId: log.args.fundId, amount: log.args.payout, shares: log.args.shares },
+    })),
+  ].sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index);
+
+  return activity.map(({ log, entry }) => ({ ...entry, blockNumber: log.blockNumber, txHash: log.transactionHash }));
+}
+
+/** Funds `investor` has subscribed to, in order of first subscription. */
+export async function listInvestorFunds(contract: AssetMgmtFhe, investor: string, fromBlock = 0): Promise<bigint[]> {
+  const logs = await contract.queryFilter(contract.filters.Subscribed(undefined, investor), fromBlock);
+  return [...new Set(logs.map(log => log.args.fundId))];
+}
@@ -0,0 +1,85 @@
+// src/providers.ts
+// Data providers of AssetMgmtFhe's funds. `isProvider` is a mapping and cannot be
+// enumerated, so the registry is replayed from ProviderAdded / ProviderRemoved,
+// with removals still in their timelock taken from the admin actions.
+import type { AssetMgmtFhe } from "../types/contracts/Asset_Mgmt_Fhe.sol/AssetMgmtFhe";
+import { listAdminActions, pendingAdminActions, type AdminAction } from "./adminActions";
+
+export interface ProviderChange {
+  fundId: bigint;
+  provider: string;
+  change: "added" | "removed";
+  blockNumber: number;
+  tx: string;
+}
+
+export interface FundProvider {
+  fundId: bigint;
+  account: string;
+  addedAtBlock: number;
+  addedTx: string;
+  /** Queued or ready `removeProvider` action, if one is pending. */
+  pendingRemoval: AdminAction | null;
+}
+
+/** Every provider addition and removal, optionally of one fund, oldest first. */
+export async function listProviderChanges(contract: AssetMgmtFhe, fundId?: bigint, fromBlock = 0): Promise<ProviderChange[]> {
+  const [addedLogs, removedLogs] = await Promise.all([
+    contract.queryFilter(contract.filters.ProviderAdded(fundId), fromBlock),
+    contract.queryFilter(contract.filters.ProviderRemoved(fundId), fromBlock),
+  ]);
+  return [
+    ...addedLogs.map(log => ({ log, change: "added" as const })),
+    ...removedLogs.map(log => ({ log, change: "removed" as const })),
+  ]
+    .sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index)
+    .map(({ log, change }) => ({
+      fundId: log.args.fundId,
+      provider: log.args.provider,
+      change,
+      blockNumber: log.blockNumber,
+      tx: log.transactionHash,
+    }));
+}
+
+/**
+ * Current providers, optionally of one fund, ordered by fund and then by when they
+ * were added. A provider added again after a removal keeps its latest addition.
+ */
+export async function listFundProviders(contract: AssetMgmtFhe, fundId?: bigint, fromBlock = 0): Promise<FundProvider[]> {
+  const [changes, actions] = await Promise.all([
+    listProviderChanges(contract, fundId, fromBlock),
+    listAdminActions(contract, { fromBlock }),
+  ]);
+
+  const providers = new Map<string, FundProvider>();
+  for (const change of changes) {
+    const key = `${change.fundId}:${change.provider.toLowerCase()}`;
+    if (change.change === "removed") {
+      providers.delete(key);
+      continue;
+    }
+    // addProvider does not check for an existing entry, so only the first addition counts
+    if (providers.has(key)) continue;
+    providers.set(key, {
+      fundId: change.fundId,
+      account: change.provider,
+      addedAtBlock: change.blockNumber,
+      addedTx: change.tx,
+      pendingRemoval: null,
+    });
+  }
+
+  for (const action of pendingAdminActions(actions)) {
+    if (action.kind !== "removeProvider") continue;
+    const provider = providers.get(`${action.fundId}:${action.provider!.toLowerCase()}`);
+    // Keep the oldest pending removal, the first one that can be executed
+    if (provider && (!provider.pendingRemoval || action.actionId < provider.pendingRemoval.actionId)) {
+      provider.pendingRemoval = action;
+    }
+  }
+
+  return [...providers.values()].sort((a, b) =>
+    a.fundId === b.fundId ? a.addedAtBlock - b.addedAtBlock : a.fundId < b.fundId ? -1 : 1
+  );
+}
@@ -0,0 +1,85 @@
+// src/roles.ts
+// AssetMgmtFhe's global roles. Members are rebuilt from the RoleGranted /
+// RoleRevoked events, since the contract only stores `hasRole` lookups and
+// cannot enumerate them.
+import { id } from "ethers";
+import type { AssetMgmtFhe } from "../types/contracts/Asset_Mgmt_Fhe.sol/AssetMgmtFhe";
+
+export const ROLES = ["admin", "fundManager", "dataProvider", "complianceOfficer", "auditor", "pauser"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/** Role ids as defined in the contract, `keccak256("ADMIN_ROLE")` etc. */
+export const ROLE_IDS: Record<Role, string> = {
+  admin: id("ADMIN_ROLE"),
+  fundManager: id("FUND_MANAGER_ROLE"),
+  dataProvider: id("DATA_PROVIDER_ROLE"),
+  complianceOfficer: id("COMPLIANCE_OFFICER_ROLE"),
+  auditor: id("AUDITOR_ROLE"),
+  pauser: id("PAUSER_ROLE"),
+};
+
+/** What each role may do, for help texts in the UI and the CLI. */
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  admin: "Grants and revokes roles, sets the cooldown",
+  fundManager: "Creates funds and manages the batches, providers, fees and auditors of its own funds",
+  dataProvider: "Submits fund state and requests decryptions for the funds it is assigned to",
+  complianceOfficer: "Sets encrypted compliance rules and requests compliance checks",
+  auditor: "Can be granted decryption rights on a fund's batches",
+  pauser: "Pauses and unpauses the contract",
+};
+
+/** Null for ids the contract does not define. */
+export function roleFromId(roleId: string): Role | null {
+  return ROLES.find(role => ROLE_IDS[role] === roleId.toLowerCase()) ?? null;
+}
+
+export interface RoleMember {
+  role: Role;
+  account: string;
+  /** Account that sent the granting transaction. */
+  grantedBy: string;
+  grantedAtBlock: number;
+  grantTx: string;
+}
+
+/** Current members of every role, each list in the order members were granted. */
+export async function listRoleMembers(contract: AssetMgmtFhe, fromBlock = 0): Promise<Record<Role, RoleMember[]>> {
+  const [grantedLogs, revokedLogs] = await Promise.all([
+    contract.queryFilter(contract.filters.RoleGranted(), fromBlock),
+    contract.queryFilter(contract.filters.RoleRevoked(), fromBlock),
+  ]);
+
+  const changes = [
+    ...grantedLogs.map(log => ({ log, granted: true })),
+    ...revokedLogs.map(log => ({ log, granted: false })),
+  ].sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index);
+
+  const members = new Map<string, RoleMember>();
+  for (const { log, granted } of changes) {
+    const role = roleFromId(log.args.role);
+    if (!role) continue;
+    const key = `${role}:${log.args.account.toLowerCase()}`;
+    if (!granted) {
+      members.delete(key);
+      continue;
+    }
+    members.set(key, {
+      role,
+      account: log.args.account,
+      grantedBy: log.args.sender,
+      grantedAtBlock: log.blockNumber,
+      grantTx: log.transactionHash,
+    });
+  }
+
+  const byRole = Object.fromEntries(ROLES.map(role => [role, [] as RoleMember[]])) as Record<Role, RoleMember[]>;
+  for (const member of members.values()) byRole[member.role].push(member);
+  return byRole;
+}
+
+/** Roles `account` holds, read from the contract rather than from events. */
+export async function readRolesOf(contract: AssetMgmtFhe, account: string): Promise<Role[]> {
+  const held = await Promise.all(ROLES.map(role => contract.hasRole(ROLE_IDS[role], account)));
+  return ROLES.filter((_, i) => held[i]);
+}
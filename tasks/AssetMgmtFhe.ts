@@ -0,0 +1,797 @@
+import { readFileSync } from "fs";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+// The client imports the typechain output, which `npm run clean` deletes and the
+// typechain task regenerates, so it is loaded lazily instead of at config time.
+const loadClient = () => import("../src/assetMgmtClient");
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost asset:status --address 0x...
+ *   - npx hardhat --network sepolia asset:status --address 0x... --fund 1
+ */
+task("asset:status", "Prints the owner, pause state and funds of an AssetMgmtFhe deployment")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addOptionalParam("fund", "Only print this fund id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+
+    const [owner, paused, cooldownSeconds, funds] = await Promise.all([
+      client.owner(),
+      client.contract.paused(),
+      client.contract.cooldownSeconds(),
+      taskArguments.fund !== undefined
+        ? client.fundInfo(BigInt(taskArguments.fund)).then(info => [info])
+        : client.listFunds(),
+    ]);
+    console.log(`AssetMgmtFhe      : ${await client.getAddress()}`);
+    console.log(`Owner             : ${owner}`);
+    console.log(`Paused            : ${paused}`);
+    console.log(`Cooldown (s)      : ${cooldownSeconds}`);
+    console.log(`Signer roles      : ${(await client.rolesOf(signer.address)).join(", ") || "none"}`);
+    if (funds.length === 0) console.log("No funds");
+
+    for (const fund of funds) {
+      const [isProvider, batch] = await Promise.all([
+        client.isProvider(fund.fundId, signer.address),
+        client.batch(fund.fundId, fund.currentBatchId),
+      ]);
+      const batchState = fund.closed ? "fund closed" : batch.state;
+      console.log(`\nFund #${fund.fundId}          : ${fund.name}`);
+      console.log(`  Manager         : ${fund.manager}`);
+      console.log(`  Current batch   : ${fund.currentBatchId} (${batchState}) of ${fund.batchCount} scheduled`);
+      if (batch.state !== "none") {
+        console.log(`  Submissions     : ${batch.submissionCount}/${batch.providerCount}, until ${new Date(batch.submissionDeadline * 1000).toISOString()}`);
+      }
+      console.log(`  ${signer.address} is ${isProvider ? "" : "not "}a provider`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat asset:decode-error --data 0x30cd7471
+ */
+task("asset:decode-error", "Decodes AssetMgmtFhe revert data into its custom error")
+  .addParam("data", "Revert data, as returned by a failed call")
+  .setAction(async function (taskArguments: TaskArguments) {
+    const { decodeAssetMgmtError } = await loadClient();
+    const error = decodeAssetMgmtError({ data: taskArguments.data });
+    console.log(error ? error.message : `${taskArguments.data} is not an AssetMgmtFhe error`);
+  });
+
+const parseRole = async (value: string) => {
+  const { ROLES } = await import("../src/roles");
+  const role = ROLES.find(r => r === value);
+  if (!role) throw new Error(`Unknown role ${value}, expected one of ${ROLES.join(", ")}`);
+  return role;
+};
+
+/**
+ * Lists the members of every role, rebuilt from RoleGranted / RoleRevoked.
+ *
+ * Example:
+ *   - npx hardhat --network localhost roles:list --address 0x...
+ */
+task("roles:list", "Prints the members of every AssetMgmtFhe role")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addOptionalParam("from", "Block to start reading events from", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const { ROLES, ROLE_DESCRIPTIONS } = await import("../src/roles");
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+
+    const members = await client.roleMembers(Number(taskArguments.from));
+    for (const role of ROLES) {
+      console.log(`${role} (${ROLE_DESCRIPTIONS[role]})`);
+      if (members[role].length === 0) console.log("  none");
+      for (const member of members[role]) {
+        console.log(`  ${member.account} granted by ${member.grantedBy} at block ${member.grantedAtBlock}`);
+      }
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost roles:grant --address 0x... --role dataProvider --account 0x...
+ */
+task("roles:grant", "Grants an AssetMgmtFhe role; the signer must be an admin")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("role", "admin, fundManager, dataProvider, complianceOfficer, auditor or pauser")
+  .addParam("account", "Account to grant the role to")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const role = await parseRole(taskArguments.role);
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+
+    const { receipt } = await client.grantRole(role, taskArguments.account);
+    console.log(`Granted ${role} to ${taskArguments.account} in ${receipt.hash}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost roles:revoke --address 0x... --role auditor --account 0x...
+ */
+task("roles:revoke", "Revokes an AssetMgmtFhe role; the signer must be an admin")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("role", "admin, fundManager, dataProvider, complianceOfficer, auditor or pauser")
+  .addParam("account", "Account to revoke the role from")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const role = await parseRole(taskArguments.role);
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+
+    const { receipt } = await client.revokeRole(role, taskArguments.account);
+    console.log(`Revoked ${role} from ${taskArguments.account} in ${receipt.hash}`);
+  });
+
+/**
+ * Proposes a new owner; the transfer completes when that account runs owner:accept.
+ *
+ * Example:
+ *   - npx hardhat --network localhost owner:transfer --address 0x... --to 0x...
+ */
+task("owner:transfer", "Proposes a new AssetMgmtFhe owner")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("to", "Proposed owner")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+
+    const { receipt } = await client.transferOwnership(taskArguments.to);
+    console.log(`Proposed ${taskArguments.to} as owner in ${receipt.hash}; it must now run owner:accept`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost owner:accept --address 0x...
+ */
+task("owner:accept", "Accepts a pending AssetMgmtFhe ownership transfer as the proposed owner")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+
+    const { receipt } = await client.acceptOwnership();
+    console.log(`${signer.address} is now the owner (${receipt.hash})`);
+  });
+
+/**
+ * Lists timelocked admin actions and any pending ownership transfer.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia timelock:list --address 0x...
+ *   - npx hardhat --network sepolia timelock:list --address 0x... --all
+ */
+task("timelock:list", "Prints pending AssetMgmtFhe admin actions")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addFlag("all", "Also print executed and cancelled actions")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const { pendingAdminActions } = await import("../src/adminActions");
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+
+    const { owner, pendingOwner } = await client.pendingOwnership();
+    console.log(`Owner             : ${owner}`);
+    console.log(`Pending owner     : ${pendingOwner ?? "none"}`);
+
+    const all = await client.adminActions();
+    const actions = taskArguments.all ? all : pendingAdminActions(all);
+    if (actions.length === 0) console.log("No pending admin actions");
+    for (const action of actions) {
+      const what =
+        action.kind === "setCooldown"
+          ? `set cooldown to ${action.cooldownSeconds}s`
+          : `remove provider ${action.provider} from fund #${action.fundId}`;
+      console.log(`#${action.actionId} ${what}: ${action.status}, eta ${new Date(action.eta * 1000).toISOString()}, proposed by ${action.proposer}`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost timelock:queue-cooldown --address 0x... --seconds 300
+ */
+task("timelock:queue-cooldown", "Queues a cooldown change; the signer must be an admin")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("seconds", "New cooldown in seconds")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+
+    const { actionId, eta } = await client.queueCooldownChange(BigInt(taskArguments.seconds));
+    console.log(`Queued action #${actionId}, executable from ${new Date(eta * 1000).toISOString()}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost timelock:queue-provider-removal --address 0x... --fund 1 --provider 0x...
+ */
+task("timelock:queue-provider-removal", "Queues the removal of a fund's provider; the signer must be its manager")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("fund", "Fund id")
+  .addParam("provider", "Provider to remove")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+
+    const { actionId, eta } = await client.queueProviderRemoval(BigInt(taskArguments.fund), taskArguments.provider);
+    console.log(`Queued action #${actionId}, executable from ${new Date(eta * 1000).toISOString()}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost timelock:execute --address 0x... --action 1
+ *   - npx hardhat --network localhost timelock:cancel --address 0x... --action 1
+ */
+task("timelock:execute", "Executes a queued admin action whose timelock has elapsed")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("action", "Action id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+
+    const { receipt } = await client.executeAction(BigInt(taskArguments.action));
+    console.log(`Executed action #${taskArguments.action} in ${receipt.hash}`);
+  });
+
+task("timelock:cancel", "Cancels a queued admin action")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("action", "Action id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+
+    const { receipt } = await client.cancelAction(BigInt(taskArguments.action));
+    console.log(`Cancelled action #${taskArguments.action} in ${receipt.hash}`);
+  });
+
+/**
+ * Lists the current providers of every fund, or of one, replayed from the
+ * ProviderAdded / ProviderRemoved events. `--history` prints the events instead.
+ *
+ * Example:
+ *   - npx hardhat --network localhost providers:list --address 0x...
+ *   - npx hardhat --network sepolia providers:list --address 0x... --fund 1 --history
+ */
+task("providers:list", "Prints the data providers of AssetMgmtFhe funds")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addOptionalParam("fund", "Only print this fund id")
+  .addOptionalParam("from", "Block to start reading events from", "0")
+  .addFlag("history", "Print every addition and removal instead of the current providers")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+    const fundId = taskArguments.fund !== undefined ? BigInt(taskArguments.fund) : undefined;
+    const fromBlock = Number(taskArguments.from);
+
+    if (taskArguments.history) {
+      const changes = await client.providerChanges(fundId, fromBlock);
+      if (changes.length === 0) console.log("No provider changes");
+      for (const change of changes) {
+        console.log(`Fund #${change.fundId}: ${change.change} ${change.provider} at block ${change.blockNumber} (${change.tx})`);
+      }
+      return;
+    }
+
+    const providers = await client.providers(fundId, fromBlock);
+    if (providers.length === 0) console.log("No providers");
+    for (const provider of providers) {
+      const removal = provider.pendingRemoval
+        ? `, removal #${provider.pendingRemoval.actionId} ${provider.pendingRemoval.status} from ${new Date(provider.pendingRemoval.eta * 1000).toISOString()}`
+        : "";
+      console.log(`Fund #${provider.fundId}: ${provider.account}, added at block ${provider.addedAtBlock} (${provider.addedTx})${removal}`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost providers:add --address 0x... --fund 1 --provider 0x...
+ */
+task("providers:add", "Adds a data provider to a fund; the signer must be its manager")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("fund", "Fund id")
+  .addParam("provider", "Provider to add; must hold the dataProvider role")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+
+    const { receipt } = await client.addProvider(BigInt(taskArguments.fund), taskArguments.provider);
+    console.log(`Added ${taskArguments.provider} to fund #${taskArguments.fund} in ${receipt.hash}`);
+  });
+
+/**
+ * Removes a provider through the timelock: the first run queues the removal,
+ * a run after TIMELOCK_DELAY executes it.
+ *
+ * Example:
+ *   - npx hardhat --network localhost providers:remove --address 0x... --fund 1 --provider 0x...
+ */
+task("providers:remove", "Queues, or once the timelock has elapsed executes, the removal of a fund's provider")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("fund", "Fund id")
+  .addParam("provider", "Provider to remove")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+    const fundId = BigInt(taskArguments.fund);
+    const account = String(taskArguments.provider).toLowerCase();
+
+    const provider = (await client.providers(fundId)).find(p => p.account.toLowerCase() === account);
+    if (!provider) throw new Error(`${taskArguments.provider} is not a provider of fund #${fundId}`);
+
+    const removal = provider.pendingRemoval;
+    // Block time rather than the wall clock, which a local node's evm_increaseTime leaves behind
+    const latest = await hre.ethers.provider.getBlock("latest");
+    if (!removal) {
+      const { actionId, eta } = await client.queueProviderRemoval(fundId, provider.account);
+      console.log(`Queued removal #${actionId}, run providers:remove again from ${new Date(eta * 1000).toISOString()}`);
+    } else if (removal.eta <= latest!.timestamp) {
+      const { receipt } = await client.executeAction(removal.actionId);
+      console.log(`Removed ${provider.account} from fund #${fundId} in ${receipt.hash}`);
+    } else {
+      console.log(`Removal #${removal.actionId} is queued until ${new Date(removal.eta * 1000).toISOString()}`);
+    }
+  });
+
+/**
+ * Accrues the management fee of a fund, then decrypts the inputs and the result
+ * as the manager and checks them against the plaintext model in src/feeSchedule.ts.
+ *
+ * Example:
+ *   - npx hardhat --network localhost fees:accrue --address 0x... --fund 1
+ */
+task("fees:accrue", "Accrues a fund's management fee and checks it against the plaintext fee model")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("fund", "Fund id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const { managementFeeFor } = await import("../src/feeSchedule");
+    const { money } = await import("../src/encoding");
+    await hre.fhevm.initializeCLIApi();
+
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+    const fundId = BigInt(taskArguments.fund);
+    const decrypt = async (handle: string) =>
+      BigInt(handle) === 0n ? 0n : hre.fhevm.userDecryptEuint(FhevmType.euint64, handle, taskArguments.address, signer);
+
+    const { currentBatchId } = await client.fundInfo(fundId);
+    const handles = await client.batchHandles(fundId, currentBatchId);
+    const accrual = await client.accrueManagementFee(fundId);
+
+    const [totalAssets, managerFeeRate, fee, accrued] = await Promise.all([
+      decrypt(handles.totalAssets),
+      decrypt(handles.managerFeeRate),
+      decrypt(accrual.fee),
+      decrypt(accrual.accrued),
+    ]);
+    const expected = managementFeeFor(totalAssets, managerFeeRate, BigInt(accrual.to - accrual.from));
+
+    console.log(`Fund #${fundId}, batch ${accrual.batchId}: ${accrual.to - accrual.from}s accrued`);
+    console.log(`Total assets      : ${money.format(totalAssets)}`);
+    console.log(`Management fee    : ${managerFeeRate} bps`);
+    console.log(`Fee (on-chain)    : ${money.format(fee)}`);
+    console.log(`Fee (model)       : ${money.format(expected)}`);
+    console.log(`Accrued balance   : ${money.format(accrued)}`);
+    if (fee !== expected) {
+      throw new Error(`On-chain fee ${fee} does not match the model's ${expected}`);
+    }
+  });
+
+/**
+ * Decrypts every performance fee crystallization of a fund as its manager and
+ * replays them with the plaintext simulator in src/feeSchedule.ts.
+ *
+ * Example:
+ *   - npx hardhat --network localhost fees:check-crystallizations --address 0x... --fund 1
+ */
+task("fees:check-crystallizations", "Checks a fund's performance fee crystallizations against the plaintext simulator")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("fund", "Fund id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const { crystallizePerformanceFee, INITIAL_PERFORMANCE_FEE_STATE } = await import("../src/feeSchedule");
+    const { money } = await import("../src/encoding");
+    await hre.fhevm.initializeCLIApi();
+
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+    const fundId = BigInt(taskArguments.fund);
+    const decrypt = async (handle: string) =>
+      BigInt(handle) === 0n ? 0n : hre.fhevm.userDecryptEuint(FhevmType.euint64, handle, taskArguments.address, signer);
+
+    let state = INITIAL_PERFORMANCE_FEE_STATE;
+    let mismatches = 0;
+    for (const crystallization of await client.performanceFeeCrystallizations(fundId)) {
+      const { performanceFeeRate } = await client.batchHandles(fundId, crystallization.batchId);
+      const [totalAssets, rate, highWaterMark, fee, accrued] = await Promise.all(
+        [crystallization.totalAssets, performanceFeeRate, crystallization.highWaterMark, crystallization.fee, crystallization.accrued].map(decrypt)
+      );
+      const expected = crystallizePerformanceFee(state, { totalAssets, performanceFeeRate: rate });
+      const matches = expected.fee === fee && expected.highWaterMark === highWaterMark && expected.accrued === accrued;
+      if (!matches) mismatches++;
+
+      console.log(
+        `Batch ${crystallization.batchId}: NAV ${money.format(totalAssets)}, fee ${money.format(fee)} ` +
+          `(model ${money.format(expected.fee)}), HWM ${money.format(highWaterMark)} ` +
+          `(model ${money.format(expected.highWaterMark)}), accrued ${money.format(accrued)} ${matches ? "OK" : "MISMATCH"}`
+      );
+      state = expected;
+    }
+    if (mismatches > 0) {
+      throw new Error(`${mismatches} crystallization(s) differ from the simulator`);
+    }
+  });
+
+/**
+ * Decrypts the batch values (as the fund manager) and the compliance thresholds
+ * (as the compliance officer who set them) behind each completed compliance
+ * check of a fund and re-evaluates them with src/compliance.ts. The signer must
+ * be both, as the deployer is on a local node. Checks whose batch or rules have changed
+ * since are skipped.
+ *
+ * Example:
+ *   - npx hardhat --network localhost compliance:check-results --address 0x... --fund 1
+ */
+task("compliance:check-results", "Checks a fund's oracle compliance results against the plaintext rules")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("fund", "Fund id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const { COMPLIANCE_RULES, evaluateCompliance } = await import("../src/compliance");
+    await hre.fhevm.initializeCLIApi();
+
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+    const fundId = BigInt(taskArguments.fund);
+    const decrypt = async (handle: string) =>
+      BigInt(handle) === 0n ? 0n : hre.fhevm.userDecryptEuint(FhevmType.euint64, handle, taskArguments.address, signer);
+
+    const rulesHandles = await client.contract.complianceRules(fundId);
+    const rules = Object.fromEntries(
+      await Promise.all(COMPLIANCE_RULES.map(async rule => [rule, await decrypt(rulesHandles[rule])] as const))
+    ) as Record<(typeof COMPLIANCE_RULES)[number], bigint>;
+
+    let mismatches = 0;
+    for (const check of await client.complianceChecks(fundId)) {
+      const label = `Request ${check.requestId} (batch ${check.batchId})`;
+      if (!check.result) {
+        console.log(`${label}: awaiting the oracle`);
+        continue;
+      }
+      if (check.stateHash !== (await client.complianceStateHash(fundId, check.batchId))) {
+        console.log(`${label}: batch or rules changed since, skipped`);
+        continue;
+      }
+      const handles = await client.batchHandles(fundId, check.batchId);
+      const [totalAssets, managerFeeRate, performanceFeeRate, highWaterMark] = await Promise.all(
+        [handles.totalAssets, handles.managerFeeRate, handles.performanceFeeRate, handles.highWaterMark].map(decrypt)
+      );
+      const expected = evaluateCompliance({ totalAssets, managerFeeRate, performanceFeeRate, highWaterMark }, rules);
+      const matches = expected.join() === check.result.failedRules.join();
+      if (!matches) mismatches++;
+
+      console.log(
+        `${label}: ${check.result.compliant ? "compliant" : `failed ${check.result.failedRules.join(", ")}`} ` +
+          `(model ${expected.length === 0 ? "compliant" : `failed ${expected.join(", ")}`}) ${matches ? "OK" : "MISMATCH"}`
+      );
+    }
+    if (mismatches > 0) {
+      throw new Error(`${mismatches} compliance result(s) differ from the plaintext rules`);
+    }
+  });
+
+// Batch lifecycle
+
+/** Unix seconds from a number of seconds or an ISO 8601 date. */
+const parseTimestamp = (value: string) => {
+  const seconds = /^\d+$/.test(value) ? Number(value) : Math.floor(Date.parse(value) / 1000);
+  if (!Number.isFinite(seconds)) throw new Error(`${value} is neither Unix seconds nor an ISO 8601 date`);
+  return seconds;
+};
+
+const formatTimestamp = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+/**
+ * Schedules the next batch of a fund. The window opens now unless `--opens-at` is
+ * given, and the providers default to the signer.
+ *
+ * Example:
+ *   - npx hardhat --network localhost batch:schedule --address 0x... --fund 1 --duration 3600
+ *   - npx hardhat --network sepolia batch:schedule --address 0x... --fund 1 --opens-at 2026-11-02T09:00:00Z --duration 86400 --providers 0x...,0x...
+ */
+task("batch:schedule", "Schedules the next batch of a fund; the signer must be its manager")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("fund", "Fund id")
+  .addParam("duration", "Seconds from opening to the submission deadline")
+  .addOptionalParam("opensAt", "Unix seconds or ISO 8601 date, defaults to the latest block's time")
+  .addOptionalParam("providers", "Comma separated provider addresses, defaults to the signer")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+
+    const latest = await hre.ethers.provider.getBlock("latest");
+    const opensAt = taskArguments.opensAt !== undefined ? parseTimestamp(taskArguments.opensAt) : latest!.timestamp;
+    const deadline = opensAt + Number(taskArguments.duration);
+    const providers = taskArguments.providers !== undefined
+      ? String(taskArguments.providers).split(",").map(p => p.trim()).filter(Boolean)
+      : [signer.address];
+
+    const { batchId, receipt } = await client.scheduleBatch(BigInt(taskArguments.fund), opensAt, deadline, providers);
+    console.log(`Scheduled batch ${batchId} of fund #${taskArguments.fund} in ${receipt.hash}`);
+    console.log(`Window            : ${formatTimestamp(opensAt)} - ${formatTimestamp(deadline)}`);
+    console.log(`Providers         : ${providers.join(", ")}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost batch:open --address 0x... --fund 1
+ */
+task("batch:open", "Opens the next scheduled batch of a fund; the signer must be its manager")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("fund", "Fund id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+    const fundId = BigInt(taskArguments.fund);
+
+    const { batchId, receipt } = await client.openBatch(fundId);
+    const batch = await client.batch(fundId, batchId);
+    console.log(`Opened batch ${batchId} of fund #${fundId} in ${receipt.hash}`);
+    console.log(`Submissions until : ${formatTimestamp(batch.submissionDeadline)}`);
+  });
+
+/**
+ * Closes the open batch, which snapshots its value and crystallizes the
+ * performance fee. The fee handles are printed; `fees:check-crystallizations`
+ * decrypts them.
+ *
+ * Example:
+ *   - npx hardhat --network localhost batch:close --address 0x... --fund 1
+ */
+task("batch:close", "Closes the open batch of a fund; the signer must be its manager")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("fund", "Fund id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+    const fundId = BigInt(taskArguments.fund);
+
+    const { currentBatchId } = await client.fundInfo(fundId);
+    const { crystallization, receipt } = await client.closeBatch(fundId);
+    console.log(`Closed batch ${currentBatchId} of fund #${fundId} in ${receipt.hash}`);
+    console.log(crystallization ? `Performance fee   : ${crystallization.fee}` : "No submissions, no performance fee");
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost batch:finalize --address 0x... --fund 1
+ */
+task("batch:finalize", "Signs off the closed batch of a fund so the next one can open")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("fund", "Fund id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+    const fundId = BigInt(taskArguments.fund);
+
+    const { currentBatchId } = await client.fundInfo(fundId);
+    const { receipt } = await client.finalizeBatch(fundId);
+    console.log(`Finalized batch ${currentBatchId} of fund #${fundId} in ${receipt.hash}`);
+  });
+
+/**
+ * Prints the window, providers and oracle decryptions of a batch, the current
+ * one unless `--batch` is given.
+ *
+ * Example:
+ *   - npx hardhat --network localhost batch:status --address 0x... --fund 1
+ *   - npx hardhat --network sepolia batch:status --address 0x... --fund 1 --batch 3
+ */
+task("batch:status", "Prints the state, providers and decryptions of a batch")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("fund", "Fund id")
+  .addOptionalParam("batch", "Batch id, defaults to the current batch")
+  .addOptionalParam("from", "Block to start reading events from", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const { acceptsSubmissions, canClose } = await import("../src/batchCalendar");
+    const { money } = await import("../src/encoding");
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+    const fundId = BigInt(taskArguments.fund);
+    const fromBlock = Number(taskArguments.from);
+
+    const info = await client.fundInfo(fundId);
+    const batchId = taskArguments.batch !== undefined ? BigInt(taskArguments.batch) : info.currentBatchId;
+    const [batch, calendar, decryptions, latest] = await Promise.all([
+      client.batch(fundId, batchId),
+      client.batchCalendar(fundId, fromBlock),
+      client.trackDecryptions({ fundId, fromBlock }),
+      hre.ethers.provider.getBlock("latest"),
+    ]);
+    const now = latest!.timestamp;
+
+    console.log(`Fund #${fundId}          : ${info.name}${info.closed ? " (closed)" : ""}`);
+    console.log(`Batch             : ${batchId}${batchId === info.currentBatchId ? " (current)" : ""}, ${batch.state}`);
+    if (batch.state === "none") return;
+    console.log(`Window            : ${formatTimestamp(batch.opensAt)} - ${formatTimestamp(batch.submissionDeadline)}`);
+    if (batch.closedAt !== null) console.log(`Closed at         : ${formatTimestamp(batch.closedAt)}`);
+    console.log(`Submissions       : ${batch.submissionCount}/${batch.providerCount}${acceptsSubmissions(batch, now) ? ", accepting" : ""}`);
+    if (canClose(batch, now)) console.log("                    ready to close");
+
+    for (const provider of calendar.find(b => b.batchId === batchId)?.providers ?? []) {
+      console.log(`  ${provider.account} ${provider.submitted ? "submitted" : "pending"}`);
+    }
+
+    const requests = decryptions.filter(d => d.batchId === batchId);
+    if (requests.length === 0) console.log("No decryption requests");
+    for (const request of requests) {
+      const result = request.result
+        ? `NAV ${money.format(money.encode(request.result.totalAssets))}${request.overflowed ? " (capped, overflowed)" : ""}`
+        : `${request.elapsedSeconds}s elapsed`;
+      console.log(`Decryption ${request.requestId}: ${request.status}, ${result}`);
+    }
+  });
+
+/**
+ * Encrypts plaintext fund states with the fhevm hardhat plugin (the mock on the
+ * hardhat network, the relayer on Sepolia) and submits them to the open batch.
+ * Values come from the command line or from a JSON / CSV file with the columns
+ * `fund`, `totalAssets` (USD), `managerFeeRate` and `performanceFeeRate` (percent);
+ * rows without a fund use `--fund`. See src/fundStateInput.ts.
+ *
+ * Example:
+ *   - npx hardhat --network localhost fund:submit --address 0x... --fund 1 --total-assets 1250000 --manager-fee-rate 2 --performance-fee-rate 20
+ *   - npx hardhat --network localhost fund:submit --address 0x... --input states.csv
+ */
+task("fund:submit", "Encrypts and submits fund states to the open batch; the signer must be assigned to it")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addOptionalParam("fund", "Fund id, for the command line values and for file rows without one")
+  .addOptionalParam("input", "JSON or CSV file of fund states")
+  .addOptionalParam("totalAssets", "Total assets in USD")
+  .addOptionalParam("managerFeeRate", "Annual management fee in percent")
+  .addOptionalParam("performanceFeeRate", "Performance fee in percent")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const { encodeFundStateRow, fundStateFormatOf, parseFundStates } = await import("../src/fundStateInput");
+    const { money } = await import("../src/encoding");
+    await hre.fhevm.initializeCLIApi();
+
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+    const rows = taskArguments.input !== undefined
+      ? parseFundStates(readFileSync(taskArguments.input, "utf8"), fundStateFormatOf(taskArguments.input))
+      : parseFundStates(
+          JSON.stringify({
+            totalAssets: taskArguments.totalAssets,
+            managerFeeRate: taskArguments.managerFeeRate,
+            performanceFeeRate: taskArguments.performanceFeeRate,
+          }),
+          "json"
+        );
+    const defaultFund = taskArguments.fund !== undefined ? BigInt(taskArguments.fund) : undefined;
+    if (rows.some(row => (row.fundId ?? defaultFund) === undefined)) {
+      throw new Error("Pass --fund or give every row a fund");
+    }
+
+    for (const row of rows) {
+      const fundId = (row.fundId ?? defaultFund)!;
+      const input = hre.fhevm.createEncryptedInput(taskArguments.address, signer.address);
+      encodeFundStateRow(row).forEach(value => input.add64(value));
+      const { handles, inputProof } = await input.encrypt();
+      const [totalAssets, managerFeeRate, performanceFeeRate] = handles.map(h => hre.ethers.hexlify(h));
+
+      const { receipt, hcu } = await client.submitFundState(fundId, {
+        totalAssets,
+        managerFeeRate,
+        performanceFeeRate,
+        inputProof: hre.ethers.hexlify(inputProof),
+      });
+      console.log(
+        `Fund #${fundId}: submitted ${money.format(money.encode(row.totalAssets))}, ` +
+          `${row.managerFeeRate}% / ${row.performanceFeeRate}% in ${receipt.hash} (gas ${receipt.gasUsed}, ${hcu ? `${hcu.total} HCU` : "HCU unknown"})`
+      );
+    }
+  });
+
+/**
+ * Requests the oracle decryption of a closed batch, by default the current one,
+ * or the one before it while the current batch is still open.
+ * `fund:await-decryption` waits for the result.
+ *
+ * Example:
+ *   - npx hardhat --network localhost fund:request-decryption --address 0x... --fund 1
+ */
+task("fund:request-decryption", "Requests the oracle decryption of a batch's values")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("fund", "Fund id")
+  .addOptionalParam("batch", "Batch id, defaults to the latest closed batch")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+    const fundId = BigInt(taskArguments.fund);
+    let batchId: bigint;
+    if (taskArguments.batch !== undefined) {
+      batchId = BigInt(taskArguments.batch);
+    } else {
+      const { currentBatchId } = await client.fundInfo(fundId);
+      const { state } = await client.batch(fundId, currentBatchId);
+      batchId = state === "closed" || state === "finalized" ? currentBatchId : currentBatchId - 1n;
+      if (batchId < 0n) throw new Error(`Fund #${fundId} has no closed batch to decrypt yet`);
+    }
+
+    const { requestId, stateHash, receipt } = await client.requestFundDecryption(fundId, batchId);
+    console.log(`Requested decryption ${requestId} of fund #${fundId}, batch ${batchId} in ${receipt.hash}`);
+    console.log(`State hash        : ${stateHash}`);
+  });
+
+/**
+ * Waits for an oracle decryption and prints the cleartexts. On the hardhat
+ * network the mock oracle is run first, so the result is available at once.
+ *
+ * Example:
+ *   - npx hardhat --network localhost fund:await-decryption --address 0x... --request 1
+ *   - npx hardhat --network sepolia fund:await-decryption --address 0x... --request 7 --timeout 1800
+ */
+task("fund:await-decryption", "Waits for an oracle decryption and prints the decrypted batch values")
+  .addParam("address", "AssetMgmtFhe contract address")
+  .addParam("request", "Request id, as printed by fund:request-decryption")
+  .addOptionalParam("timeout", "Seconds to wait before giving up", "900")
+  .addOptionalParam("interval", "Seconds between polls", "10")
+  .addOptionalParam("from", "Block to start reading events from", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { AssetMgmtClient } = await loadClient();
+    const { money, basisPoints, encodeFundField } = await import("../src/encoding");
+    const [signer] = await hre.ethers.getSigners();
+    const client = AssetMgmtClient.connect(taskArguments.address, signer);
+    const requestId = BigInt(taskArguments.request);
+    const fromBlock = Number(taskArguments.from);
+
+    if (hre.fhevm.isMock) await hre.fhevm.awaitDecryptionOracle();
+
+    const giveUpAt = Date.now() + Number(taskArguments.timeout) * 1000;
+    for (;;) {
+      const decryption = (await client.trackDecryptions({ fromBlock })).find(d => d.requestId === requestId);
+      if (!decryption) throw new Error(`No decryption request ${requestId} since block ${fromBlock}`);
+      if (decryption.status === "state-mismatch") {
+        throw new Error(`Batch ${decryption.batchId} of fund #${decryption.fundId} changed since request ${requestId}; the oracle callback will revert`);
+      }
+      if (decryption.result) {
+        const { result } = decryption;
+        console.log(`Decryption ${requestId}: fund #${decryption.fundId}, batch ${decryption.batchId}, after ${decryption.elapsedSeconds}s`);
+        console.log(`Total assets      : ${money.format(encodeFundField("totalAssets", result.totalAssets))}`);
+        console.log(`Management fee    : ${basisPoints.format(encodeFundField("managerFeeRate", result.managerFeeRate))}`);
+        console.log(`Performance fee   : ${basisPoints.format(encodeFundField("performanceFeeRate", result.performanceFeeRate))}`);
+        console.log(`High-water mark   : ${money.format(encodeFundField("highWaterMark", result.highWaterMark))}`);
+        console.log(`Value at close    : ${money.format(encodeFundField("valueAtBatchClose", result.valueAtBatchClose))}`);
+        if (decryption.overflowed) console.log("Overflowed        : yes, total assets are capped at MAX_FUND_VALUE");
+        return;
+      }
+      if (Date.now() >= giveUpAt) {
+        throw new Error(`Decryption ${requestId} still ${decryption.status} after ${taskArguments.timeout}s`);
+      }
+      await new Promise(resolve => setTimeout(resolve, Number(taskArguments.interval) * 1000));
+    }
+  });
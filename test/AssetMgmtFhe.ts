@@ -0,0 +1,578 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { ethers, fhevm, run } from "hardhat";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AssetMgmtClient, AssetMgmtError, type ScenarioKind } from "../src/assetMgmtClient";
+import { fhevmAclAddress, readBatchHandles } from "../src/aclInspector";
+import { COMPLIANCE_RULES, evaluateCompliance } from "../src/compliance";
+import { decodeFundField, MAX_FUND_VALUE, navPerShare, sharesPerAsset } from "../src/encoding";
+import { ROLE_IDS } from "../src/roles";
+import { BATCH_STATES, type BatchState } from "../src/batchCalendar";
+import { fhevmExecutorAddress } from "../src/hcu";
+import { buildFeeSchedule, managementFeeFor, simulateCrystallizations, type CrystallizationInput } from "../src/feeSchedule";
+import type { AssetMgmtFhe__factory } from "../types";
+
+const DAY = 24 * 60 * 60;
+// Long enough for the submission cooldown to pass between batches
+const BATCH_WINDOW = 60 * 60;
+
+describe("AssetMgmtFhe", function () {
+  let manager: HardhatEthersSigner;
+  let investor: HardhatEthersSigner;
+  let address: string;
+  let client: AssetMgmtClient;
+
+  beforeEach(async function () {
+    // Decrypting fees as the manager needs the mock's instant user decryption
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the mock FHEVM");
+      this.skip();
+    }
+    [manager, investor] = await ethers.getSigners();
+    const factory = (await ethers.getContractFactory("AssetMgmtFhe")) as AssetMgmtFhe__factory;
+    const contract = await factory.deploy();
+    address = await contract.getAddress();
+    client = AssetMgmtClient.connect(address, manager);
+  });
+
+  const decrypt = (handle: string, signer = manager) => fhevm.userDecryptEuint(FhevmType.euint64, handle, address, signer);
+
+  /** Creates a fund managed by `manager`, who is also its only provider. */
+  async function createFund(): Promise<bigint> {
+    const { fundId } = await client.createFund("Test Fund");
+    return fundId;
+  }
+
+  /** Schedules the fund's next batch, no earlier than the previous deadline, and opens it. */
+  async function openNextBatch(fundId: bigint): Promise<{ batchId: bigint; submissionDeadline: number }> {
+    const previous = (await client.batchCalendar(fundId)).at(-1);
+    const opensAt = Math.max((await time.latest()) + 1, previous?.submissionDeadline ?? 0);
+    const submissionDeadline = opensAt + BATCH_WINDOW;
+    await client.scheduleBatch(fundId, opensAt, submissionDeadline, [manager.address]);
+    if ((await time.latest()) < opensAt) await time.increaseTo(opensAt);
+    const { batchId } = await client.openBatch(fundId);
+    return { batchId, submissionDeadline };
+  }
+
+  /** Submits raw encoded values (cents, basis points) to the open batch. */
+  async function submit(
+    fundId: bigint,
+    totalAssets: bigint,
+    managerFeeRate: bigint,
+    performanceFeeRate: bigint,
+    provider = manager
+  ) {
+    const input = fhevm.createEncryptedInput(address, provider.address);
+    input.add64(totalAssets).add64(managerFeeRate).add64(performanceFeeRate);
+    const { handles, inputProof } = await input.encrypt();
+    await AssetMgmtClient.connect(address, provider).submitFundState(fundId, {
+      totalAssets: ethers.hexlify(handles[0]),
+      managerFeeRate: ethers.hexlify(handles[1]),
+      performanceFeeRate: ethers.hexlify(handles[2]),
+      inputProof: ethers.hexlify(inputProof),
+    });
+  }
+
+  describe("roles", function () {
+    it("rejects callers without the required role", async function () {
+      const investorClient = AssetMgmtClient.connect(address, investor);
+      const grant = await investorClient.grantRole("auditor", investor.address).catch(e => e);
+      expect(grant).to.be.instanceOf(AssetMgmtError);
+      expect([grant.errorName, ...grant.args]).to.deep.equal(["MissingRole", ROLE_IDS.admin, investor.address]);
+      const create = await investorClient.createFund("Test Fund").catch(e => e);
+      expect([create.errorName, ...create.args]).to.deep.equal(["MissingRole", ROLE_IDS.fundManager, investor.address]);
+    });
+
+    it("keeps the owner an admin", async function () {
+      const revoke = await client.revokeRole("admin", manager.address).catch(e => e);
+      expect(revoke.errorName).to.equal("InvalidInput");
+      const renounce = await client.renounceRole("admin").catch(e => e);
+      expect(renounce.errorName).to.equal("InvalidInput");
+      expect(await client.hasRole("admin", manager.address)).to.equal(true);
+    });
+
+    it("rebuilds role members after a revoke and a re-grant", async function () {
+      const auditors = async () => (await client.roleMembers()).auditor.map(member => member.account);
+      await client.grantRole("auditor", investor.address);
+      expect(await auditors()).to.deep.equal([manager.address, investor.address]);
+
+      await client.revokeRole("auditor", investor.address);
+      expect(await auditors()).to.deep.equal([manager.address]);
+      expect(await client.rolesOf(investor.address)).to.deep.equal([]);
+
+      const { receipt } = await client.grantRole("auditor", investor.address);
+      const members = (await client.roleMembers()).auditor;
+      expect(members.map(member => member.account)).to.deep.equal([manager.address, investor.address]);
+      expect(members[1]).to.deep.include({ grantedBy: manager.address, grantTx: receipt.hash });
+      expect(await client.rolesOf(investor.address)).to.deep.equal(["auditor"]);
+    });
+  });
+
+  describe("ownership and timelock", function () {
+    it("moves ownership and the admin role only once the new owner accepts", async function () {
+      await client.transferOwnership(investor.address);
+      expect(await client.pendingOwnership()).to.deep.equal({ owner: manager.address, pendingOwner: investor.address });
+      expect(await client.hasRole("admin", investor.address)).to.equal(false);
+      const accept = await client.acceptOwnership().catch(e => e);
+      expect(accept.errorName).to.equal("NotOwner");
+
+      await AssetMgmtClient.connect(address, investor).acceptOwnership();
+      expect(await client.pendingOwnership()).to.deep.equal({ owner: investor.address, pendingOwner: null });
+      expect(await client.hasRole("admin", investor.address)).to.equal(true);
+      expect(await client.hasRole("admin", manager.address)).to.equal(false);
+    });
+
+    it("executes a queued action only after its eta", async function () {
+      const { actionId, eta } = await client.queueCooldownChange(300);
+      expect(eta).to.equal((await time.latest()) + Number(await client.timelockDelay()));
+      const early = await client.executeAction(actionId).catch(e => e);
+      expect([early.errorName, ...early.args]).to.deep.equal(["TimelockNotReady", BigInt(eta)]);
+
+      await time.increaseTo(eta);
+      await client.executeAction(actionId);
+      expect(await client.contract.cooldownSeconds()).to.equal(300n);
+      const again = await client.executeAction(actionId).catch(e => e);
+      expect(again.errorName).to.equal("InvalidInput");
+    });
+
+    it("drops a cancelled action", async function () {
+      const fundId = await createFund();
+      const { actionId, eta } = await client.queueProviderRemoval(fundId, manager.address);
+      await client.cancelAction(actionId);
+      const [action] = await client.adminActions();
+      expect(action).to.deep.include({ actionId, kind: "removeProvider", status: "cancelled", resolvedBy: manager.address });
+
+      await time.increaseTo(eta);
+      const execute = await client.executeAction(actionId).catch(e => e);
+      expect(execute.errorName).to.equal("InvalidInput");
+      expect(await client.isProvider(fundId, manager.address)).to.equal(true);
+    });
+
+    it("revokes the data provider role without a timelock", async function () {
+      const fundId = await createFund();
+      await openNextBatch(fundId);
+      await client.revokeRole("dataProvider", manager.address);
+      const rejection = await submit(fundId, 1_000_000_00n, 200n, 2_000n).catch(e => e);
+      expect([rejection.errorName, ...rejection.args]).to.deep.equal(["MissingRole", ROLE_IDS.dataProvider, manager.address]);
+    });
+  });
+
+  describe("batch state machine", function () {
+    const stateId = (state: BatchState) => BigInt(BATCH_STATES.indexOf(state));
+    const errorOf = async (sent: Promise<unknown>) => {
+      const error = await sent.then(() => expect.fail("Expected a revert"), e => e);
+      return [error.errorName, ...error.args];
+    };
+
+    it("rejects transitions from the wrong state", async function () {
+      const fundId = await createFund();
+      expect(await errorOf(client.openBatch(fundId))).to.deep.equal(["InvalidBatchState", 0n, stateId("none")]);
+
+      await openNextBatch(fundId);
+      expect(await errorOf(client.openBatch(fundId))).to.deep.equal(["InvalidBatchState", 0n, stateId("open")]);
+      expect(await errorOf(client.finalizeBatch(fundId))).to.deep.equal(["InvalidBatchState", 0n, stateId("open")]);
+
+      await submit(fundId, 1_000_000_00n, 200n, 2_000n);
+      await client.closeBatch(fundId);
+      expect(await errorOf(client.closeBatch(fundId))).to.deep.equal(["BatchNotOpen"]);
+      // The next batch only opens once the closed one is finalized
+      const opensAt = (await client.batch(fundId, 0n)).submissionDeadline;
+      await client.scheduleBatch(fundId, opensAt, opensAt + BATCH_WINDOW, [manager.address]);
+      await time.increaseTo(opensAt);
+      expect(await errorOf(client.openBatch(fundId))).to.deep.equal(["InvalidBatchState", 0n, stateId("closed")]);
+      await client.finalizeBatch(fundId);
+      expect((await client.openBatch(fundId)).batchId).to.equal(1n);
+    });
+
+    it("opens a batch only once its window starts", async function () {
+      const fundId = await createFund();
+      const opensAt = (await time.latest()) + 100;
+      await client.scheduleBatch(fundId, opensAt, opensAt + BATCH_WINDOW, [manager.address]);
+      const early = await errorOf(submit(fundId, 1_000_000_00n, 200n, 2_000n));
+      expect(early).to.deep.equal(["BatchNotOpen"]);
+      const window = [BigInt(opensAt), BigInt(opensAt + BATCH_WINDOW)];
+      expect(await errorOf(client.openBatch(fundId))).to.deep.equal(["OutsideBatchWindow", ...window]);
+
+      await time.increaseTo(opensAt);
+      await client.openBatch(fundId);
+      expect((await client.batch(fundId, 0n)).state).to.equal("open");
+    });
+
+    it("rejects overlapping schedules", async function () {
+      const fundId = await createFund();
+      const opensAt = (await time.latest()) + 100;
+      const deadline = opensAt + BATCH_WINDOW;
+      await client.scheduleBatch(fundId, opensAt, deadline, [manager.address]);
+
+      const overlapping = client.scheduleBatch(fundId, deadline - 1, deadline + BATCH_WINDOW, [manager.address]);
+      expect(await errorOf(overlapping)).to.deep.equal(["InvalidInput"]);
+      const empty = client.scheduleBatch(fundId, deadline + 10, deadline + 10, [manager.address]);
+      expect(await errorOf(empty)).to.deep.equal(["InvalidInput"]);
+      await client.scheduleBatch(fundId, deadline, deadline + BATCH_WINDOW, [manager.address]);
+      expect((await client.batchCalendar(fundId)).map(batch => batch.opensAt)).to.deep.equal([opensAt, deadline]);
+    });
+
+    it("closes before the deadline once every assigned provider has submitted", async function () {
+      await client.grantRole("dataProvider", investor.address);
+      const fundId = await createFund();
+      await client.addProvider(fundId, investor.address);
+      const opensAt = (await time.latest()) + 1;
+      const deadline = opensAt + BATCH_WINDOW;
+      await client.scheduleBatch(fundId, opensAt, deadline, [manager.address, investor.address]);
+      await client.openBatch(fundId);
+
+      await submit(fundId, 600_000_00n, 200n, 2_000n);
+      expect(await errorOf(client.closeBatch(fundId))).to.deep.equal(["OutsideBatchWindow", BigInt(opensAt), BigInt(deadline)]);
+
+      await submit(fundId, 400_000_00n, 200n, 2_000n, investor);
+      await client.closeBatch(fundId);
+      const batch = await client.batch(fundId, 0n);
+      expect(batch.state).to.equal("closed");
+      expect(batch.closedAt).to.be.lessThan(deadline);
+      expect(await decrypt((await readBatchHandles(client.contract, fundId, 0n)).fundValuesAtBatchClose)).to.equal(1_000_000_00n);
+    });
+
+    it("rejects submissions from the deadline on", async function () {
+      const fundId = await createFund();
+      const { submissionDeadline } = await openNextBatch(fundId);
+      await time.setNextBlockTimestamp(submissionDeadline);
+      const late = await errorOf(submit(fundId, 1_000_000_00n, 200n, 2_000n));
+      expect(late.slice(0, 1)).to.deep.equal(["OutsideBatchWindow"]);
+
+      // Past the deadline, the batch closes without waiting for its providers
+      await client.closeBatch(fundId);
+      expect((await readBatchHandles(client.contract, fundId, 0n)).fundValuesAtBatchClose).to.equal(ethers.ZeroHash);
+    });
+  });
+
+  describe("fund:submit", function () {
+    it("submits the rows of a CSV file with quoted cells", async function () {
+      const fundId = await createFund();
+      const { batchId } = await openNextBatch(fundId);
+      const dir = mkdtempSync(join(tmpdir(), "fund-states-"));
+      const input = join(dir, "states.csv");
+      writeFileSync(input, `"fund","totalAssets","managerFeeRate","performanceFeeRate"\n"${fundId}","1250000.5",2,"20"\n`);
+      try {
+        await run("fund:submit", { address, input });
+      } finally {
+        rmSync(dir, { recursive: true });
+      }
+      const handles = await readBatchHandles(client.contract, fundId, batchId);
+      expect(await decrypt(handles.totalAssets)).to.equal(1_250_000_50n);
+      expect(await decrypt(handles.managerFeeRate)).to.equal(200n);
+      expect(await decrypt(handles.performanceFeeRate)).to.equal(2_000n);
+    });
+  });
+
+  describe("HCU", function () {
+    it("prices the operations of a transaction from the mock executor's events", async function () {
+      const { chainId, CoprocessorAddress } = await fhevm.getRelayerMetadata();
+      expect(fhevmExecutorAddress(chainId)).to.equal(CoprocessorAddress);
+
+      const fundId = await createFund();
+      await openNextBatch(fundId);
+      await submit(fundId, 1_000_000_00n, 200n, 2_000n);
+      // updateSharePrice runs the shifts of the long division
+      const { hcu } = await client.updateSharePrice(fundId);
+      if (!hcu) expect.fail("No HCU reported on the mock chain");
+      expect(hcu.operations.map(op => op.name)).to.include.members(["FheMul", "FheShl", "FheIfThenElse"]);
+      expect(hcu.total).to.be.greaterThan(0);
+      expect(hcu.depth).to.be.within(1, hcu.total);
+    });
+  });
+
+  describe("ACL inspector", function () {
+    it("reads the mock ACL for the handles of a batch", async function () {
+      const { chainId, ACLAddress } = await fhevm.getRelayerMetadata();
+      expect(fhevmAclAddress(chainId)).to.equal(ACLAddress);
+
+      const fundId = await createFund();
+      const { batchId } = await openNextBatch(fundId);
+      await submit(fundId, 1_000_000_00n, 200n, 2_000n);
+
+      const handles = await client.inspectBatchHandles(fundId, batchId);
+      const totalAssets = handles.find(h => h.field === "totalAssets")!;
+      expect(totalAssets.type).to.equal("Uint64");
+      expect(totalAssets.allowed.map(a => a.account)).to.include.members([address, manager.address]);
+      // The close snapshot is only written by closeBatch
+      expect(handles.find(h => h.field === "fundValuesAtBatchClose")!.type).to.equal(null);
+    });
+  });
+
+  describe("management fee", function () {
+    it("accrues the plaintext fee schedule over known periods", async function () {
+      const totalAssets = 123_456_789_01n;
+      const managerFeeRate = 175n;
+      const fundId = await createFund();
+      await openNextBatch(fundId);
+      await submit(fundId, totalAssets, managerFeeRate, 2_000n);
+
+      const start = await client.lastFeeAccrualAt(fundId);
+      const elapsed = [30 * DAY, 1, 365 * DAY, 7 * DAY + 12_345];
+      const accruals = elapsed.reduce<number[]>((ats, seconds) => [...ats, (ats.at(-1) ?? start) + seconds], []);
+      const schedule = buildFeeSchedule(start, accruals.map(at => ({ at, totalAssets, managerFeeRate })));
+
+      for (const [i, at] of accruals.entries()) {
+        await time.setNextBlockTimestamp(at);
+        const accrual = await client.accrueManagementFee(fundId);
+        expect([accrual.from, accrual.to]).to.deep.equal([schedule[i].from, schedule[i].to]);
+
+        const fee = await decrypt(accrual.fee);
+        expect(fee).to.equal(managementFeeFor(totalAssets, managerFeeRate, BigInt(elapsed[i])));
+        expect(fee).to.equal(schedule[i].fee);
+        expect(await decrypt(accrual.accrued)).to.equal(schedule[i].accrued);
+      }
+      expect(await decrypt(await client.accruedManagementFee(fundId))).to.equal(schedule.at(-1)!.accrued);
+    });
+  });
+
+  describe("performance fee", function () {
+    it("crystallizes like the plaintext simulator across batch closes", async function () {
+      // null stands for a batch closed without any submission
+      const closes: (CrystallizationInput | null)[] = [
+        { totalAssets: 1_000_000_00n, performanceFeeRate: 2_000n }, // sets the HWM
+        { totalAssets: 1_200_000_00n, performanceFeeRate: 2_000n }, // gain above the HWM
+        null,
+        { totalAssets: 1_100_000_00n, performanceFeeRate: 2_000n }, // below the HWM, no fee
+        { totalAssets: 1_250_000_33n, performanceFeeRate: 2_500n }, // gain above the HWM only
+        { totalAssets: 1_300_000_00n, performanceFeeRate: 12_000n }, // rate capped at 100%
+      ];
+      const expected = simulateCrystallizations(closes.filter((close): close is CrystallizationInput => close !== null));
+
+      const fundId = await createFund();
+      let crystallized = 0;
+      for (const close of closes) {
+        const { submissionDeadline } = await openNextBatch(fundId);
+        if (close) {
+          await submit(fundId, close.totalAssets, 100n, close.performanceFeeRate);
+        } else {
+          await time.increaseTo(submissionDeadline);
+        }
+        const { crystallization } = await client.closeBatch(fundId);
+        await client.finalizeBatch(fundId);
+
+        if (!close) {
+          expect(crystallization).to.equal(null);
+          continue;
+        }
+        const { fee, highWaterMark, accrued } = expected[crystallized++];
+        expect(crystallization).to.not.equal(null);
+        expect(await decrypt(crystallization!.fee)).to.equal(fee);
+        expect(await decrypt(crystallization!.highWaterMark)).to.equal(highWaterMark);
+        expect(await decrypt(crystallization!.accrued)).to.equal(accrued);
+      }
+      expect(await decrypt(await client.accruedPerformanceFee(fundId))).to.equal(expected.at(-1)!.accrued);
+    });
+  });
+
+  describe("oracle decryption", function () {
+    it("decrypts a batch once it is closed", async function () {
+      const fundId = await createFund();
+      const { batchId } = await openNextBatch(fundId);
+      await submit(fundId, 1_000_000_00n, 200n, 2_000n);
+
+      // The close snapshot of an open batch is still a zero handle
+      const rejection = await client.requestFundDecryption(fundId, batchId).catch(e => e);
+      expect(rejection).to.be.instanceOf(AssetMgmtError);
+      expect(rejection.errorName).to.equal("BatchNotClosed");
+
+      await client.closeBatch(fundId);
+      const { requestId } = await client.requestFundDecryption(fundId, batchId);
+      await fhevm.awaitDecryptionOracle();
+
+      const [tracked] = await client.trackDecryptions({ fundId });
+      expect(tracked.requestId).to.equal(requestId);
+      expect(tracked.status).to.equal("completed");
+      expect(tracked.result!.totalAssets).to.equal(decodeFundField("totalAssets", 1_000_000_00n));
+      expect(tracked.result!.valueAtBatchClose).to.equal(tracked.result!.totalAssets);
+      expect(tracked.overflowed).to.equal(false);
+    });
+
+    it("saturates totalAssets at MAX_FUND_VALUE and reports the overflow", async function () {
+      const fundId = await createFund();
+      const { batchId } = await openNextBatch(fundId);
+      await submit(fundId, MAX_FUND_VALUE - 10n, 200n, 2_000n);
+      await time.increase(60);
+      await submit(fundId, 100n, 200n, 2_000n);
+      const handles = await readBatchHandles(client.contract, fundId, batchId);
+      expect(await decrypt(handles.totalAssets)).to.equal(MAX_FUND_VALUE);
+
+      await client.closeBatch(fundId);
+      const { requestId } = await client.requestFundDecryption(fundId, batchId);
+      await fhevm.awaitDecryptionOracle();
+
+      const [tracked] = await client.trackDecryptions({ fundId });
+      expect(tracked.requestId).to.equal(requestId);
+      expect(tracked.status).to.equal("completed");
+      expect(tracked.overflowed).to.equal(true);
+      expect(tracked.result!.totalAssets).to.equal(decodeFundField("totalAssets", MAX_FUND_VALUE));
+      expect(tracked.result!.valueAtBatchClose).to.equal(tracked.result!.totalAssets);
+    });
+  });
+
+  describe("compliance", function () {
+    it("evaluates the encrypted rules of closed batches, including the drawdown below the HWM", async function () {
+      const fundId = await createFund();
+      const rules = { minTotalAssets: 500_000_00n, maxManagerFeeRate: 250n, maxPerformanceFeeRate: 2_000n, maxDrawdown: 1_000n };
+      const input = fhevm.createEncryptedInput(address, manager.address);
+      COMPLIANCE_RULES.forEach(rule => input.add64(rules[rule]));
+      const { handles, inputProof } = await input.encrypt();
+      const [minTotalAssets, maxManagerFeeRate, maxPerformanceFeeRate, maxDrawdown] = handles.map(h => ethers.hexlify(h));
+      await client.setComplianceRules(fundId, {
+        minTotalAssets,
+        maxManagerFeeRate,
+        maxPerformanceFeeRate,
+        maxDrawdown,
+        inputProof: ethers.hexlify(inputProof),
+      });
+
+      const rejection = await client.requestComplianceCheck(fundId + 1n, 1n).catch(e => e);
+      expect(rejection.errorName).to.equal("InvalidInput");
+
+      const batches = [
+        { totalAssets: 1_000_000_00n, managerFeeRate: 200n, failedRules: [] }, // sets the HWM
+        { totalAssets: 850_000_00n, managerFeeRate: 300n, failedRules: ["maxManagerFeeRate", "maxDrawdown"] }, // 15% below it
+      ];
+      for (const { totalAssets, managerFeeRate, failedRules } of batches) {
+        const { batchId } = await openNextBatch(fundId);
+        await submit(fundId, totalAssets, managerFeeRate, 2_000n);
+        const open = await client.requestComplianceCheck(fundId, batchId).catch(e => e);
+        expect(open.errorName).to.equal("BatchNotClosed");
+
+        await client.closeBatch(fundId);
+        const highWaterMark = await decrypt((await readBatchHandles(client.contract, fundId, batchId)).highWaterMark);
+        expect(evaluateCompliance({ totalAssets, managerFeeRate, performanceFeeRate: 2_000n, highWaterMark }, rules)).to.deep.equal(failedRules);
+
+        const { requestId } = await client.requestComplianceCheck(fundId, batchId);
+        await fhevm.awaitDecryptionOracle();
+        const [check] = await client.complianceChecks(fundId);
+        expect(check.requestId).to.equal(requestId);
+        expect(check.result).to.deep.include({ compliant: failedRules.length === 0, failedRules });
+        expect(await client.complianceResult(fundId, batchId)).to.deep.include({ requestId, failedRules });
+        await client.finalizeBatch(fundId);
+      }
+    });
+  });
+
+  describe("scenarios", function () {
+    it("moves totalAssets by shocks, scales and flows, flooring losses at zero", async function () {
+      const fundId = await createFund();
+      const { batchId } = await openNextBatch(fundId);
+      await submit(fundId, 1_000_000_00n, 200n, 2_000n);
+
+      const cases: [ScenarioKind, bigint, boolean, bigint][] = [
+        ["shock", 2_000n, false, 1_200_000_00n],
+        ["shock", 2_500n, true, 750_000_00n],
+        ["shock", 15_000n, true, 0n], // losses are capped at 100%
+        ["scale", 11_000n, false, 1_100_000_00n],
+        ["scale", 5_000n, false, 500_000_00n],
+        ["scale", 1_000_000n, false, 26_214_300_00n], // capped at MAX_FACTOR_BPS
+        ["flow", 250_000_00n, false, 1_250_000_00n],
+        ["flow", 400_000_00n, true, 600_000_00n],
+        ["flow", 2_000_000_00n, true, 0n], // outflows floor at zero
+      ];
+      for (const [kind, parameter, negative, expected] of cases) {
+        const { handles, inputProof } = await fhevm.createEncryptedInput(address, manager.address).add64(parameter).encrypt();
+        const scenario = await client.runScenario(kind, fundId, batchId, handles[0], inputProof, negative);
+        expect(scenario.kind).to.equal(kind);
+        expect(await decrypt(scenario.handle), `${kind} ${negative ? "-" : "+"}${parameter}`).to.equal(expected);
+      }
+    });
+  });
+
+  describe("auditor access", function () {
+    it("grants selected fields, reissues them after a submission and revokes the grant", async function () {
+      const [, , auditor] = await ethers.getSigners();
+      await client.grantRole("auditor", auditor.address);
+      const fundId = await createFund();
+      const { batchId } = await openNextBatch(fundId);
+      await submit(fundId, 1_000_000_00n, 200n, 2_000n);
+
+      await client.grantAuditorAccess(fundId, batchId, auditor.address, ["totalAssets", "managerFeeRate"]);
+      let handles = await readBatchHandles(client.contract, fundId, batchId);
+      expect(await decrypt(handles.totalAssets, auditor)).to.equal(1_000_000_00n);
+      expect(await decrypt(handles.managerFeeRate, auditor)).to.equal(200n);
+      // A field outside the grant stays private
+      expect(await decrypt(handles.performanceFeeRate, auditor).catch(e => e)).to.be.instanceOf(Error);
+      let [grant] = await client.auditorGrants(fundId, batchId);
+      expect(grant.auditor).to.equal(auditor.address);
+      expect(grant.staleFields).to.deep.equal([]);
+
+      // A new submission replaces the handles the grant covered
+      await time.increase(60);
+      await submit(fundId, 500_000_00n, 150n, 2_000n);
+      [grant] = await client.auditorGrants(fundId, batchId);
+      expect(grant.staleFields).to.deep.equal(["totalAssets", "managerFeeRate"]);
+      handles = await readBatchHandles(client.contract, fundId, batchId);
+      expect(await decrypt(handles.totalAssets, auditor).catch(e => e)).to.be.instanceOf(Error);
+
+      await client.reissueAuditorAccess(fundId, batchId, auditor.address);
+      [grant] = await client.auditorGrants(fundId, batchId);
+      expect(grant.staleFields).to.deep.equal([]);
+      expect(await decrypt(handles.totalAssets, auditor)).to.equal(1_500_000_00n);
+      expect(await decrypt(handles.managerFeeRate, auditor)).to.equal(150n);
+
+      await client.revokeAuditorAccess(fundId, batchId, auditor.address);
+      expect(await client.auditorGrants(fundId, batchId)).to.deep.equal([]);
+      expect(await client.auditorFields(fundId, batchId, auditor.address)).to.deep.equal([]);
+      const rejection = await client.reissueAuditorAccess(fundId, batchId, auditor.address).catch(e => e);
+      expect(rejection.errorName).to.equal("InvalidInput");
+    });
+  });
+
+  describe("investor shares", function () {
+    it("lets the investor decrypt the amounts of its subscriptions and redemptions", async function () {
+      const fundId = await createFund();
+      const investorClient = AssetMgmtClient.connect(address, investor);
+      const encrypt = (amount: bigint) => fhevm.createEncryptedInput(address, investor.address).add64(amount).encrypt();
+
+      // Before the first share price update, shares are issued and redeemed at 1.0000
+      const subscribed = await encrypt(1_000_00n);
+      const subscription = await investorClient.subscribe(fundId, subscribed.handles[0], subscribed.inputProof);
+      expect(await decrypt(subscription.amount, investor)).to.equal(1_000_00n);
+      expect(await decrypt(subscription.shares, investor)).to.equal(1_000_00n);
+
+      const redeemed = await encrypt(400_00n);
+      const redemption = await investorClient.redeem(fundId, redeemed.handles[0], redeemed.inputProof);
+      expect(await decrypt(redemption.shares, investor)).to.equal(400_00n);
+      expect(await decrypt(redemption.payout, investor)).to.equal(400_00n);
+    });
+
+    it("issues and redeems shares at the updated share price", async function () {
+      const fundId = await createFund();
+      const investorClient = AssetMgmtClient.connect(address, investor);
+      const encrypt = (amount: bigint) => fhevm.createEncryptedInput(address, investor.address).add64(amount).encrypt();
+      const decryptPrice = (handle: string, signer: HardhatEthersSigner) =>
+        fhevm.userDecryptEuint(FhevmType.euint32, handle, address, signer);
+
+      const seed = await encrypt(1_000_000_00n);
+      await investorClient.subscribe(fundId, seed.handles[0], seed.inputProof);
+      await openNextBatch(fundId);
+      await submit(fundId, 1_234_567_89n, 200n, 2_000n);
+      await client.updateSharePrice(fundId);
+
+      // 1,234,567.89 USD over 1,000,000.00 shares, both truncated to four decimals
+      const price = await client.sharePrice(fundId);
+      expect(await decryptPrice(price.navPerShare!, manager)).to.equal(12_345n);
+      expect(await decryptPrice(price.sharesPerAsset!, manager)).to.equal(8_100n);
+      await investorClient.allowSharePrice(fundId);
+      expect(navPerShare.decode(await decryptPrice(price.navPerShare!, investor))).to.equal(1.2345);
+      expect(sharesPerAsset.decode(await decryptPrice(price.sharesPerAsset!, investor))).to.equal(0.81);
+
+      const subscribed = await encrypt(10_000_00n);
+      const subscription = await investorClient.subscribe(fundId, subscribed.handles[0], subscribed.inputProof);
+      expect(await decrypt(subscription.shares, investor)).to.equal(8_100_00n);
+
+      // 5,000 USD buys back 4,050 shares, paid out at 1.2345
+      const redeemed = await encrypt(5_000_00n);
+      const redemption = await investorClient.redeem(fundId, redeemed.handles[0], redeemed.inputProof);
+      expect(await decrypt(redemption.shares, investor)).to.equal(4_050_00n);
+      expect(await decrypt(redemption.payout, investor)).to.equal(4_999_72n);
+      expect(await decrypt(await client.shareBalance(fundId, investor.address), investor)).to.equal(1_004_050_00n);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { expect } from "chai";
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { artifacts, ethers, run } from "hardhat";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { DeploymentManifest } from "../src/deployments";
+import { selectedNetwork } from "../deploy/accounts";
+
+describe("deploy", function () {
+  let dir: string;
+  let manifestFile: string;
+  let abiDir: string;
+
+  beforeEach(function () {
+    dir = mkdtempSync(join(tmpdir(), "deploy-"));
+    manifestFile = join(dir, "deployments", "hardhat.json");
+    abiDir = join(dir, "abi");
+    mkdirSync(abiDir);
+  });
+
+  afterEach(function () {
+    rmSync(dir, { recursive: true });
+  });
+
+  const deploy = (dryRun = false) => run("deploy", { dryRun, deploymentsDir: join(dir, "deployments"), abiDir });
+  const readManifest = (): DeploymentManifest => JSON.parse(readFileSync(manifestFile, "utf-8"));
+  const deployerNonce = async () => ethers.provider.getTransactionCount((await ethers.getSigners())[0]);
+
+  it("skips contracts whose bytecode and constructor arguments match", async function () {
+    await deploy();
+    const manifest = readFileSync(manifestFile, "utf-8");
+    const { address } = readManifest().contracts.AssetMgmtFhe;
+    expect(await ethers.provider.getCode(address)).to.not.equal("0x");
+    const abi = join(abiDir, "AssetMgmtFhe.json");
+    expect(readFileSync(abi, "utf-8")).to.equal(JSON.stringify(await artifacts.readArtifact("AssetMgmtFhe"), null, 2));
+
+    const nonce = await deployerNonce();
+    await deploy();
+    expect(await deployerNonce()).to.equal(nonce);
+    expect(readFileSync(manifestFile, "utf-8")).to.equal(manifest);
+  });
+
+  it("redeploys when the recorded contract is gone or its arguments changed", async function () {
+    await deploy();
+    const manifest = readManifest();
+    const recorded = manifest.contracts.AssetMgmtFhe;
+
+    writeFileSync(manifestFile, JSON.stringify({ ...manifest, contracts: { AssetMgmtFhe: { ...recorded, constructorArgs: [1] } } }));
+    await deploy();
+    const redeployed = readManifest().contracts.AssetMgmtFhe;
+    expect(redeployed.address).to.not.equal(recorded.address);
+    expect(redeployed.constructorArgs).to.deep.equal([]);
+
+    writeFileSync(manifestFile, JSON.stringify({ ...manifest, contracts: { AssetMgmtFhe: { ...recorded, address: ethers.Wallet.createRandom().address } } }));
+    await deploy();
+    expect(await ethers.provider.getCode(readManifest().contracts.AssetMgmtFhe.address)).to.not.equal("0x");
+  });
+
+  it("sends and writes nothing on a dry run", async function () {
+    const nonce = await deployerNonce();
+    await deploy(true);
+    expect(await deployerNonce()).to.equal(nonce);
+    expect(existsSync(manifestFile)).to.equal(false);
+    expect(readdirSync(abiDir)).to.be.empty;
+
+    await deploy();
+    const manifest = readFileSync(manifestFile, "utf-8");
+    rmSync(join(abiDir, "AssetMgmtFhe.json"));
+    await deploy(true);
+    expect(readFileSync(manifestFile, "utf-8")).to.equal(manifest);
+    expect(readdirSync(abiDir)).to.be.empty;
+  });
+
+  it("reads the selected network in both forms of --network", function () {
+    expect(selectedNetwork(["node", "hardhat", "--network", "sepolia", "deploy"])).to.equal("sepolia");
+    expect(selectedNetwork(["node", "hardhat", "--network=sepolia", "deploy"])).to.equal("sepolia");
+    expect(selectedNetwork(["node", "hardhat", "deploy", "--network"])).to.equal(process.env.HARDHAT_NETWORK);
+  });
+});
@@ -0,0 +1,27 @@
+import { expect } from "chai";
+import { basisPoints, money, navPerShare, scenarioFactor } from "../src/encoding";
+
+describe("encoding", function () {
+  it("rounds on the decimal value rather than its binary float", function () {
+    // 1.005 is stored as 1.00499999999999989...
+    expect(basisPoints.encode(1.005)).to.equal(101n);
+    expect(money.encode(1.005)).to.equal(101n);
+    expect(money.encode(0.1 + 0.2)).to.equal(30n);
+    expect(money.encode(1.004)).to.equal(100n);
+    expect(navPerShare.encode(1.00005)).to.equal(10_001n);
+    expect(money.encode(1e-7)).to.equal(0n);
+    expect(money.encode(1e21 / 1e12)).to.equal(1_000_000_000_00n);
+  });
+
+  it("rejects basis points above 100%", function () {
+    expect(basisPoints.encode(100)).to.equal(10_000n);
+    expect(() => basisPoints.encode(250)).to.throw(RangeError);
+    expect(() => basisPoints.encode(100.005)).to.throw(RangeError);
+    expect(() => basisPoints.decode(10_001n)).to.throw(RangeError);
+  });
+
+  it("keeps scenario factors above 100%", function () {
+    expect(scenarioFactor.encode(250)).to.equal(25_000n);
+    expect(() => scenarioFactor.encode(2_700)).to.throw(RangeError);
+  });
+});
@@ -0,0 +1,51 @@
+import { expect } from "chai";
+import { encodeFundStateRow, fundStateFormatOf, parseFundStates } from "../src/fundStateInput";
+
+const HEADER = "fund,totalAssets,managerFeeRate,performanceFeeRate";
+
+describe("fundStateInput", function () {
+  it("parses CSV rows, skipping blank lines and comments", function () {
+    const rows = parseFundStates(`${HEADER}\r\n# fund 1\n1, 1250000.5 ,2,20\n\n,900000,1.5,10\n`, "csv");
+    expect(rows).to.deep.equal([
+      { fundId: 1n, totalAssets: 1_250_000.5, managerFeeRate: 2, performanceFeeRate: 20 },
+      { totalAssets: 900_000, managerFeeRate: 1.5, performanceFeeRate: 10 },
+    ]);
+    expect(encodeFundStateRow(rows[0])).to.deep.equal([1_250_000_50n, 200n, 2_000n]);
+  });
+
+  it("reads quoted CSV cells", function () {
+    const rows = parseFundStates(`"fund","totalAssets" ,managerFeeRate,"performanceFeeRate"\n"2", "1000" ,"2",20`, "csv");
+    expect(rows).to.deep.equal([{ fundId: 2n, totalAssets: 1_000, managerFeeRate: 2, performanceFeeRate: 20 }]);
+  });
+
+  it("keeps commas and escaped quotes inside quoted cells", function () {
+    // One cell, which is not a number, rather than a shifted row
+    expect(() => parseFundStates(`${HEADER}\n1,"1,250,000",2,20`, "csv")).to.throw('Line 2: totalAssets must be a number, got "1,250,000"');
+    expect(() => parseFundStates(`${HEADER}\n1,"12""5",2,20`, "csv")).to.throw('got "12\\"5"');
+  });
+
+  it("rejects malformed quoting", function () {
+    expect(() => parseFundStates(`${HEADER}\n1,"1250000,2,20`, "csv")).to.throw("Line 2: unterminated quoted cell");
+    expect(() => parseFundStates(`${HEADER}\n1,12"5,2,20`, "csv")).to.throw("Line 2: quote inside an unquoted cell");
+    expect(() => parseFundStates(`${HEADER}\n1,"12"5,2,20`, "csv")).to.throw("Line 2: unexpected text after a quoted cell");
+  });
+
+  it("rejects rows with the wrong number of columns or values", function () {
+    expect(() => parseFundStates(`${HEADER}\n1,1000,2,20,`, "csv")).to.throw("Line 2: expected 4 columns, got 5");
+    expect(() => parseFundStates(`${HEADER}\n1,,2,20`, "csv")).to.throw("Line 2: totalAssets must be a number");
+    expect(() => parseFundStates(`${HEADER}\n1.5,1000,2,20`, "csv")).to.throw("Line 2: fund must be a fund id");
+    expect(() => parseFundStates(`${HEADER}\n1,1000,2,250`, "csv")).to.throw(RangeError);
+  });
+
+  it("parses JSON objects and arrays", function () {
+    const state = { totalAssets: 1_000, managerFeeRate: 2, performanceFeeRate: 20 };
+    expect(parseFundStates(JSON.stringify(state), "json")).to.deep.equal([state]);
+    expect(parseFundStates(JSON.stringify([{ ...state, fundId: "3" }]), "json")).to.deep.equal([{ ...state, fundId: 3n }]);
+    expect(() => parseFundStates("[1]", "json")).to.throw("Entry 0: expected an object");
+  });
+
+  it("guesses the format from the extension", function () {
+    expect(fundStateFormatOf("states.CSV")).to.equal("csv");
+    expect(fundStateFormatOf("states.json")).to.equal("json");
+  });
+});
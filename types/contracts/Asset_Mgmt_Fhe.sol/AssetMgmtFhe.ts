@@ -0,0 +1,2941 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface AssetMgmtFheInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ADMIN_ROLE"
+      | "AUDITOR_ROLE"
+      | "COMPLIANCE_OFFICER_ROLE"
+      | "DATA_PROVIDER_ROLE"
+      | "FUND_MANAGER_ROLE"
+      | "PAUSER_ROLE"
+      | "SHARE_PRICE_SCALE"
+      | "TIMELOCK_DELAY"
+      | "acceptOwnership"
+      | "accrueManagementFee"
+      | "accruedManagementFees"
+      | "accruedPerformanceFees"
+      | "actionCount"
+      | "addProvider"
+      | "allowSharePrice"
+      | "auditorGrants"
+      | "batchOverflowed"
+      | "batchProviders"
+      | "batchStateHash"
+      | "batches"
+      | "cancelAction"
+      | "closeBatch"
+      | "closeFund"
+      | "complianceCallback"
+      | "complianceContexts"
+      | "complianceResults"
+      | "complianceRules"
+      | "complianceStateHash"
+      | "cooldownSeconds"
+      | "createFund"
+      | "decryptionContexts"
+      | "executeAction"
+      | "finalizeBatch"
+      | "fundCount"
+      | "fundInfo"
+      | "fundValuesAtBatchClose"
+      | "funds"
+      | "grantAuditorAccess"
+      | "grantRole"
+      | "hasRole"
+      | "highWaterMarkSet"
+      | "isInvestor"
+      | "isProvider"
+      | "lastDecryptionRequestTime"
+      | "lastFeeAccrualAt"
+      | "lastSubmissionTime"
+      | "myCallback"
+      | "openBatch"
+      | "owner"
+      | "paused"
+      | "pendingOwner"
+      | "protocolId"
+      | "queueCooldownChange"
+      | "queueProviderRemoval"
+      | "queuedActions"
+      | "redeem"
+      | "reissueAuditorAccess"
+      | "renounceRole"
+      | "requestComplianceCheck"
+      | "requestFundDecryption"
+      | "revokeAuditorAccess"
+      | "revokeRole"
+      | "scenarioFlow"
+      | "scenarioResults"
+      | "scenarioScale"
+      | "scenarioShock"
+      | "scheduleBatch"
+      | "setComplianceRules"
+      | "setPaused"
+      | "shareBalances"
+      | "sharePrices"
+      | "submitFundState"
+      | "subscribe"
+      | "totalShares"
+      | "transferOwnership"
+      | "updateSharePrice"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ActionCancelled"
+      | "ActionExecuted"
+      | "ActionQueued"
+      | "AuditorAccessGranted"
+      | "AuditorAccessRevoked"
+      | "BatchClosed"
+      | "BatchFinalized"
+      | "BatchOpened"
+      | "BatchScheduled"
+      | "ComplianceCheckRequested"
+      | "ComplianceRulesSet"
+      | "ComplianceVerified"
+      | "CooldownSecondsSet"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "FundClosed"
+      | "FundCreated"
+      | "FundStateSubmitted"
+      | "ManagementFeeAccrued"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "PauseToggled"
+      | "PerformanceFeeCrystallized"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "Redeemed"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "ScenarioComputed"
+      | "SharePriceUpdated"
+      | "Subscribed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "AUDITOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "COMPLIANCE_OFFICER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DATA_PROVIDER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "FUND_MANAGER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SHARE_PRICE_SCALE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "TIMELOCK_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "accrueManagementFee",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "accruedManagementFees",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "accruedPerformanceFees",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "actionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowSharePrice",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auditorGrants",
+    values: [BigNumberish, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchOverflowed",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchProviders",
+    values: [BigNumberish, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchStateHash",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batches",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelAction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeFund",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "complianceCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "complianceContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "complianceResults",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "complianceRules",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "complianceStateHash",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "createFund", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeAction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "fundCount", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "fundInfo",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundValuesAtBatchClose",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "funds",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantAuditorAccess",
+    values: [BigNumberish, BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "highWaterMarkSet",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isInvestor",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastFeeAccrualAt",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queueCooldownChange",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queueProviderRemoval",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queuedActions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "redeem",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reissueAuditorAccess",
+    values: [BigNumberish, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceRole",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestComplianceCheck",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestFundDecryption",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeAuditorAccess",
+    values: [BigNumberish, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scenarioFlow",
+    values: [BigNumberish, BigNumberish, BytesLike, boolean, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scenarioResults",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scenarioScale",
+    values: [BigNumberish, BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scenarioShock",
+    values: [BigNumberish, BigNumberish, BytesLike, boolean, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scheduleBatch",
+    values: [BigNumberish, BigNumberish, BigNumberish, AddressLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setComplianceRules",
+    values: [
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(functionFragment: "setPaused", values: [boolean]): string;
+  encodeFunctionData(
+    functionFragment: "shareBalances",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "sharePrices",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitFundState",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscribe",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalShares",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateSharePrice",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "ADMIN_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "AUDITOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "COMPLIANCE_OFFICER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DATA_PROVIDER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "FUND_MANAGER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SHARE_PRICE_SCALE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "TIMELOCK_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "accrueManagementFee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "accruedManagementFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "accruedPerformanceFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "actionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowSharePrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "auditorGrants",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchOverflowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchProviders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchStateHash",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batches", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelAction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "closeFund", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "complianceCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "complianceContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "complianceResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "complianceRules",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "complianceStateHash",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "createFund", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeAction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "fundCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "fundInfo", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "fundValuesAtBatchClose",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "funds", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "grantAuditorAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "highWaterMarkSet",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isInvestor", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastFeeAccrualAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "queueCooldownChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "queueProviderRemoval",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "queuedActions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "redeem", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "reissueAuditorAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestComplianceCheck",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestFundDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeAuditorAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "scenarioFlow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "scenarioResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "scenarioScale",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "scenarioShock",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "scheduleBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setComplianceRules",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPaused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "shareBalances",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "sharePrices",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitFundState",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "subscribe", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "totalShares",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateSharePrice",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ActionCancelledEvent {
+  export type InputTuple = [actionId: BigNumberish, canceller: AddressLike];
+  export type OutputTuple = [actionId: bigint, canceller: string];
+  export interface OutputObject {
+    actionId: bigint;
+    canceller: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ActionExecutedEvent {
+  export type InputTuple = [actionId: BigNumberish, executor: AddressLike];
+  export type OutputTuple = [actionId: bigint, executor: string];
+  export interface OutputObject {
+    actionId: bigint;
+    executor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ActionQueuedEvent {
+  export type InputTuple = [
+    actionId: BigNumberish,
+    kind: BigNumberish,
+    fundId: BigNumberish,
+    provider: AddressLike,
+    cooldownSeconds: BigNumberish,
+    eta: BigNumberish,
+    proposer: AddressLike
+  ];
+  export type OutputTuple = [
+    actionId: bigint,
+    kind: bigint,
+    fundId: bigint,
+    provider: string,
+    cooldownSeconds: bigint,
+    eta: bigint,
+    proposer: string
+  ];
+  export interface OutputObject {
+    actionId: bigint;
+    kind: bigint;
+    fundId: bigint;
+    provider: string;
+    cooldownSeconds: bigint;
+    eta: bigint;
+    proposer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuditorAccessGrantedEvent {
+  export type InputTuple = [
+    fundId: BigNumberish,
+    batchId: BigNumberish,
+    auditor: AddressLike,
+    fields: BigNumberish,
+    handles: BytesLike[]
+  ];
+  export type OutputTuple = [
+    fundId: bigint,
+    batchId: bigint,
+    auditor: string,
+    fields: bigint,
+    handles: string[]
+  ];
+  export interface OutputObject {
+    fundId: bigint;
+    batchId: bigint;
+    auditor: string;
+    fields: bigint;
+    handles: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuditorAccessRevokedEvent {
+  export type InputTuple = [
+    fundId: BigNumberish,
+    batchId: BigNumberish,
+    auditor: AddressLike
+  ];
+  export type OutputTuple = [fundId: bigint, batchId: bigint, auditor: string];
+  export interface OutputObject {
+    fundId: bigint;
+    batchId: bigint;
+    auditor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [
+    fundId: BigNumberish,
+    batchId: BigNumberish,
+    encryptedValueSnapshot: BytesLike
+  ];
+  export type OutputTuple = [
+    fundId: bigint,
+    batchId: bigint,
+    encryptedValueSnapshot: string
+  ];
+  export interface OutputObject {
+    fundId: bigint;
+    batchId: bigint;
+    encryptedValueSnapshot: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchFinalizedEvent {
+  export type InputTuple = [fundId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [fundId: bigint, batchId: bigint];
+  export interface OutputObject {
+    fundId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [fundId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [fundId: bigint, batchId: bigint];
+  export interface OutputObject {
+    fundId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchScheduledEvent {
+  export type InputTuple = [
+    fundId: BigNumberish,
+    batchId: BigNumberish,
+    opensAt: BigNumberish,
+    submissionDeadline: BigNumberish,
+    providers: AddressLike[]
+  ];
+  export type OutputTuple = [
+    fundId: bigint,
+    batchId: bigint,
+    opensAt: bigint,
+    submissionDeadline: bigint,
+    providers: string[]
+  ];
+  export interface OutputObject {
+    fundId: bigint;
+    batchId: bigint;
+    opensAt: bigint;
+    submissionDeadline: bigint;
+    providers: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ComplianceCheckRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    fundId: BigNumberish,
+    batchId: BigNumberish,
+    stateHash: BytesLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    fundId: bigint,
+    batchId: bigint,
+    stateHash: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    fundId: bigint;
+    batchId: bigint;
+    stateHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ComplianceRulesSetEvent {
+  export type InputTuple = [fundId: BigNumberish];
+  export type OutputTuple = [fundId: bigint];
+  export interface OutputObject {
+    fundId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ComplianceVerifiedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    fundId: BigNumberish,
+    batchId: BigNumberish,
+    compliant: boolean,
+    failedRules: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    fundId: bigint,
+    batchId: bigint,
+    compliant: boolean,
+    failedRules: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    fundId: bigint;
+    batchId: bigint;
+    compliant: boolean;
+    failedRules: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsSetEvent {
+  export type InputTuple = [
+    oldCooldown: BigNumberish,
+    newCooldown: BigNumberish
+  ];
+  export type OutputTuple = [oldCooldown: bigint, newCooldown: bigint];
+  export interface OutputObject {
+    oldCooldown: bigint;
+    newCooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    fundId: BigNumberish,
+    batchId: BigNumberish,
+    totalAssets: BigNumberish,
+    managerFee: BigNumberish,
+    performanceFee: BigNumberish,
+    highWaterMark: BigNumberish,
+    valueAtBatchClose: BigNumberish,
+    overflowed: boolean
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    fundId: bigint,
+    batchId: bigint,
+    totalAssets: bigint,
+    managerFee: bigint,
+    performanceFee: bigint,
+    highWaterMark: bigint,
+    valueAtBatchClose: bigint,
+    overflowed: boolean
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    fundId: bigint;
+    batchId: bigint;
+    totalAssets: bigint;
+    managerFee: bigint;
+    performanceFee: bigint;
+    highWaterMark: bigint;
+    valueAtBatchClose: bigint;
+    overflowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    fundId: BigNumberish,
+    batchId: BigNumberish,
+    stateHash: BytesLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    fundId: bigint,
+    batchId: bigint,
+    stateHash: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    fundId: bigint;
+    batchId: bigint;
+    stateHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FundClosedEvent {
+  export type InputTuple = [fundId: BigNumberish];
+  export type OutputTuple = [fundId: bigint];
+  export interface OutputObject {
+    fundId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FundCreatedEvent {
+  export type InputTuple = [
+    fundId: BigNumberish,
+    manager: AddressLike,
+    name: string
+  ];
+  export type OutputTuple = [fundId: bigint, manager: string, name: string];
+  export interface OutputObject {
+    fundId: bigint;
+    manager: string;
+    name: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FundStateSubmittedEvent {
+  export type InputTuple = [
+    fundId: BigNumberish,
+    batchId: BigNumberish,
+    provider: AddressLike,
+    totalAssets: BytesLike,
+    managerFee: BytesLike,
+    performanceFee: BytesLike
+  ];
+  export type OutputTuple = [
+    fundId: bigint,
+    batchId: bigint,
+    provider: string,
+    totalAssets: string,
+    managerFee: string,
+    performanceFee: string
+  ];
+  export interface OutputObject {
+    fundId: bigint;
+    batchId: bigint;
+    provider: string;
+    totalAssets: string;
+    managerFee: string;
+    performanceFee: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ManagementFeeAccruedEvent {
+  export type InputTuple = [
+    fundId: BigNumberish,
+    batchId: BigNumberish,
+    fromTimestamp: BigNumberish,
+    toTimestamp: BigNumberish,
+    fee: BytesLike,
+    accrued: BytesLike
+  ];
+  export type OutputTuple = [
+    fundId: bigint,
+    batchId: bigint,
+    fromTimestamp: bigint,
+    toTimestamp: bigint,
+    fee: string,
+    accrued: string
+  ];
+  export interface OutputObject {
+    fundId: bigint;
+    batchId: bigint;
+    fromTimestamp: bigint;
+    toTimestamp: bigint;
+    fee: string;
+    accrued: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [owner: AddressLike, pendingOwner: AddressLike];
+  export type OutputTuple = [owner: string, pendingOwner: string];
+  export interface OutputObject {
+    owner: string;
+    pendingOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [oldOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [oldOwner: string, newOwner: string];
+  export interface OutputObject {
+    oldOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PauseToggledEvent {
+  export type InputTuple = [paused: boolean];
+  export type OutputTuple = [paused: boolean];
+  export interface OutputObject {
+    paused: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PerformanceFeeCrystallizedEvent {
+  export type InputTuple = [
+    fundId: BigNumberish,
+    batchId: BigNumberish,
+    totalAssets: BytesLike,
+    highWaterMark: BytesLike,
+    fee: BytesLike,
+    accrued: BytesLike
+  ];
+  export type OutputTuple = [
+    fundId: bigint,
+    batchId: bigint,
+    totalAssets: string,
+    highWaterMark: string,
+    fee: string,
+    accrued: string
+  ];
+  export interface OutputObject {
+    fundId: bigint;
+    batchId: bigint;
+    totalAssets: string;
+    highWaterMark: string;
+    fee: string;
+    accrued: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [fundId: BigNumberish, provider: AddressLike];
+  export type OutputTuple = [fundId: bigint, provider: string];
+  export interface OutputObject {
+    fundId: bigint;
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [fundId: BigNumberish, provider: AddressLike];
+  export type OutputTuple = [fundId: bigint, provider: string];
+  export interface OutputObject {
+    fundId: bigint;
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RedeemedEvent {
+  export type InputTuple = [
+    fundId: BigNumberish,
+    investor: AddressLike,
+    shares: BytesLike,
+    payout: BytesLike
+  ];
+  export type OutputTuple = [
+    fundId: bigint,
+    investor: string,
+    shares: string,
+    payout: string
+  ];
+  export interface OutputObject {
+    fundId: bigint;
+    investor: string;
+    shares: string;
+    payout: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScenarioComputedEvent {
+  export type InputTuple = [
+    fundId: BigNumberish,
+    batchId: BigNumberish,
+    caller: AddressLike,
+    kind: BigNumberish,
+    result: BytesLike
+  ];
+  export type OutputTuple = [
+    fundId: bigint,
+    batchId: bigint,
+    caller: string,
+    kind: bigint,
+    result: string
+  ];
+  export interface OutputObject {
+    fundId: bigint;
+    batchId: bigint;
+    caller: string;
+    kind: bigint;
+    result: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SharePriceUpdatedEvent {
+  export type InputTuple = [
+    fundId: BigNumberish,
+    batchId: BigNumberish,
+    navPerShare: BytesLike,
+    sharesPerAsset: BytesLike
+  ];
+  export type OutputTuple = [
+    fundId: bigint,
+    batchId: bigint,
+    navPerShare: string,
+    sharesPerAsset: string
+  ];
+  export interface OutputObject {
+    fundId: bigint;
+    batchId: bigint;
+    navPerShare: string;
+    sharesPerAsset: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubscribedEvent {
+  export type InputTuple = [
+    fundId: BigNumberish,
+    investor: AddressLike,
+    amount: BytesLike,
+    shares: BytesLike
+  ];
+  export type OutputTuple = [
+    fundId: bigint,
+    investor: string,
+    amount: string,
+    shares: string
+  ];
+  export interface OutputObject {
+    fundId: bigint;
+    investor: string;
+    amount: string;
+    shares: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AssetMgmtFhe extends BaseContract {
+  connect(runner?: ContractRunner | null): AssetMgmtFhe;
+  waitForDeployment(): Promise<this>;
+
+  interface: AssetMgmtFheInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  AUDITOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  COMPLIANCE_OFFICER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  DATA_PROVIDER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  FUND_MANAGER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  PAUSER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  SHARE_PRICE_SCALE: TypedContractMethod<[], [bigint], "view">;
+
+  TIMELOCK_DELAY: TypedContractMethod<[], [bigint], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  accrueManagementFee: TypedContractMethod<
+    [fundId: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+
+  accruedManagementFees: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  accruedPerformanceFees: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  actionCount: TypedContractMethod<[], [bigint], "view">;
+
+  addProvider: TypedContractMethod<
+    [fundId: BigNumberish, provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  allowSharePrice: TypedContractMethod<
+    [fundId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  auditorGrants: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish, arg2: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  batchOverflowed: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  batchProviders: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish, arg2: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  batchStateHash: TypedContractMethod<
+    [fundId: BigNumberish, _batchId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  batches: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint] & {
+        state: bigint;
+        opensAt: bigint;
+        submissionDeadline: bigint;
+        closedAt: bigint;
+        providerCount: bigint;
+        submissionCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  cancelAction: TypedContractMethod<
+    [actionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeBatch: TypedContractMethod<[fundId: BigNumberish], [void], "nonpayable">;
+
+  closeFund: TypedContractMethod<[fundId: BigNumberish], [void], "nonpayable">;
+
+  complianceCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  complianceContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        fundId: bigint;
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  complianceResults: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [bigint, boolean, bigint, bigint] & {
+        requestId: bigint;
+        compliant: boolean;
+        failedRules: bigint;
+        verifiedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  complianceRules: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, string] & {
+        minTotalAssets: string;
+        maxManagerFeeRate: string;
+        maxPerformanceFeeRate: string;
+        maxDrawdown: string;
+      }
+    ],
+    "view"
+  >;
+
+  complianceStateHash: TypedContractMethod<
+    [fundId: BigNumberish, _batchId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  createFund: TypedContractMethod<[name: string], [bigint], "nonpayable">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        fundId: bigint;
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  executeAction: TypedContractMethod<
+    [actionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  finalizeBatch: TypedContractMethod<
+    [fundId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  fundCount: TypedContractMethod<[], [bigint], "view">;
+
+  fundInfo: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, boolean, boolean, bigint, bigint] & {
+        name: string;
+        manager: string;
+        currentBatchId: bigint;
+        batchOpen: boolean;
+        closed: boolean;
+        createdAt: bigint;
+        batchCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  fundValuesAtBatchClose: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  funds: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string] & {
+        totalAssets: string;
+        managerFeeRate: string;
+        performanceFeeRate: string;
+        highWaterMark: string;
+      }
+    ],
+    "view"
+  >;
+
+  grantAuditorAccess: TypedContractMethod<
+    [
+      fundId: BigNumberish,
+      _batchId: BigNumberish,
+      auditor: AddressLike,
+      fields: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  highWaterMarkSet: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isInvestor: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isProvider: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastFeeAccrualAt: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<[fundId: BigNumberish], [void], "nonpayable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  queueCooldownChange: TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  queueProviderRemoval: TypedContractMethod<
+    [fundId: BigNumberish, provider: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  queuedActions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, string, bigint] & {
+        kind: bigint;
+        status: bigint;
+        eta: bigint;
+        fundId: bigint;
+        provider: string;
+        cooldownSeconds: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  redeem: TypedContractMethod<
+    [fundId: BigNumberish, amount: BytesLike, inputProof: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  reissueAuditorAccess: TypedContractMethod<
+    [fundId: BigNumberish, _batchId: BigNumberish, auditor: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceRole: TypedContractMethod<[role: BytesLike], [void], "nonpayable">;
+
+  requestComplianceCheck: TypedContractMethod<
+    [fundId: BigNumberish, _batchId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  requestFundDecryption: TypedContractMethod<
+    [fundId: BigNumberish, _batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeAuditorAccess: TypedContractMethod<
+    [fundId: BigNumberish, _batchId: BigNumberish, auditor: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  scenarioFlow: TypedContractMethod<
+    [
+      fundId: BigNumberish,
+      _batchId: BigNumberish,
+      amount: BytesLike,
+      isOutflow: boolean,
+      inputProof: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  scenarioResults: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish, arg2: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  scenarioScale: TypedContractMethod<
+    [
+      fundId: BigNumberish,
+      _batchId: BigNumberish,
+      factorBps: BytesLike,
+      inputProof: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  scenarioShock: TypedContractMethod<
+    [
+      fundId: BigNumberish,
+      _batchId: BigNumberish,
+      shockBps: BytesLike,
+      isLoss: boolean,
+      inputProof: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  scheduleBatch: TypedContractMethod<
+    [
+      fundId: BigNumberish,
+      opensAt: BigNumberish,
+      submissionDeadline: BigNumberish,
+      providers: AddressLike[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  setComplianceRules: TypedContractMethod<
+    [
+      fundId: BigNumberish,
+      minTotalAssets: BytesLike,
+      maxManagerFeeRate: BytesLike,
+      maxPerformanceFeeRate: BytesLike,
+      maxDrawdown: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaused: TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+
+  shareBalances: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+
+  sharePrices: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint] & {
+        navPerShare: string;
+        sharesPerAsset: string;
+        updatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  submitFundState: TypedContractMethod<
+    [
+      fundId: BigNumberish,
+      encryptedTotalAssets: BytesLike,
+      encryptedManagerFeeRate: BytesLike,
+      encryptedPerformanceFeeRate: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  subscribe: TypedContractMethod<
+    [fundId: BigNumberish, amount: BytesLike, inputProof: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  totalShares: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  updateSharePrice: TypedContractMethod<
+    [fundId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "AUDITOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "COMPLIANCE_OFFICER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "DATA_PROVIDER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "FUND_MANAGER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PAUSER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "SHARE_PRICE_SCALE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "TIMELOCK_DELAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "accrueManagementFee"
+  ): TypedContractMethod<[fundId: BigNumberish], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "accruedManagementFees"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "accruedPerformanceFees"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "actionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<
+    [fundId: BigNumberish, provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "allowSharePrice"
+  ): TypedContractMethod<[fundId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "auditorGrants"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish, arg2: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batchOverflowed"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batchProviders"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish, arg2: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batchStateHash"
+  ): TypedContractMethod<
+    [fundId: BigNumberish, _batchId: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batches"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint] & {
+        state: bigint;
+        opensAt: bigint;
+        submissionDeadline: bigint;
+        closedAt: bigint;
+        providerCount: bigint;
+        submissionCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelAction"
+  ): TypedContractMethod<[actionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[fundId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeFund"
+  ): TypedContractMethod<[fundId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "complianceCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "complianceContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        fundId: bigint;
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "complianceResults"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [bigint, boolean, bigint, bigint] & {
+        requestId: bigint;
+        compliant: boolean;
+        failedRules: bigint;
+        verifiedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "complianceRules"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, string] & {
+        minTotalAssets: string;
+        maxManagerFeeRate: string;
+        maxPerformanceFeeRate: string;
+        maxDrawdown: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "complianceStateHash"
+  ): TypedContractMethod<
+    [fundId: BigNumberish, _batchId: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createFund"
+  ): TypedContractMethod<[name: string], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        fundId: bigint;
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "executeAction"
+  ): TypedContractMethod<[actionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "finalizeBatch"
+  ): TypedContractMethod<[fundId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "fundCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "fundInfo"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, boolean, boolean, bigint, bigint] & {
+        name: string;
+        manager: string;
+        currentBatchId: bigint;
+        batchOpen: boolean;
+        closed: boolean;
+        createdAt: bigint;
+        batchCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "fundValuesAtBatchClose"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "funds"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string] & {
+        totalAssets: string;
+        managerFeeRate: string;
+        performanceFeeRate: string;
+        highWaterMark: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantAuditorAccess"
+  ): TypedContractMethod<
+    [
+      fundId: BigNumberish,
+      _batchId: BigNumberish,
+      auditor: AddressLike,
+      fields: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "highWaterMarkSet"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isInvestor"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastFeeAccrualAt"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[fundId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "queueCooldownChange"
+  ): TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "queueProviderRemoval"
+  ): TypedContractMethod<
+    [fundId: BigNumberish, provider: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "queuedActions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, string, bigint] & {
+        kind: bigint;
+        status: bigint;
+        eta: bigint;
+        fundId: bigint;
+        provider: string;
+        cooldownSeconds: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "redeem"
+  ): TypedContractMethod<
+    [fundId: BigNumberish, amount: BytesLike, inputProof: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reissueAuditorAccess"
+  ): TypedContractMethod<
+    [fundId: BigNumberish, _batchId: BigNumberish, auditor: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "renounceRole"
+  ): TypedContractMethod<[role: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestComplianceCheck"
+  ): TypedContractMethod<
+    [fundId: BigNumberish, _batchId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestFundDecryption"
+  ): TypedContractMethod<
+    [fundId: BigNumberish, _batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeAuditorAccess"
+  ): TypedContractMethod<
+    [fundId: BigNumberish, _batchId: BigNumberish, auditor: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "scenarioFlow"
+  ): TypedContractMethod<
+    [
+      fundId: BigNumberish,
+      _batchId: BigNumberish,
+      amount: BytesLike,
+      isOutflow: boolean,
+      inputProof: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "scenarioResults"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish, arg2: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "scenarioScale"
+  ): TypedContractMethod<
+    [
+      fundId: BigNumberish,
+      _batchId: BigNumberish,
+      factorBps: BytesLike,
+      inputProof: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "scenarioShock"
+  ): TypedContractMethod<
+    [
+      fundId: BigNumberish,
+      _batchId: BigNumberish,
+      shockBps: BytesLike,
+      isLoss: boolean,
+      inputProof: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "scheduleBatch"
+  ): TypedContractMethod<
+    [
+      fundId: BigNumberish,
+      opensAt: BigNumberish,
+      submissionDeadline: BigNumberish,
+      providers: AddressLike[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setComplianceRules"
+  ): TypedContractMethod<
+    [
+      fundId: BigNumberish,
+      minTotalAssets: BytesLike,
+      maxManagerFeeRate: BytesLike,
+      maxPerformanceFeeRate: BytesLike,
+      maxDrawdown: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaused"
+  ): TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "shareBalances"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "sharePrices"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint] & {
+        navPerShare: string;
+        sharesPerAsset: string;
+        updatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "submitFundState"
+  ): TypedContractMethod<
+    [
+      fundId: BigNumberish,
+      encryptedTotalAssets: BytesLike,
+      encryptedManagerFeeRate: BytesLike,
+      encryptedPerformanceFeeRate: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "subscribe"
+  ): TypedContractMethod<
+    [fundId: BigNumberish, amount: BytesLike, inputProof: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "totalShares"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateSharePrice"
+  ): TypedContractMethod<[fundId: BigNumberish], [void], "nonpayable">;
+
+  getEvent(
+    key: "ActionCancelled"
+  ): TypedContractEvent<
+    ActionCancelledEvent.InputTuple,
+    ActionCancelledEvent.OutputTuple,
+    ActionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ActionExecuted"
+  ): TypedContractEvent<
+    ActionExecutedEvent.InputTuple,
+    ActionExecutedEvent.OutputTuple,
+    ActionExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ActionQueued"
+  ): TypedContractEvent<
+    ActionQueuedEvent.InputTuple,
+    ActionQueuedEvent.OutputTuple,
+    ActionQueuedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuditorAccessGranted"
+  ): TypedContractEvent<
+    AuditorAccessGrantedEvent.InputTuple,
+    AuditorAccessGrantedEvent.OutputTuple,
+    AuditorAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuditorAccessRevoked"
+  ): TypedContractEvent<
+    AuditorAccessRevokedEvent.InputTuple,
+    AuditorAccessRevokedEvent.OutputTuple,
+    AuditorAccessRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchFinalized"
+  ): TypedContractEvent<
+    BatchFinalizedEvent.InputTuple,
+    BatchFinalizedEvent.OutputTuple,
+    BatchFinalizedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchScheduled"
+  ): TypedContractEvent<
+    BatchScheduledEvent.InputTuple,
+    BatchScheduledEvent.OutputTuple,
+    BatchScheduledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ComplianceCheckRequested"
+  ): TypedContractEvent<
+    ComplianceCheckRequestedEvent.InputTuple,
+    ComplianceCheckRequestedEvent.OutputTuple,
+    ComplianceCheckRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ComplianceRulesSet"
+  ): TypedContractEvent<
+    ComplianceRulesSetEvent.InputTuple,
+    ComplianceRulesSetEvent.OutputTuple,
+    ComplianceRulesSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ComplianceVerified"
+  ): TypedContractEvent<
+    ComplianceVerifiedEvent.InputTuple,
+    ComplianceVerifiedEvent.OutputTuple,
+    ComplianceVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsSet"
+  ): TypedContractEvent<
+    CooldownSecondsSetEvent.InputTuple,
+    CooldownSecondsSetEvent.OutputTuple,
+    CooldownSecondsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FundClosed"
+  ): TypedContractEvent<
+    FundClosedEvent.InputTuple,
+    FundClosedEvent.OutputTuple,
+    FundClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FundCreated"
+  ): TypedContractEvent<
+    FundCreatedEvent.InputTuple,
+    FundCreatedEvent.OutputTuple,
+    FundCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FundStateSubmitted"
+  ): TypedContractEvent<
+    FundStateSubmittedEvent.InputTuple,
+    FundStateSubmittedEvent.OutputTuple,
+    FundStateSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ManagementFeeAccrued"
+  ): TypedContractEvent<
+    ManagementFeeAccruedEvent.InputTuple,
+    ManagementFeeAccruedEvent.OutputTuple,
+    ManagementFeeAccruedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PauseToggled"
+  ): TypedContractEvent<
+    PauseToggledEvent.InputTuple,
+    PauseToggledEvent.OutputTuple,
+    PauseToggledEvent.OutputObject
+  >;
+  getEvent(
+    key: "PerformanceFeeCrystallized"
+  ): TypedContractEvent<
+    PerformanceFeeCrystallizedEvent.InputTuple,
+    PerformanceFeeCrystallizedEvent.OutputTuple,
+    PerformanceFeeCrystallizedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Redeemed"
+  ): TypedContractEvent<
+    RedeemedEvent.InputTuple,
+    RedeemedEvent.OutputTuple,
+    RedeemedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScenarioComputed"
+  ): TypedContractEvent<
+    ScenarioComputedEvent.InputTuple,
+    ScenarioComputedEvent.OutputTuple,
+    ScenarioComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SharePriceUpdated"
+  ): TypedContractEvent<
+    SharePriceUpdatedEvent.InputTuple,
+    SharePriceUpdatedEvent.OutputTuple,
+    SharePriceUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Subscribed"
+  ): TypedContractEvent<
+    SubscribedEvent.InputTuple,
+    SubscribedEvent.OutputTuple,
+    SubscribedEvent.OutputObject
+  >;
+
+  filters: {
+    "ActionCancelled(uint256,address)": TypedContractEvent<
+      ActionCancelledEvent.InputTuple,
+      ActionCancelledEvent.OutputTuple,
+      ActionCancelledEvent.OutputObject
+    >;
+    ActionCancelled: TypedContractEvent<
+      ActionCancelledEvent.InputTuple,
+      ActionCancelledEvent.OutputTuple,
+      ActionCancelledEvent.OutputObject
+    >;
+
+    "ActionExecuted(uint256,address)": TypedContractEvent<
+      ActionExecutedEvent.InputTuple,
+      ActionExecutedEvent.OutputTuple,
+      ActionExecutedEvent.OutputObject
+    >;
+    ActionExecuted: TypedContractEvent<
+      ActionExecutedEvent.InputTuple,
+      ActionExecutedEvent.OutputTuple,
+      ActionExecutedEvent.OutputObject
+    >;
+
+    "ActionQueued(uint256,uint8,uint256,address,uint256,uint64,address)": TypedContractEvent<
+      ActionQueuedEvent.InputTuple,
+      ActionQueuedEvent.OutputTuple,
+      ActionQueuedEvent.OutputObject
+    >;
+    ActionQueued: TypedContractEvent<
+      ActionQueuedEvent.InputTuple,
+      ActionQueuedEvent.OutputTuple,
+      ActionQueuedEvent.OutputObject
+    >;
+
+    "AuditorAccessGranted(uint256,uint256,address,uint8,bytes32[])": TypedContractEvent<
+      AuditorAccessGrantedEvent.InputTuple,
+      AuditorAccessGrantedEvent.OutputTuple,
+      AuditorAccessGrantedEvent.OutputObject
+    >;
+    AuditorAccessGranted: TypedContractEvent<
+      AuditorAccessGrantedEvent.InputTuple,
+      AuditorAccessGrantedEvent.OutputTuple,
+      AuditorAccessGrantedEvent.OutputObject
+    >;
+
+    "AuditorAccessRevoked(uint256,uint256,address)": TypedContractEvent<
+      AuditorAccessRevokedEvent.InputTuple,
+      AuditorAccessRevokedEvent.OutputTuple,
+      AuditorAccessRevokedEvent.OutputObject
+    >;
+    AuditorAccessRevoked: TypedContractEvent<
+      AuditorAccessRevokedEvent.InputTuple,
+      AuditorAccessRevokedEvent.OutputTuple,
+      AuditorAccessRevokedEvent.OutputObject
+    >;
+
+    "BatchClosed(uint256,uint256,bytes32)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchFinalized(uint256,uint256)": TypedContractEvent<
+      BatchFinalizedEvent.InputTuple,
+      BatchFinalizedEvent.OutputTuple,
+      BatchFinalizedEvent.OutputObject
+    >;
+    BatchFinalized: TypedContractEvent<
+      BatchFinalizedEvent.InputTuple,
+      BatchFinalizedEvent.OutputTuple,
+      BatchFinalizedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256,uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "BatchScheduled(uint256,uint256,uint64,uint64,address[])": TypedContractEvent<
+      BatchScheduledEvent.InputTuple,
+      BatchScheduledEvent.OutputTuple,
+      BatchScheduledEvent.OutputObject
+    >;
+    BatchScheduled: TypedContractEvent<
+      BatchScheduledEvent.InputTuple,
+      BatchScheduledEvent.OutputTuple,
+      BatchScheduledEvent.OutputObject
+    >;
+
+    "ComplianceCheckRequested(uint256,uint256,uint256,bytes32)": TypedContractEvent<
+      ComplianceCheckRequestedEvent.InputTuple,
+      ComplianceCheckRequestedEvent.OutputTuple,
+      ComplianceCheckRequestedEvent.OutputObject
+    >;
+    ComplianceCheckRequested: TypedContractEvent<
+      ComplianceCheckRequestedEvent.InputTuple,
+      ComplianceCheckRequestedEvent.OutputTuple,
+      ComplianceCheckRequestedEvent.OutputObject
+    >;
+
+    "ComplianceRulesSet(uint256)": TypedContractEvent<
+      ComplianceRulesSetEvent.InputTuple,
+      ComplianceRulesSetEvent.OutputTuple,
+      ComplianceRulesSetEvent.OutputObject
+    >;
+    ComplianceRulesSet: TypedContractEvent<
+      ComplianceRulesSetEvent.InputTuple,
+      ComplianceRulesSetEvent.OutputTuple,
+      ComplianceRulesSetEvent.OutputObject
+    >;
+
+    "ComplianceVerified(uint256,uint256,uint256,bool,uint8)": TypedContractEvent<
+      ComplianceVerifiedEvent.InputTuple,
+      ComplianceVerifiedEvent.OutputTuple,
+      ComplianceVerifiedEvent.OutputObject
+    >;
+    ComplianceVerified: TypedContractEvent<
+      ComplianceVerifiedEvent.InputTuple,
+      ComplianceVerifiedEvent.OutputTuple,
+      ComplianceVerifiedEvent.OutputObject
+    >;
+
+    "CooldownSecondsSet(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+    CooldownSecondsSet: TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256,uint256,uint256,uint256,uint256,uint256,bool)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256,uint256,bytes32)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "FundClosed(uint256)": TypedContractEvent<
+      FundClosedEvent.InputTuple,
+      FundClosedEvent.OutputTuple,
+      FundClosedEvent.OutputObject
+    >;
+    FundClosed: TypedContractEvent<
+      FundClosedEvent.InputTuple,
+      FundClosedEvent.OutputTuple,
+      FundClosedEvent.OutputObject
+    >;
+
+    "FundCreated(uint256,address,string)": TypedContractEvent<
+      FundCreatedEvent.InputTuple,
+      FundCreatedEvent.OutputTuple,
+      FundCreatedEvent.OutputObject
+    >;
+    FundCreated: TypedContractEvent<
+      FundCreatedEvent.InputTuple,
+      FundCreatedEvent.OutputTuple,
+      FundCreatedEvent.OutputObject
+    >;
+
+    "FundStateSubmitted(uint256,uint256,address,bytes32,bytes32,bytes32)": TypedContractEvent<
+      FundStateSubmittedEvent.InputTuple,
+      FundStateSubmittedEvent.OutputTuple,
+      FundStateSubmittedEvent.OutputObject
+    >;
+    FundStateSubmitted: TypedContractEvent<
+      FundStateSubmittedEvent.InputTuple,
+      FundStateSubmittedEvent.OutputTuple,
+      FundStateSubmittedEvent.OutputObject
+    >;
+
+    "ManagementFeeAccrued(uint256,uint256,uint64,uint64,bytes32,bytes32)": TypedContractEvent<
+      ManagementFeeAccruedEvent.InputTuple,
+      ManagementFeeAccruedEvent.OutputTuple,
+      ManagementFeeAccruedEvent.OutputObject
+    >;
+    ManagementFeeAccrued: TypedContractEvent<
+      ManagementFeeAccruedEvent.InputTuple,
+      ManagementFeeAccruedEvent.OutputTuple,
+      ManagementFeeAccruedEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PauseToggled(bool)": TypedContractEvent<
+      PauseToggledEvent.InputTuple,
+      PauseToggledEvent.OutputTuple,
+      PauseToggledEvent.OutputObject
+    >;
+    PauseToggled: TypedContractEvent<
+      PauseToggledEvent.InputTuple,
+      PauseToggledEvent.OutputTuple,
+      PauseToggledEvent.OutputObject
+    >;
+
+    "PerformanceFeeCrystallized(uint256,uint256,bytes32,bytes32,bytes32,bytes32)": TypedContractEvent<
+      PerformanceFeeCrystallizedEvent.InputTuple,
+      PerformanceFeeCrystallizedEvent.OutputTuple,
+      PerformanceFeeCrystallizedEvent.OutputObject
+    >;
+    PerformanceFeeCrystallized: TypedContractEvent<
+      PerformanceFeeCrystallizedEvent.InputTuple,
+      PerformanceFeeCrystallizedEvent.OutputTuple,
+      PerformanceFeeCrystallizedEvent.OutputObject
+    >;
+
+    "ProviderAdded(uint256,address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(uint256,address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "Redeemed(uint256,address,bytes32,bytes32)": TypedContractEvent<
+      RedeemedEvent.InputTuple,
+      RedeemedEvent.OutputTuple,
+      RedeemedEvent.OutputObject
+    >;
+    Redeemed: TypedContractEvent<
+      RedeemedEvent.InputTuple,
+      RedeemedEvent.OutputTuple,
+      RedeemedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "ScenarioComputed(uint256,uint256,address,uint8,bytes32)": TypedContractEvent<
+      ScenarioComputedEvent.InputTuple,
+      ScenarioComputedEvent.OutputTuple,
+      ScenarioComputedEvent.OutputObject
+    >;
+    ScenarioComputed: TypedContractEvent<
+      ScenarioComputedEvent.InputTuple,
+      ScenarioComputedEvent.OutputTuple,
+      ScenarioComputedEvent.OutputObject
+    >;
+
+    "SharePriceUpdated(uint256,uint256,bytes32,bytes32)": TypedContractEvent<
+      SharePriceUpdatedEvent.InputTuple,
+      SharePriceUpdatedEvent.OutputTuple,
+      SharePriceUpdatedEvent.OutputObject
+    >;
+    SharePriceUpdated: TypedContractEvent<
+      SharePriceUpdatedEvent.InputTuple,
+      SharePriceUpdatedEvent.OutputTuple,
+      SharePriceUpdatedEvent.OutputObject
+    >;
+
+    "Subscribed(uint256,address,bytes32,bytes32)": TypedContractEvent<
+      SubscribedEvent.InputTuple,
+      SubscribedEvent.OutputTuple,
+      SubscribedEvent.OutputObject
+    >;
+    Subscribed: TypedContractEvent<
+      SubscribedEvent.InputTuple,
+      SubscribedEvent.OutputTuple,
+      SubscribedEvent.OutputObject
+    >;
+  };
+}
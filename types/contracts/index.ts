@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as assetMgmtFheSol from "./Asset_Mgmt_Fhe.sol";
+export type { assetMgmtFheSol };
 export type { UniversalAdapter } from "./UniversalAdapter";
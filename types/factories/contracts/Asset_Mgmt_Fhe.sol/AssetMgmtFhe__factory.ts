@@ -0,0 +1,2766 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  AssetMgmtFhe,
+  AssetMgmtFheInterface,
+} from "../../../contracts/Asset_Mgmt_Fhe.sol/AssetMgmtFhe";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchNotClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DecryptionFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum AssetMgmtFhe.BatchState",
+        name: "state",
+        type: "uint8",
+      },
+    ],
+    name: "InvalidBatchState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidInput",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint64",
+        name: "opensAt",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "submissionDeadline",
+        type: "uint64",
+      },
+    ],
+    name: "OutsideBatchWindow",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint64",
+        name: "eta",
+        type: "uint64",
+      },
+    ],
+    name: "TimelockNotReady",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "actionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "canceller",
+        type: "address",
+      },
+    ],
+    name: "ActionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "actionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "executor",
+        type: "address",
+      },
+    ],
+    name: "ActionExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "actionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "enum AssetMgmtFhe.ActionKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "cooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "eta",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+    ],
+    name: "ActionQueued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "fields",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "handles",
+        type: "bytes32[]",
+      },
+    ],
+    name: "AuditorAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+    ],
+    name: "AuditorAccessRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedValueSnapshot",
+        type: "bytes32",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchFinalized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "opensAt",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "submissionDeadline",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "address[]",
+        name: "providers",
+        type: "address[]",
+      },
+    ],
+    name: "BatchScheduled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+    ],
+    name: "ComplianceCheckRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+    ],
+    name: "ComplianceRulesSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "compliant",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "failedRules",
+        type: "uint8",
+      },
+    ],
+    name: "ComplianceVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "oldCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalAssets",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "managerFee",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "performanceFee",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "highWaterMark",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "valueAtBatchClose",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "overflowed",
+        type: "bool",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+    ],
+    name: "FundClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "FundCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "totalAssets",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "managerFee",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "performanceFee",
+        type: "bytes32",
+      },
+    ],
+    name: "FundStateSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "fromTimestamp",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "toTimestamp",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "fee",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "accrued",
+        type: "bytes32",
+      },
+    ],
+    name: "ManagementFeeAccrued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "pendingOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "oldOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bool",
+        name: "paused",
+        type: "bool",
+      },
+    ],
+    name: "PauseToggled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "totalAssets",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "highWaterMark",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "fee",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "accrued",
+        type: "bytes32",
+      },
+    ],
+    name: "PerformanceFeeCrystallized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "investor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "shares",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "payout",
+        type: "bytes32",
+      },
+    ],
+    name: "Redeemed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "caller",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum AssetMgmtFhe.ScenarioKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "result",
+        type: "bytes32",
+      },
+    ],
+    name: "ScenarioComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "navPerShare",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "sharesPerAsset",
+        type: "bytes32",
+      },
+    ],
+    name: "SharePriceUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "investor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "shares",
+        type: "bytes32",
+      },
+    ],
+    name: "Subscribed",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "AUDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "COMPLIANCE_OFFICER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DATA_PROVIDER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "FUND_MANAGER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SHARE_PRICE_SCALE",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TIMELOCK_DELAY",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+    ],
+    name: "accrueManagementFee",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "accruedManagementFees",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "accruedPerformanceFees",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "actionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+    ],
+    name: "allowSharePrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "auditorGrants",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchOverflowed",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "batchProviders",
+    outputs: [
+      {
+        internalType: "enum AssetMgmtFhe.BatchProviderStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+    ],
+    name: "batchStateHash",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batches",
+    outputs: [
+      {
+        internalType: "enum AssetMgmtFhe.BatchState",
+        name: "state",
+        type: "uint8",
+      },
+      {
+        internalType: "uint64",
+        name: "opensAt",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "submissionDeadline",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "closedAt",
+        type: "uint64",
+      },
+      {
+        internalType: "uint32",
+        name: "providerCount",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "submissionCount",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "actionId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelAction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+    ],
+    name: "closeFund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "complianceCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "complianceContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "complianceResults",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "compliant",
+        type: "bool",
+      },
+      {
+        internalType: "uint8",
+        name: "failedRules",
+        type: "uint8",
+      },
+      {
+        internalType: "uint64",
+        name: "verifiedAt",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "complianceRules",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "minTotalAssets",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "maxManagerFeeRate",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "maxPerformanceFeeRate",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "maxDrawdown",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+    ],
+    name: "complianceStateHash",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "createFund",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "actionId",
+        type: "uint256",
+      },
+    ],
+    name: "executeAction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+    ],
+    name: "finalizeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "fundCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "fundInfo",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "currentBatchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "batchOpen",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "closed",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "createdAt",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "batchCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "fundValuesAtBatchClose",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "funds",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "totalAssets",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "managerFeeRate",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "performanceFeeRate",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "highWaterMark",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "fields",
+        type: "uint8",
+      },
+    ],
+    name: "grantAuditorAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "highWaterMarkSet",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isInvestor",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "lastFeeAccrualAt",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+    ],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_cooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "queueCooldownChange",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "queueProviderRemoval",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "queuedActions",
+    outputs: [
+      {
+        internalType: "enum AssetMgmtFhe.ActionKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "enum AssetMgmtFhe.ActionStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint64",
+        name: "eta",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "cooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "redeem",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+    ],
+    name: "reissueAuditorAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestComplianceCheck",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestFundDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+    ],
+    name: "revokeAuditorAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "isOutflow",
+        type: "bool",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "scenarioFlow",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "scenarioResults",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "factorBps",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "scenarioScale",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "shockBps",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "isLoss",
+        type: "bool",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "scenarioShock",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "opensAt",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "submissionDeadline",
+        type: "uint64",
+      },
+      {
+        internalType: "address[]",
+        name: "providers",
+        type: "address[]",
+      },
+    ],
+    name: "scheduleBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "minTotalAssets",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "maxManagerFeeRate",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "maxPerformanceFeeRate",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "maxDrawdown",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setComplianceRules",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_paused",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "shareBalances",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "sharePrices",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "navPerShare",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "sharesPerAsset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "updatedAt",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedTotalAssets",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedManagerFeeRate",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedPerformanceFeeRate",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitFundState",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "subscribe",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "totalShares",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fundId",
+        type: "uint256",
+      },
+    ],
+    name: "updateSharePrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234620001aa575f60606200001762000542565b82815282602082015282604082015201526200003262000542565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55603c6001556200016333620001ae565b6200016e336200024a565b6200017933620002e2565b62000184336200037a565b6200018f3362000412565b6200019a33620004aa565b604051615f2a9081620005778239f35b5f80fd5b6001600160a01b03165f8181527fe5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc560205260409020547fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775919060ff166200024657815f52600260205260405f20815f5260205260405f20600160ff1982541617905533915f80516020620064a18339815191525f80a4565b5050565b6001600160a01b03165f8181527fbfc47ec69e6179110b54446c0db188260f7ccd9a51c402cf8c58527559b654e860205260409020547f0b84ee281e5cf521a9ad54a86fafe78946b157177e231bd8ae785af4d3b3620f919060ff166200024657815f52600260205260405f20815f5260205260405f20600160ff1982541617905533915f80516020620064a18339815191525f80a4565b6001600160a01b03165f8181527fdb8e92d7e6e424a9d78697f5d28bfa769802c0b2fe50bef156e82afeb93ce92160205260409020547fb6f6b279a7a4e2aa16012cbd36fcdc1fbdb91b92fd6dab57885c9de496473a8d919060ff166200024657815f52600260205260405f20815f5260205260405f20600160ff1982541617905533915f80516020620064a18339815191525f80a4565b6001600160a01b03165f8181527f7b3c6f85a4c08021c6916ac78187978c3e520c79668bdc8638408a7bcf5c5ea060205260409020547fb6f0283bd1ed00c6aa7e988a7516070240f3610a34d167391359b648eb37cefc919060ff166200024657815f52600260205260405f20815f5260205260405f20600160ff1982541617905533915f80516020620064a18339815191525f80a4565b6001600160a01b03165f8181527f214c18a85e8bcacd1ae69c36b92ae09880ca973fab1b84dd618b9be27f7e128260205260409020547f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f5919060ff166200024657815f52600260205260405f20815f5260205260405f20600160ff1982541617905533915f80516020620064a18339815191525f80a4565b6001600160a01b03165f8181527faa2c41c8db999cab41dbf71397ccd99cf3349690c12e02929b93abbcc53e5b9360205260409020547f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a919060ff166200024657815f52600260205260405f20815f5260205260405f20600160ff1982541617905533915f80516020620064a18339815191525f80a4565b60405190608082016001600160401b038111838210176200056257604052565b634e487b7160e01b5f52604160045260245ffdfe6080604090808252600480361015610015575f80fd5b5f3560e01c918262ceb34414613c485750816302c42cbb14613bb457816303b5312e146139a057816307cd18bb1461395a578163124bd04b1461382557816313f2dad0146137fe57816316c38b3c14613757578163198596b51461373057816324b4cee01461355f57816328ae8ea3146133ef57816329da5738146133d35781632a7da2e9146133945781632f2ff15d146132a75781632f83a6bc14613280578163329bbe8314613167578163342b10ca14613128578163375fefff146130dd5781633aeae31d146130b65781633da87aa414612f585781633efb9b2414612bff5781633f936ff514612be157816340b44a13146129625781634797f9b6146129225781634a0683df146128c55781634c7a1b2f1461273d5781635059f351146126f957816350ff82ee146126ca5781635284aece146126855781635a94a0791461264e5781635b132e50146126275781635ba1c1a91461260a5781635c975abb146125e55781635d47964b14612569578163609a4970146124e9578163609dd0f21461246a5781636e1d616e14612443578163724aaa7f146124175781637571499e146123cb57816375b238fc146123a457816377a8eda61461238957816379ba5097146122ff5781638bb9c5bf146122b35781638da5cb5b1461228c57816391d14854146122485781639a2f684d14611e225781639b3739f514611d5c5781639d27d96014611d35578163a436547614611cfe578163aa1259c514611bc1578163aaf2684514611a8c578163af13c4a614611926578163b65e8941146118e3578163b8221bc4146118c5578163ba58f9dc14611899578163c02e5f3314611852578163c0c1cf5514611721578163c18994c614611591578163cbe0571b146114dd578163d2c411d314611228578163d547741f146111ba578163d5ecdb6d1461115d578163d8c0863914611112578163d96ec30414610e2a578163d9af0e9814610b68578163da1f12ab14610b4c578163ddc563ca14610874578163df44212214610830578163e30c397814610808578163e33491a714610741578163e63ab1e91461071a578163ef4b676f146106f0578163efe7dfdb14610540578163f2fde38b1461049f578163f4f4fe1d146103f1578163f79ed55d14610382575063fb32c4ac14610363575f80fd5b3461037e575f36600319011261037e57602090516127108152f35b5f80fd5b823461037e5761039136613cb3565b9161039b81614176565b6103a361429f565b5f818152601a602090815285822084835281528582206001600160a01b038616835290528490205460ff169384156103e257506103e0945061555d565b005b5163b4fa3fb360e01b81528590fd5b823461037e57602036600319011261037e5781355f526005602052805f209081549160ff83169260ff8160081c1692600183015491600360018060a01b0360028601541694015494825196600281101561048c5787528781101561047957602087015260101c6001600160401b0316908501526060840152608083015260a082015260c09150f35b602188634e487b7160e01b5f525260245ffd5b602189634e487b7160e01b5f525260245ffd5b90503461037e57602036600319011261037e576104ba613c9d565b5f546001600160a01b0390811692913384900361053057169283158015610527575b61051a575050600380546001600160a01b031916831790557f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227005f80a3005b5163b4fa3fb360e01b8152fd5b508284146104dc565b84516330cd747160e01b81528390fd5b90503461037e5761055036613e4f565b929093825f52602094601d8652815f2090600382019360ff8554166106e257825496610582600185019889549061408e565b6002850154036106d35761059790838861448d565b60808280518101031261037e577f0746e1cc9753cabb9142d17a07797bea6d6bb913ee03f57e7437c558bd1a5e3d94826105d48a60ff9501613fc0565b926105e0878301613fc0565b916105f960806105f260608401613fc0565b9201613fc0565b925f95156106ca575b156106c0575b156106b6575b50156106ac575b8054831916600117905583519116801592909161069d906001600160401b0361063d82613d51565b8882528a8a6106816001838601958a87528b8101938a8552606082019587421687528a545f52601c81528d5f2091545f52528b5f2090518155019451151585613fcd565b5161ff0084549160081b169061ff001916178355511690614067565b549554968351928352820152a4005b9060081790610615565b909217915f61060e565b9360021793610608565b60019550610602565b5083516313b304fb60e21b8152fd5b835163faf8ed4f60e01b8152fd5b823461037e5760209061071361070e61070836613c71565b906156fa565b6157b8565b9051908152f35b823461037e575f36600319011261037e57602090515f80516020615dfe8339815191528152f35b823461037e57602036600319011261037e5781359061075f82614176565b61076761429f565b815f52600a6020526002815f20015492600f602052815f20845f52602052815f209182549060ff82169060058210156107f557600382036107d157505060ff19161790557fdaf33b9129a7a0fda038b5357d925eac65b91567a5f1a3e563a27a13e542d6b75f80a3005b516355a8cf5160e01b81528084018790526044916107f3906024830190613f61565bfd5b602184634e487b7160e01b5f525260245ffd5b823461037e575f36600319011261037e5760035490516001600160a01b039091168152602090f35b823461037e578060031936011261037e5760209161084c613c87565b90355f5260188352815f209060018060a01b03165f52825260ff815f20541690519015158152f35b823461037e576020908160031936011261037e57823561089381614176565b61089b61429f565b805f52600a8352815f209060ff600383015460081c16610b3c575f81815260128552839020546001600160401b03428116939181169190828503818111610b2957168015610b1957835f52600c8752855f2091600281019283545f52885261093461092f885f2061091960016109118354614b46565b920154614b46565b8015610b06575b610929906158ce565b906147dd565b614861565b9161093e836148da565b818115610af2575b61094f91615adf565b998315610ae2575b5f80516020615d5e8339815191525489516367a68c5560e11b8152918201949094526301e133806024820152600160f81b60448201526001600160a01b03938a90829060649082905f9089165af1908115610ad857918a9b918a9b935f91610a8e575b508a94601260809895610a198c610a14610a03610a64995f80516020615d3e8339815191529f9d996109f86109fd918b60019c9015610a8057615adf565b6148da565b9061584a565b9a8b925f52601185525f2054614b46565b614b58565b509e8f908d5f52601183525f2055528b5f208b838060401b0319825416179055610a448d3090615b3e565b01610a52828254168d615b3e565b610a5c3086615b3e565b541683615b3e565b549587519283528983015286820152866060820152a351908152f35b50610a8961598e565b615adf565b97959a505092949186813d8311610ad1575b610aaa8183613dc9565b8101031261037e579451899893959194928b92915f80516020615d3e8339815191526109ba565b503d610aa0565b89513d5f823e3d90fd5b9250610aec61598e565b92610957565b61094f9150610aff61598e565b9150610946565b50610929610b1261598e565b9050610920565b855163b4fa3fb360e01b81528890fd5b601189634e487b7160e01b5f525260245ffd5b825163b4fa3fb360e01b81528590fd5b823461037e575f36600319011261037e57602090516127118152f35b823461037e5760a036600319011261037e576001600160401b03823560843582811161037e57610b9b9036908601613cdd565b929091610ba7816156c1565b610baf61429f565b335f5260209360078552610bc5865f2054614e63565b815f52600a8552855f2090600282015493600f8752875f20855f528752875f2090815460ff81166005811015610e1757600203610e0757818160481c1680421015610de357505050835f5260108752875f20855f528752875f20335f52875260ff885f20541698610c358a613f82565b8915610dd55750600189610c4b60079a9b613f82565b14610d88575b50610d3f610c98610c90610c71610c6936868b613dec565b6024356142bf565b97610c88610c80368784613dec565b6044356142bf565b943691613dec565b6064356142bf565b92845f52600c8852895f20865f528852600e610d388b5f20928c8b610cc18c610a148854614b46565b5f8c81528784528481208e82528452849020549193918015610d7f5790610ce7916157e9565b9586925b8c5f52528d815f20908d5f52525f2055845585600185015586600285015560038401610d178154614b46565b9055610d24308486615812565b600101546001600160a01b03168284615812565b3391615812565b875194855285850152868401527fd0a5f646adfb78d4089778c2af35a94be32bb0e0076ae04030b09011a102e2de60603394a4335f525242905f20555f80f35b50958692610ceb565b5f8481526010885289812086825288528981203382528852899020805460ff19166002179055600101805463ffffffff610dc3818316614052565b169063ffffffff191617905588610c51565b8851631a40715960e11b8152fd5b610e03908c8c519485946339276c0f60e01b865260081c16908401614000565b0390fd5b895163f84b8daf60e01b81528b90fd5b60218c634e487b7160e01b5f525260245ffd5b823461037e57610e3936613c71565b610e42826156c1565b610e4a61429f565b335f5260209160088352610e60845f2054614e63565b610e6a8282614e89565b805f52600c8352835f20825f528352835f20541561110257610e8c82826156fa565b94610e96866157b8565b955f915f80516020615ede8339815191529182549360018060a01b03805f80516020615e9e8339815191525416803b1561037e575f8b518092637d6e912360e11b82528c88830152818381610eee602482018b61552a565b03925af180156110f8576110e5575b505f80516020615e5e8339815191525416803b156110e157818a518092633263b83b60e01b8252888783015260606024830152818381610f40606482018a61552a565b63124bd04b60e01b604483015203925af180156110d7579082916110c0575b508590525f80516020615cde833981519152808952898220546110b05785825288528881208251939092906001600160401b03851161109d57600160401b851161109d575088908354858555808610611075575b5001918152878120905b8381106110635750505050846007969782610ff97f65d71cc05b8b79b7184d61e5f9c10b525df1cd132a7d6fb3ff31080ed852797b9454613fde565b9055611047895161100981613d51565b86815260038b8583018a81528184019086825260608501925f84528a5f52600689525f20945185555160018501555160028401555115159101613fcd565b8851908152a4335f526008815242835f20555242905f20555f80f35b82518282015591880191600101610fbd565b8484528583852091820191015b81811061108f5750610fb3565b5f81558b9350600101611082565b634e487b7160e01b835260419052602482fd5b8951633f06d22b60e01b81528490fd5b6110c990613d80565b6110d457808b610f5f565b80fd5b8a513d84823e3d90fd5b5080fd5b6110f0919250613d80565b5f908b610efd565b8b513d5f823e3d90fd5b5050505163b4fa3fb360e01b8152fd5b823461037e57602036600319011261037e57813590815f526018602052805f20335f5260205260ff815f2054161561114e576103e03383614a44565b5163b4fa3fb360e01b81529050fd5b90503461037e57602036600319011261037e573590815f5260056020525f20611185816154c7565b805461ff00191661030017905533907f427c44a594677f66ed055fca2706c0d4447d9f8b97b42b22a3ed9010c24817375f80a3005b823461037e578060031936011261037e5781356111d5613c87565b916111df33614672565b5f80516020615efe833981519152821480611212575b611203576103e08383614e06565b5163b4fa3fb360e01b81528390fd5b505f546001600160a01b038481169116146111f5565b823461037e5760208060031936011261037e5782359161124783614176565b61124f61429f565b825f52600a8252805f20600281015494600f8452825f20865f528452825f209081549060ff821660058110156114ca576002036114bc576001600160401b0390604883901c821690428211806114a3575b6114825750505060ff600160881b03600160c81b0319164260881b600160881b600160c81b031617600390811790915501805460ff199081169091555f848152600c8452828120868252845282812054858252600d85528382208783528552908390208190557f5f0320e50cece9e89c9f468ca74d349d8a3dfcd70279403be8ed6165094b3c3d93929091869086908461133f575b50505051908152a3005b5f828152600c8752848120848252875284902080547fae707e5c75a6a188a1a8ad56f498f542059f3821727dd3cc466c78f2420fb45b9261137e61598e565b90855f5260148a52875f209060ff8254165f146114695750505061145e60038301928354936113d36113cc61092f6113bf6113b98989614955565b886143bb565b6109196002870154614b46565b9585614ede565b90555b855f5260138a526113ed84610a148a5f2054614b46565b5090865f5260138b5281895f2055600a8b52611451600360018060a01b0360018c5f2001541692019161142283543090615b3e565b61142d818454615b3e565b6114373085615b3e565b6114418185615b3e565b61144b3088615b3e565b86615b3e565b5493885194859485613f45565b0390a3858588611335565b6003850184905581541660011790559161145e906113d6565b610e0392945086519485946339276c0f60e01b865260081c16908401614000565b5063ffffffff80600187015416908560c81c16116112a0565b845163f84b8daf60e01b8152fd5b602182634e487b7160e01b5f525260245ffd5b823461037e57608036600319011261037e5760443560243583356001600160a01b03831680840361037e576064359460ff86169182870361037e5761152184614176565b61152961429f565b80158015611589575b801561157d575b61156d576103e09750835f52601a602052815f20855f52602052815f20905f526020525f209060ff1982541617905561555d565b815163b4fa3fb360e01b81528890fd5b5060c087161515611539565b508215611532565b823461037e578060031936011261037e578135906115ad613c87565b916115b781614176565b805f52602093600b8552825f209060018060a01b0380951691825f52865260ff845f20541615611713576115eb8154613fde565b808255946001600160401b03904282166202a30001828111611700578791899188519461161786613d93565b600186528386019160018352818b880191169788825260608801938b8552600560808a01978c895260a08b01995f8b525f52528c5f20985160028110156116ed5760ff80198b541691161789555190808210156116da5750948c989488946116a260039560809a9561169a60019f9b5f80516020615d7e8339815191529e614157565b511687614067565b518b860155600285019151168a8060a01b03198254161790555191015587519182525f8a83015287820152336060820152a451908152f35b602190634e487b7160e01b5f525260245ffd5b602183634e487b7160e01b5f525260245ffd5b601184634e487b7160e01b5f525260245ffd5b835163b4fa3fb360e01b8152fd5b90503461037e57602036600319011261037e57803591825f526005602052805f209161174c836154c7565b8254601081901c6001600160401b031642811161183c575061ff0019811661020017845560ff169060028210156116da57506117dd5750600360015491015490816001557f2631e03375b3a2b2f48c9fecd1497fcb155d672fb020c3ab415c14bbabb18a735f80a35b33907f78a7d64f64ef6891bedfc1b6854447113cca07ace8747b8a6cf32a0fd5a80b175f80a3005b906001810180545f52600b6020526002835f2092019260018060a01b0392838554165f526020525f2060ff19815416905554915416907f2b909c34c35ce169a4955e38f60d428dcbe0a4730db0a0d636274d656d3a9b3d5f80a36117b5565b905060249251916372942d9760e01b8352820152fd5b90503461037e57602036600319011261037e57355f52601d602052805f209061189582549160018401549360ff6003600283015492015416915194859485613f8c565b0390f35b823461037e576020906118ab36613c71565b905f52600d8352815f20905f528252805f20549051908152f35b823461037e575f36600319011261037e576020906001549051908152f35b90503461037e57602036600319011261037e57355f526006602052805f209061189582549160018401549360ff6003600283015492015416915194859485613f8c565b823461037e576020918260031936011261037e577ff2a2456b73261fbc5993bb92901b3456859690673e2d3c5f523257bd4dce6f0890359161196783614176565b61196f61429f565b825f52600a8452805f20600c8552815f2094600282019586545f528152611998835f2054614b46565b95855f5260168252611a506119ea6119b2865f2054614b46565b98885f5260158552865f209981818315611a74575b6119d36119d892615a81565b61507c565b8b558015611a61575b6119d390615a81565b600189019081556002890180546001600160401b031916426001600160401b03161790558854909490611a1e903090615b3e565b611a29308654615b3e565b60018954910190611a4560018060a01b03918284541690615b3e565b855491541690615b3e565b5495549154908351928352820152a3005b506119d3611a6d61598e565b90506119e1565b6119d891506119d3611a8461598e565b9250506119c7565b90503461037e5760c036600319011261037e5780359160a4356001600160401b03811161037e57611ac09036908401613cdd565b919092611acc33614773565b84158015611bb6575b611ba85750611b829291611b7a611b7a92865f52601b6020525f2093611aff610c69368584613dec565b8555611b7a611b45611b3d611b18610c80368887613dec565b9360018901948555611b2e610c90368984613dec565b9660028a019788553691613dec565b6084356142bf565b9560038101968755611b5981543090615b3e565b611b64308454615b3e565b611b6f308654615b3e565b611b7a308854615b3e565b339054615b3e565b7f506b614dd1f528ef979321bebffccebc492a9bc2a1b0b90532420e89582d773a5f80a2005b905163b4fa3fb360e01b8152fd5b506009548511611ad5565b90503461037e57602036600319011261037e57803591611be033614672565b611bea8254613fde565b808355916001600160401b03904282166202a30001828111611ceb57835191611c1283613d93565b5f83526020830191600183528486850191169485825260608501915f835260808601935f855260a08701958b87528a5f526005602052895f20975160028110156116ed5760ff80198a541691161788555190808210156116da57509560038a965f80516020615d7e83398151915296608096611ca160209f975f9d97611c998f9e89614157565b511686614067565b516001850155516002840180546001600160a01b0319166001600160a01b03929092169190911790555191015587518681528a81019290925281880152336060820152a451908152f35b601182634e487b7160e01b5f525260245ffd5b823461037e57602036600319011261037e576020906001600160a01b03611d23613c9d565b165f5260078252805f20549051908152f35b823461037e57602036600319011261037e57602091355f5260138252805f20549051908152f35b823461037e57611d98602091611d92611d7436613d0a565b611d83869793969995996141dd565b611d8b61429f565b3691613dec565b906142bf565b611da2858461446e565b9115611e125790611db681611dbc93614955565b906143bb565b925b335f5260198552825f20825f528552825f20815f52855283835f2055611de43085615b3e565b611dee3385615b3e565b8251916002835284868401525f80516020615d1e833981519152843394a451908152f35b611e1b91614b58565b5092611dbe565b90503461037e57611e3236613c71565b611e3e93919333614773565b611e4661429f565b335f5260209360088552611e5c835f2054614e63565b611e668282614e89565b805f52600c8552825f20825f528552825f20815f52601b8652835f20948154958615801561223f575b61223057611f5090611f4a611eb4611eac600387019a8b54614ede565b8654906143bb565b98885199611ec18b613dae565b858b526080368d8d0137611ed88754855490614f62565b611ee18c614106565b52611f1360026001988d611f05611eff8c8401548d8b015490614fe6565b91614113565b520154600286015490614fe6565b611f1c8c614123565b52801561221a575b611f2f600391615a81565b9301548015612207575b611f42906158ce565b9054906147dd565b90614fe6565b611f5987614133565b52845190611f6682613dae565b808252878201966080368937835f5b8381106121d5575050505f915f80516020615ede8339815191529283549860018060a01b03805f80516020615e9e8339815191525416803b1561037e575f8d8c51928391637d6e912360e11b835289830152818381611fd7602482018c61552a565b03925af180156110f8576121c2575b505f80516020615e5e8339815191525416803b156121be57828a518092633263b83b60e01b82528d8883015260606024830152818381612029606482018b61552a565b63efe7dfdb60e01b604483015203925af180156121b4579083916121a0575b508a90525f80516020615cde833981519152808c5289832054612190578a83528b528882209251936001600160401b03851161109d57600160401b851161109d57508254848455808510612169575b509289949195928b949087528487205b828810612151575050507f5601941f6d5fa3e54d7624ab2d6f1f664f5940d1db105417f34ecb701251f3b29394506120df8154613fde565b90556121396120ee878761408e565b9160038951916120fd83613d51565b888352858301908a82528b84019086825260608501925f84528a5f52601d89528d5f209551865551908501555160028401555115159101613fcd565b8651908152a4335f526008835242815f205551908152f35b815188820155968401968b96508c95909101906120a7565b83835286858d852092830192015b828110612185575050612097565b5f8155018790612177565b8951633f06d22b60e01b81528590fd5b6121a990613d80565b6110e157815f612048565b8a513d85823e3d90fd5b8280fd5b6121cd919350613d80565b5f915f611fe6565b6121e9306121e38386614143565b51615b3e565b6121f38184614143565b516121fe8287614143565b52018490611f75565b50611f4261221361598e565b9050611f39565b506003611f2f61222861598e565b915050611f24565b50845163b4fa3fb360e01b8152fd5b50805415611e8f565b823461037e578060031936011261037e57602091612264613c87565b90355f5260028352815f209060018060a01b03165f52825260ff815f20541690519015158152f35b823461037e575f36600319011261037e575f5490516001600160a01b039091168152602090f35b823461037e57602036600319011261037e578135905f80516020615efe8339815191528214806122ec575b61114e576103e03383614e06565b505f546001600160a01b031633146122de565b823461037e575f36600319011261037e57600354916001600160a01b0391828416330361237c5750505f80546001600160a01b0319808216331790925592166003551661234b81614d98565b61235433614a73565b33907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b516330cd747160e01b8152fd5b823461037e5760209061071361239e36613c71565b9061408e565b823461037e575f36600319011261037e57602090515f80516020615efe8339815191528152f35b823461037e576020906123dd36613cb3565b5f928352601085528383209183529084528282206001600160a01b03909116825283528190205490519060ff1661241381613f82565b8152f35b823461037e57602036600319011261037e57602091355f526014825260ff815f20541690519015158152f35b823461037e575f36600319011261037e57602090515f80516020615e1e8339815191528152f35b823461037e578060031936011261037e57813590612486613c87565b61248f83614176565b6001600160a01b0381169384156124db57506124aa90614721565b815f52600b602052805f20835f526020525f20600160ff198254161790555f80516020615cfe8339815191525f80a3005b825163b4fa3fb360e01b8152fd5b90503461037e57602036600319011261037e5780359161250883614176565b825f52600a6020526003815f20019182549160ff8360081c16801561255f575b61051a57505061ff0019166101001790557f0c3b43c78641ea0bbd26c8b23ef07855c7ae7d26c3b5b9a25a0002d716198add5f80a2005b5060ff8316612528565b823461037e5760c09061257b36613c71565b905f52600f602052815f20905f52602052805f2060018154818060401b039263ffffffff928391015416928451946125b68660ff8516613f61565b818360081c166020870152818360481c16908601528160881c16606085015260c81c16608083015260a0820152f35b823461037e575f36600319011261037e5760209060ff5f5460a01c1690519015158152f35b823461037e575f36600319011261037e57602090516202a3008152f35b823461037e57602036600319011261037e57602091355f5260118252805f20549051908152f35b823461037e57602036600319011261037e576020906001600160a01b03612673613c9d565b165f5260088252805f20549051908152f35b823461037e5761269436613c71565b905f52600c602052815f20905f52602052805f209061189582549160018401549360036002820154910154915194859485613f45565b823461037e57602036600319011261037e57602091355f526012825260018060401b03815f2054169051908152f35b823461037e578060031936011261037e57602091612715613c87565b90355f52600b8352815f209060018060a01b03165f52825260ff815f20541690519015158152f35b90503461037e5761274d36613e95565b9091929361275961429f565b841580156128ba575b801561289f575b612891575061277e9291611d92913691613dec565b91815f52602092601584526127b061092f835f20838415612877575b60016127a86109299261592c565b9201546147c5565b92805f5260178552825f20335f5285526127f36127d385610a14865f2054614b46565b50825f52601687526127eb86610a14875f2054614b46565b5090836149d9565b805f5260188552825f20335f528552825f20600160ff1982541617905561281a3083615b3e565b6128243085615b3e565b61282e3383615b3e565b6128383385615b3e565b6128423382614a44565b825191825283858301527fa3d38f84b313cab2e68712322362dda5f20598e94327e3bb65e982622bc3865e833393a351908152f35b5061092960016127a861288861598e565b9250505061279a565b855163b4fa3fb360e01b8152fd5b50845f52600a60205260ff6003875f20015460081c16612769565b506009548511612762565b823461037e576080906128d736613c71565b905f52601c602052815f20905f52602052805f20906001825492015490805192835260ff82161515602084015260ff8260081c169083015260018060401b039060101c166060820152f35b90503461037e57602036600319011261037e57355f52601b602052805f209061189582549160018401549360036002820154910154915194859485613f45565b90503461037e576020918260031936011261037e576001600160401b0391803583811161037e576129969036908301613cdd565b916129a0336146cf565b6129a861429f565b8215611713576129b9600954613fde565b9485600955855f52600a8752845f2091818511612bce5750908592916129df8254613ec7565b601f8111612b7c575b50845f601f8211600114612afb5792600392612a46925f80516020615dde83398151915296955f91612af0575b505f1989861b1c1916600189901b1782555b6001820180546001600160a01b03191633179055421692839101614067565b5f8481526012895286902080546001600160401b03191690911790558451878152808801859052908490828701375f8185018601523393601f01601f19168101819003850190a35f80516020615e3e8339815191525f5260028352805f20335f52835260ff815f205416612abb575b51908152f35b815f52600b8352805f20335f528352805f20600160ff1982541617905533825f80516020615cfe8339815191525f80a3612ab5565b90508501355f612a15565b949392919050601f198616825f52868a5f20915f5b8c828210612b60575050915f80516020615dde8339815191529697612a4694926003969410612b49575b5050600188811b018255612a27565b8601355f198a871b60f8161c191690555f80612b3a565b898801358555988901988c98506001909401938a935001612b10565b9091809394505f52875f20601f860160051c810191898710612bc4575b90601f8996959493920160051c01905b818110612bb657506129e8565b5f8155889550600101612ba9565b9091508190612b99565b604190634e487b7160e01b5f525260245ffd5b823461037e575f36600319011261037e576020906009549051908152f35b90503461037e57608036600319011261037e57602435916001600160401b039180359083851680860361037e576044358581169283820361037e576064359287841161037e573660238501121561037e57838201359188831161037e576024850194602436918560051b01011161037e57612c7987614176565b612c8161429f565b865f52602099600a8b52885f2060ff9060ff600382015460081c168015612f50575b612f3657848911801590612f46575b612f365783019a8b549b612cc58d613fde565b90558b15159081612ef8575b50612ee8575f898152600f8d528a81208c82528d528a812080546001600160881b03191660089490941b610100600160481b03169390931760489790971b600160481b600160881b031696909617600190811783558b999897969094939291905b868110612dc757505050508290885195606087019187528b870152606089870152526080840192915f5b818110612d94575050505090807f78abe3892cd16c0a77f69c4c5b6da8e2e13db806e91656b973dbe81edfcd76c5920390a351908152f35b919390928095969750359060018060a01b03821680920361037e5790815288969594908a0193908a019290918201612d5c565b9091929394969798809a505f52600b8d52858d8c5f20908a612dfa612df58660018060a01b0396879461401a565b61403e565b165f5252828c5f20541615612ed85790888e89938f8f8f908c8791835f52601094858852815f20815f5288528887612e39612df58787875f209561401a565b165f5288528b825f205416612e4d81613f82565b15612e6c575b50505050505050505001908b9998979694939291612d32565b612e8895612df5955f528852815f20905f5287525f209661401a565b165f52528b5f208260ff19825416179055835460c863ffffffff60c81b90612eb763ffffffff84831c16614052565b901b169063ffffffff60c81b1916178455888e5f8f8f8f908c879184612e53565b8b51631a40715960e11b81528590fd5b895163b4fa3fb360e01b81528390fd5b9050895f52600f8d528a5f205f198d018d8111612f23575f528d528a5f205460481c1684105f612cd1565b601186634e487b7160e01b5f525260245ffd5b8a5163b4fa3fb360e01b81528490fd5b5042891115612cb2565b508515612ca3565b823461037e57608036600319011261037e576064359160243591908035906001600160401b03851161037e57612fa1610c80612f985f9736908501613cdd565b611d83866141dd565b80156130a8575b5f80516020615d5e8339815191525484516304559f7160e01b8152928301919091526203ffff6024830152600160f81b6044830152602095869183916064918391906001600160a01b03165af190811561309e575f9161306f575b5061092f61301a91613015868561446e565b6147dd565b92335f5260198552825f20825f528552825f20815f52855283835f20556130413085615b3e565b61304b3385615b3e565b8251916001835284868401525f80516020615d1e833981519152843394a451908152f35b90508481813d8311613097575b6130868183613dc9565b8101031261037e575161092f613003565b503d61307c565b83513d5f823e3d90fd5b506130b161598e565b612fa8565b823461037e575f36600319011261037e57602090515f80516020615e3e8339815191528152f35b823461037e57606036600319011261037e576020906001600160a01b03613102613c9d565b165f5260198252805f206024355f528252805f206044355f528252805f20549051908152f35b823461037e578060031936011261037e57602091613144613c87565b90355f5260178352815f209060018060a01b03165f528252805f20549051908152f35b823461037e5760208060031936011261037e5782355f52600a8152815f20918051925f94815461319681613ec7565b80875290600190818116908115613262575060011461322b575b50506131c1856131f1970386613dc9565b60018060a01b0360018301541692600283015491600384015493015493815197889760e0895260e0890190613f20565b9587015285015260ff81811615156060860152600882901c161515608085015260101c6001600160401b031660a084015260c08301520390f35b5f8481528681209098505b82891061324f575050509484018301946131c1856131b0565b8054888a01880152978601978101613236565b60ff1916878901525050151560051b8501840195506131c1856131b0565b823461037e575f36600319011261037e57602090515f80516020615d9e8339815191528152f35b823461037e578060031936011261037e5781356132c2613c87565b916132cc33614672565b6001600160a01b0383161580156132ec575b611203576103e08383614ae7565b505f80516020615efe8339815191528214801561337e575b8015613368575b8015613352575b801561333c575b8015613326575b156132de565b505f80516020615dfe8339815191528214613320565b505f80516020615e1e8339815191528214613319565b505f80516020615dbe8339815191528214613312565b505f80516020615e3e833981519152821461330b565b505f80516020615d9e8339815191528214613304565b823461037e576020906133a636613cb3565b915f52601a8452825f20905f528352815f209060018060a01b03165f52825260ff815f2054169051908152f35b823461037e575f36600319011261037e57602091549051908152f35b823461037e576133fe36613e95565b61340994939461429f565b845f5260209560188752845f20335f52875260ff855f20541615613551575091611d9261343b92613499943691613dec565b92805f52601585526134c06134a5845f2060178852855f20335f528852855f205496878115613527575b61349061092f9161348b61092f61347e61349f9661592c565b61092960018901546147c5565b614955565b968793546147c5565b836147dd565b966143bb565b825f52601687526134b984865f20546143bb565b90836149d9565b6134ca3083615b3e565b6134d43085615b3e565b6134de3383615b3e565b6134e83385615b3e565b6134f23382614a44565b825191825283858301527f0327eeefe8e26e87adad40e8dda328250ceae56f1e9b35a289373ea9e1d46d66833393a351908152f35b61349f915061349061092f9161348b61092f61347e61354461598e565b9650505050915050613465565b845163b4fa3fb360e01b8152fd5b823461037e576020918260031936011261037e5780359161357f83614176565b61358761429f565b825f52600a8452805f2091600383019260ff845460081c1661372157600201805495855f52600f8152835f20875f52815260ff845f20541660058110156107f5578314613711575b855f52600f8152835f20875f528152835f2092835460ff811660058110156116ed57600181036136ee57506001600160401b0390600881901c82164281116136ce57505050908792918361365e575b50506001935060ff1992600284825416179055558254161790557f217ff5db260372f7ab32608612dc3d218db8f3644666e2881c29c1e771e253bf5f80a3005b909193949250865f52600c8252825f20905f198901908982116136bb57509188939160019695935f5281526003825f200154918261369d575b5061361e565b600391895f52600c8152815f2090865f52525f200155878080613697565b601190634e487b7160e01b5f525260245ffd5b83610e039189519485946339276c0f60e01b865260481c16918401614000565b86516355a8cf5160e01b81528084018b90526044916107f3906024830190613f61565b9561371b90613fde565b956135cf565b50905163b4fa3fb360e01b8152fd5b823461037e575f36600319011261037e57602090515f80516020615dbe8339815191528152f35b90503461037e57602036600319011261037e5780359182151580930361037e575f80516020615dfe83398151915290815f526002602052805f20335f5260205260ff815f205416156137e3575f805460ff60a01b191660a086901b60ff60a01b1617815584907f9077d36bc00859b5c3f320310707208543dd35092cb0a0fe117d0c6a558b148b9080a2005b516301d4003760e61b81529182015233602482015260449150fd5b823461037e57602036600319011261037e57602091355f5260168252805f20549051908152f35b90503461037e5761383536613e4f565b90825f526006602052845f2090600382019260ff84541661394a5782549561386661070e60018601988954906156fa565b60028501540361393c575061387c90828661448d565b60c08180518101031261037e577f452e355bc25f468d354fba4812773a3fcc778e120f0d22be06b4e6546a2a1d049260c0926138ba60208401613fac565b926138c6898201613fac565b6138d260608301613fac565b926138df60808401613fac565b906138f7886138f060a08701613fac565b9501613fc0565b95600160ff198254161790555499549a80519660018060401b0395868095818094168b521660208a01521690870152166060850152166080830152151560a0820152a4005b87516313b304fb60e21b8152fd5b865163faf8ed4f60e01b81528690fd5b823461037e57602036600319011261037e57606091355f526015602052805f20805491600182015491600260018060401b03910154169181519384526020840152820152f35b823461037e57611d92906139c56139b636613d0a565b611d8386979599939a966141dd565b9415613a6257506139fb61092f6139f16020966139e06159e1565b908015613a4f575b611db6906158ce565b613015868561446e565b92335f5260198552825f20825f528552825f20815f52855283835f2055613a223085615b3e565b613a2c3385615b3e565b8251915f835284868401525f80516020615d1e833981519152843394a451908152f35b50611db6613a5b61598e565b90506139e8565b935f948115613ba4575b60018060a01b03915f80516020615d5e8339815191529183835416938651926304559f7160e01b8452828401526203d8ef6024840152600160f81b948560448501528360648160209c8d945af1928315613b9a579089949392915f93613b69575b508215613b52575b5f906064939454168851968795869463022f65e760e31b8652850152612710602485015260448401525af194851561309e575f95613b1e575b50506139fb61092f6020956139f1565b90809550813d8311613b4b575b613b358183613dc9565b8101031261037e579251926139fb61092f613b0e565b503d613b2b565b606492505f90613b6061598e565b93509050613ad5565b8581969294503d8311613b93575b613b818183613dc9565b8101031261037e57889351918a613acd565b503d613b77565b87513d5f823e3d90fd5b9050613bae61598e565b90613a6c565b90503461037e57613bc436613cb3565b939092613bd083614176565b825f52602090601a8252825f20855f528252825f209560018060a01b031695865f52825260ff835f205416156124db5750825f52601a8152815f20845f528152815f2090855f52525f2060ff1981541690557f3ef9e4f51d00d66de6147b1757ee24d39add32c1d495fd4b32cb4448a79b285e5f80a4005b83903461037e57602091613c5b36613c71565b905f52600e8452815f20905f5283525f20548152f35b604090600319011261037e576004359060243590565b602435906001600160a01b038216820361037e57565b600435906001600160a01b038216820361037e57565b606090600319011261037e5760043590602435906044356001600160a01b038116810361037e5790565b9181601f8401121561037e578235916001600160401b03831161037e576020838186019501011161037e57565b60a060031982011261037e57600435916024359160443591606435801515810361037e5791608435906001600160401b03821161037e57613d4d91600401613cdd565b9091565b608081019081106001600160401b03821117613d6c57604052565b634e487b7160e01b5f52604160045260245ffd5b6001600160401b038111613d6c57604052565b60c081019081106001600160401b03821117613d6c57604052565b60a081019081106001600160401b03821117613d6c57604052565b601f909101601f19168101906001600160401b03821190821017613d6c57604052565b9192916001600160401b038211613d6c5760405191613e15601f8201601f191660200184613dc9565b82948184528183011161037e578281602093845f960137010152565b9080601f8301121561037e57816020613e4c93359101613dec565b90565b606060031982011261037e57600435916001600160401b0360243581811161037e5783613e7e91600401613e31565b9260443591821161037e57613e4c91600401613e31565b606060031982011261037e576004359160243591604435906001600160401b03821161037e57613d4d91600401613cdd565b90600182811c92168015613ef5575b6020831014613ee157565b634e487b7160e01b5f52602260045260245ffd5b91607f1691613ed6565b5f5b838110613f105750505f910152565b8181015183820152602001613f01565b90602091613f3981518092818552858086019101613eff565b601f01601f1916010190565b9094939260609260808301968352602083015260408201520152565b906005821015613f6e5752565b634e487b7160e01b5f52602160045260245ffd5b60031115613f6e57565b926060929594919560808501968552602085015260408401521515910152565b51906001600160401b038216820361037e57565b5190811515820361037e57565b9060ff801983541691151516179055565b5f198114613fec5760010190565b634e487b7160e01b5f52601160045260245ffd5b6001600160401b0391821681529116602082015260400190565b919081101561402a5760051b0190565b634e487b7160e01b5f52603260045260245ffd5b356001600160a01b038116810361037e5790565b63ffffffff809116908114613fec5760010190565b805462010000600160501b03191660109290921b62010000600160501b0316919091179055565b9061070e6140a891835f52601b60205260405f20936156fa565b908054906001810154906003600282015491015491604051936020850195865260408501526060840152608083015260a082015260a081526140e981613d93565b51902090565b6001600160401b038111613d6c5760051b60200190565b80511561402a5760200190565b80516001101561402a5760400190565b80516002101561402a5760600190565b80516003101561402a5760800190565b805182101561402a5760209160051b010190565b906004811015613f6e5761ff0082549160081b169061ff001916179055565b801580156141d2575b6141c05761418c336146cf565b5f908152600a60205260409020600101546001600160a01b031633036141ae57565b6040516330cd747160e01b8152600490fd5b60405163b4fa3fb360e01b8152600490fd5b50600954811161417f565b805f526020600a815260409160018060a01b036001845f2001541633149081614274575b5f52600b8252825f20335f52825260ff835f2054169182614247575b5015908161423e575b5061422e5750565b51631a40715960e11b8152600490fd5b9050155f614226565b9091505f80516020615e3e8339815191525f5260028152825f2090335f525260ff825f205416905f61421d565b90505f80516020615d9e8339815191525f5260028252825f20335f52825260ff835f20541690614201565b60ff5f5460a01c166142ad57565b6040516313d0ff5960e31b8152600490fd5b602061430f9260018060a01b0392835f80516020615d5e8339815191525416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190613f20565b6005606483015203925af191821561437c575f92614387575b505f80516020615e9e8339815191525416803b1561037e575f6040518092630f8e573b60e21b8252818381614361338960048401614659565b03925af1801561437c57614373575090565b613e4c90613d80565b6040513d5f823e3d90fd5b9091506020813d6020116143b3575b816143a360209383613dc9565b8101031261037e5751905f614328565b3d9150614396565b90811561445e575b801561444c575b602090606460018060a01b035f80516020615d5e8339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af190811561437c575f9161441d575090565b90506020813d602011614444575b8161443860209383613dc9565b8101031261037e575190565b3d915061442b565b50602061445761598e565b90506143ca565b905061446861598e565b906143c3565b5f52600c60205260405f20905f5260205260405f205480156141c05790565b9190825f525f80516020615cde83398151915291602091838352604093845f20541561464857855f528352835f209084518083868295549384815201905f52865f20925f5b88828210614632575050506144e992500383613dc9565b805180850190818611613fec578601809111613fec5761458a5f86946145388961459d968151968161452489935180928d8087019101613eff565b8201908a8201520388810187520185613dc9565b6145ac60018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b875260606004880152606487019061552a565b6003199384878303016024880152613f20565b91848303016044850152613f20565b03925af191821561309e575f926145fc575b5050156145ec57507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b90809250813d831161462b575b6146138183613dc9565b8101031261037e5761462490613fc0565b5f806145be565b503d614609565b85548452600195860195889550930192016144d2565b845163d66ca67560e01b8152600490fd5b9081526001600160a01b03909116602082015260400190565b6001600160a01b03165f8181525f80516020615ebe83398151915260205260409020545f80516020615efe833981519152919060ff16156146b1575050565b60449250604051916301d4003760e61b835260048301526024820152fd5b6001600160a01b03165f8181527fbfc47ec69e6179110b54446c0db188260f7ccd9a51c402cf8c58527559b654e860205260409020545f80516020615d9e833981519152919060ff16156146b1575050565b6001600160a01b03165f8181527fdb8e92d7e6e424a9d78697f5d28bfa769802c0b2fe50bef156e82afeb93ce92160205260409020545f80516020615e3e833981519152919060ff16156146b1575050565b6001600160a01b03165f8181527f7b3c6f85a4c08021c6916ac78187978c3e520c79668bdc8638408a7bcf5c5ea060205260409020545f80516020615dbe833981519152919060ff16156146b1575050565b80156147d457613e4c90615c6a565b50613e4c6159e1565b908115614851575b801561483f575b602090606460018060a01b035f80516020615d5e8339815191525416935f6040519586948593630afe14ad60e31b8552600485015260248401528160448401525af190811561437c575f9161441d575090565b50602061484a61598e565b90506147ec565b905061485b61598e565b906147e5565b80156148c6575b5f80516020615d5e83398151915254604051635a53accb60e01b815260048101929092526127106024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af190811561437c575f9161441d575090565b505f60206148d261598e565b915050614868565b8015614941575b5f80516020615d5e83398151915254604051635a53accb60e01b815260048101929092526301e133806024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af190811561437c575f9161441d575090565b505f602061494d61598e565b9150506148e1565b9081156149c9575b80156149b7575b602090606460018060a01b035f80516020615d5e8339815191525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af190811561437c575f9161441d575090565b5060206149c261598e565b9050614964565b90506149d361598e565b9061495d565b614a18614a429392825f52601760205260405f20335f526020528060405f2055825f5260166020528360405f2055614a113082615b3e565b3390615b3e565b614a223083615b3e565b5f908152600a60205260409020600101546001600160a01b031690615b3e565b565b5f52601560205260405f2090815480614a5c57505050565b614a4292614a6c83600193615b3e565b0154615b3e565b6001600160a01b03165f8181525f80516020615ebe83398151915260205260409020545f80516020615efe833981519152919060ff16614ae357815f52600260205260405f20815f5260205260405f20600160ff1982541617905533915f80516020615cbe8339815191525f80a4565b5050565b90815f52600260205260405f209060018060a01b031690815f5260205260ff60405f205416614ae357815f52600260205260405f20815f5260205260405f20600160ff1982541617905533915f80516020615cbe8339815191525f80a4565b8015614b4f5790565b50613e4c61598e565b90614b63908261584a565b908180158281614d88575b15614d78575b5f60018060a01b03925f80516020615d5e8339815191529380855416604096875198637210768160e01b8a5260048a015260248901528360448901528760648160209687945af1968715614cfe575f97614d49575b508193614d39575b80855416968651946385362ee760e01b8652600486015283856064815f653fffffffffff9c8d6024840152600160f81b60448401525af1948515613b9a575f95614d08575b50614c235f9585926157e9565b976044838854169189519788938492639cd07acb60e01b84526004840152600560248401525af1938415614cfe575f94614ccc575b506064908394955416945f87519687948593637702dcff60e01b85528b6004860152602485015260448401525af1928315614cc357505f92614c9957505091565b90809250813d8311614cbc575b614cb08183613dc9565b8101031261037e575191565b503d614ca6565b513d5f823e3d90fd5b909280945081813d8311614cf7575b614ce58183613dc9565b8101031261037e575192916064614c58565b503d614cdb565b86513d5f823e3d90fd5b94508385813d8311614d32575b614d1f8183613dc9565b8101031261037e57935193614c23614c16565b503d614d15565b9250614d4361598e565b92614bd1565b9096508281813d8311614d71575b614d618183613dc9565b8101031261037e5751955f614bc9565b503d614d57565b9150614d8261598e565b91614b74565b9350614d9261598e565b93614b6e565b6001600160a01b03165f8181525f80516020615ebe83398151915260205260409020545f80516020615efe833981519152919060ff1615614ae357815f52600260205260405f20815f5260205260405f2060ff19815416905533915f80516020615e7e8339815191525f80a4565b90815f52600260205260405f209060018060a01b031690815f5260205260ff60405f20541615614ae357815f52600260205260405f20815f5260205260405f2060ff19815416905533915f80516020615e7e8339815191525f80a4565b6001548101809111613fec574210614e7757565b60405163aa9a98df60e01b8152600490fd5b80158015614ed3575b6141c0575f52600f60205260405f20905f5260205260ff60405f2054166005811015613f6e57600311614ec157565b6040516319417b1d60e21b8152600490fd5b506009548111614e92565b908115614f52575b8015614f40575b602090606460018060a01b035f80516020615d5e8339815191525416935f6040519586948593630d8c635960e21b8552600485015260248401528160448401525af190811561437c575f9161441d575090565b506020614f4b61598e565b9050614eed565b9050614f5c61598e565b90614ee6565b908115614fd6575b8015614fc4575b602090606460018060a01b035f80516020615d5e8339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af190811561437c575f9161441d575090565b506020614fcf61598e565b9050614f71565b9050614fe061598e565b90614f6a565b90811561505a575b8015615048575b602090606460018060a01b035f80516020615d5e8339815191525416935f6040519586948593631d44e90160e21b8552600485015260248401528160448401525af190811561437c575f9161441d575090565b50602061505361598e565b9050614ff5565b905061506461598e565b90614fee565b60ff5f199116019060ff8211613fec57565b91908261508761598e565b906012905b60ff82166153b657505081821591826153a4575b5f919260018060a01b035f80516020615d5e83398151915290808254169260409788519563ccc480a160e01b875260049889880152602496601288820152600160f81b9c8d97604498898401528260648160209d8e945af191821561534957888c8e898b968f95968f9b9a99975f92615353575b505f9261512a6203ffff97969593600593614f62565b99541691519b8c968795639cd07acb60e01b87528601528401525af1948515615349578b959493928d8c938c935f9861530c575b50606492915f918b8d54169151998a968795637702dcff60e01b9d8e88528701528501528d8401525af19283156110f857908992915f946152db575b50906152cd575b848654168b519d8e9263f77f3f1d60e01b84528c8401528983015f905288830152815a6064925f91f19a8b15610ad8575f9b61529c575b509086916151e46159e1565b9084865416918b519d8e9485528b8501528884015286830152815a6064925f91f1918215613b9a5785969798995f93615269575b50905f915416885197889586946307227b9160e21b8652828601528401525af1928315614cc357505f9261524b57505090565b90809250813d8311615262575b6144388183613dc9565b503d615258565b868193979294503d8311615295575b6152828183613dc9565b8101031261037e5751859490915f615218565b503d615278565b91909a508682813d83116152c6575b6152b58183613dc9565b8101031261037e57905199866151d8565b503d6152ab565b506152d661598e565b6151a1565b8381949295503d8311615305575b6152f38183613dc9565b8101031261037e57889151925f61519a565b503d6152e9565b949350965050955081813d8311615342575b6153288183613dc9565b8101031261037e57518a9490938a918a918e90606461515e565b503d61531e565b8c513d5f823e3d90fd5b98509a50505050505082813d831161539d575b6153708183613dc9565b8101031261037e57896203ffff898d8f5f9060058f9b61512a8f9a918f9251949697985092505092615114565b503d615366565b5f91506153af61598e565b91506150a0565b90916153ca6153c48461506a565b85615b9b565b916153df6153d88483614f62565b93826143bb565b5f60018060a01b035f80516020615d5e8339815191525416604093845193637702dcff60e01b8552876004860152602485015260448401528260648160209485945af1928315614cc357505f92615497575b505060ff916154556154466154689395615c6a565b61544f8761506a565b90615b9b565b908015615489575b811561547957615c16565b92168015613fec575f19019061508c565b905061548361598e565b90615c16565b5061549261598e565b61545d565b90809250813d83116154c0575b6154ae8183613dc9565b8101031261037e575181615455615431565b503d6154a4565b805460ff8160081c166004811015613f6e576001036141c05760ff166002811015613f6e576154fa5750614a4233614672565b600190615506336146cf565b01545f908152600a60205260409020600101546001600160a01b031633036141ae57565b9081518082526020808093019301915f5b828110615549575050505090565b83518552938101939281019260010161553b565b6001600160a01b0383165f8181527f214c18a85e8bcacd1ae69c36b92ae09880ca973fab1b84dd618b9be27f7e12826020526040908190205490969295939493919260ff92915f80516020615e1e833981519152908416156156a457506155c486886156fa565b938451966155d1886140ef565b976155de8b51998a613dc9565b8089526155ed601f19916140ef565b013660208a01375f5b8651811015615657578086600180931b871616158015615645575b61564057615623896121e3838b614143565b61562d8189614143565b51615638828c614143565b525b016155f6565b61563a565b506156508189614143565b5115615611565b5096909795507fb715df9826380b6f02ad6d3ba1c45d16db673da227e3c8d32b56f0ddece102b8945060ff935061569f9198805194859416845280602085015283019061552a565b0390a4565b604490858a51916301d4003760e61b835260048301526024820152fd5b5f52600b60205260405f20335f5260205260ff60405f205416156156e857614a4233614721565b604051631a40715960e11b8152600490fd5b919091805f52602092600c8452604090815f20815f528552815f209482519360e0850185811060018060401b03821117613d6c5784526006855260c0368387013760038597805461574a88614106565b52600181015461575988614113565b52600281015461576888614123565b52015461577486614133565b52805f52600d8252835f20835f528252835f205485516004101561402a5760a08601525f52600e8152825f20915f52525f20549080516005101561402a5760c00152565b6040516140e9816157d5602082019460408652606083019061552a565b30604083015203601f198101835282613dc9565b90613e4c918015615804575b81615c16579050615483615a35565b5061580d615a35565b6157f5565b90615845836003614a429594615829838254615b3e565b615837836001830154615b3e565b614a6c836002830154615b3e565b615b3e565b9081156158be575b80156158ac575b602090606460018060a01b035f80516020615d5e8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af190811561437c575f9161441d575090565b5060206158b761598e565b9050615859565b90506158c861598e565b90615852565b5f80516020615d5e833981519152546040516304559f7160e01b815260048101929092526127106024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af190811561437c575f9161441d575090565b5f80516020615d5e833981519152546040516304559f7160e01b81526004810192909252653fffffffffff6024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af190811561437c575f9161441d575090565b5f80516020615d5e83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af190811561437c575f9161441d575090565b5f80516020615d5e83398151915254604051639cd07acb60e01b815261271060048201526005602482015290602090829060449082905f906001600160a01b03165af190811561437c575f9161441d575090565b5f602060018060a01b035f80516020615d5e8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af190811561437c575f9161441d575090565b5f80516020615d5e83398151915254604051630afe14ad60e31b815260048101929092526127106024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af190811561437c575f9161441d575090565b5f80516020615d5e83398151915254604051630afe14ad60e31b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af190811561437c575f9161441d575090565b5f80516020615e9e833981519152546001600160a01b031691823b1561037e57615b81925f9283604051809681958294635ca4b5b160e11b845260048401614659565b03925af1801561437c57615b925750565b614a4290613d80565b60ff916020918015615c04575b5f80516020615d5e8339815191525460405163ccc480a160e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af190811561437c575f9161441d575090565b506064615c0f61598e565b9050615ba8565b90602090606460018060a01b035f80516020615d5e8339815191525416935f60405195869485936363a2db2960e01b8552600485015260248401528160448401525af190811561437c575f9161441d575090565b5f80516020615d5e833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af190811561437c575f9161441d57509056fe2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01afeb8d353a550fa93ee49e05f2ec51920688cec519f9c53be94a6ffffdf9a534389640f745c35f3a48e7fdfc94beedee057a95d16e4833ce28f973f7535cf9d02f574736b9a482ddcb0a36a255673a594fbe04ff4a10d24bd37456e52095a6789e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701f801f8c58444cf37fcd0d5c4e03abc49f2bccdb387055559ff8e3427c2c273540b84ee281e5cf521a9ad54a86fafe78946b157177e231bd8ae785af4d3b3620fb6f0283bd1ed00c6aa7e988a7516070240f3610a34d167391359b648eb37cefc42d1478728914aa7d2380be97ca0a8095b9ee82d43b68878da565b0a8f3e74c265d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f5b6f6b279a7a4e2aa16012cbd36fcdc1fbdb91b92fd6dab57885c9de496473a8d9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702f6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700e5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc5878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00a49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775a164736f6c6343000818000a2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d";
+
+type AssetMgmtFheConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AssetMgmtFheConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AssetMgmtFhe__factory extends ContractFactory {
+  constructor(...args: AssetMgmtFheConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      AssetMgmtFhe & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AssetMgmtFhe__factory {
+    return super.connect(runner) as AssetMgmtFhe__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AssetMgmtFheInterface {
+    return new Interface(_abi) as AssetMgmtFheInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AssetMgmtFhe {
+    return new Contract(address, _abi, runner) as unknown as AssetMgmtFhe;
+  }
+}
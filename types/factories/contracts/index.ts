@@ -1,4 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as assetMgmtFheSol from "./Asset_Mgmt_Fhe.sol";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
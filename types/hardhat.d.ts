@@ -45,6 +45,10 @@ declare module "hardhat/types/runtime" {
       name: "IInputVerifier",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
+    getContractFactory(
+      name: "AssetMgmtFhe",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.AssetMgmtFhe__factory>;
     getContractFactory(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | FactoryOptions
@@ -90,6 +94,11 @@ declare module "hardhat/types/runtime" {
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
+    getContractAt(
+      name: "AssetMgmtFhe",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.AssetMgmtFhe>;
     getContractAt(
       name: "UniversalAdapter",
       address: string | ethers.Addressable,
@@ -128,6 +137,10 @@ declare module "hardhat/types/runtime" {
       name: "IInputVerifier",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
+    deployContract(
+      name: "AssetMgmtFhe",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.AssetMgmtFhe>;
     deployContract(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | DeployContractOptions
@@ -173,6 +186,11 @@ declare module "hardhat/types/runtime" {
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
+    deployContract(
+      name: "AssetMgmtFhe",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.AssetMgmtFhe>;
     deployContract(
       name: "UniversalAdapter",
       args: any[],
@@ -6,6 +6,8 @@ export type { fhevm };
 import type * as contracts from "./contracts";
 export type { contracts };
 export * as factories from "./factories";
+export type { AssetMgmtFhe } from "./contracts/Asset_Mgmt_Fhe.sol/AssetMgmtFhe";
+export { AssetMgmtFhe__factory } from "./factories/contracts/Asset_Mgmt_Fhe.sol/AssetMgmtFhe__factory";
 export type { EthereumConfig } from "./@fhevm/solidity/config/ZamaConfig.sol/EthereumConfig";
 export { EthereumConfig__factory } from "./factories/@fhevm/solidity/config/ZamaConfig.sol/EthereumConfig__factory";
 export type { SepoliaConfig } from "./@fhevm/solidity/config/ZamaConfig.sol/SepoliaConfig";